@@ -0,0 +1,77 @@
+import type { ChannelType } from '@unifiedstay/database';
+import type { ClassificationRules } from '@unifiedstay/shared';
+
+export type ICalEventKind = 'reservation' | 'block';
+
+interface CompiledRules {
+  reservationPatterns: RegExp[];
+  blockPatterns: RegExp[];
+}
+
+// Default patterns per channel, matched case-insensitively against SUMMARY and DESCRIPTION.
+// Reservation patterns are checked first so a guest named "Blocker" is still a booking.
+const defaultRules: Record<ChannelType, Required<ClassificationRules>> = {
+  airbnb: {
+    // Airbnb exports bookings as "Reserved" with a reservation URL in the description
+    reservationPatterns: ['^reserved$', 'reservation url'],
+    blockPatterns: ['not available', 'blocked'],
+  },
+  vrbo: {
+    reservationPatterns: ['^reserved\\b', '^booked\\b'],
+    blockPatterns: ['^blocked', 'not available', 'unavailable'],
+  },
+  booking: {
+    reservationPatterns: [],
+    blockPatterns: ['closed', 'not available'],
+  },
+  direct: {
+    reservationPatterns: [],
+    blockPatterns: ['not available', 'blocked', 'unavailable'],
+  },
+  other: {
+    reservationPatterns: [],
+    blockPatterns: ['not available', 'blocked', 'unavailable', 'closed'],
+  },
+};
+
+function compile(patterns: string[]): RegExp[] {
+  return patterns.map((pattern) => new RegExp(pattern, 'i'));
+}
+
+/**
+ * Build the matcher for a channel mapping. Rules stored on the mapping
+ * replace the channel defaults list by list.
+ */
+export function getClassificationRules(
+  channel: ChannelType,
+  overrides?: ClassificationRules | null
+): CompiledRules {
+  const defaults = defaultRules[channel];
+
+  return {
+    reservationPatterns: compile(overrides?.reservationPatterns ?? defaults.reservationPatterns),
+    blockPatterns: compile(overrides?.blockPatterns ?? defaults.blockPatterns),
+  };
+}
+
+/**
+ * Decide whether an imported VEVENT is a guest booking or an owner/channel block
+ */
+export function classifyEvent(
+  event: { summary: string; description?: string },
+  rules: CompiledRules
+): ICalEventKind {
+  const fields = [event.summary.trim(), event.description?.trim() ?? ''];
+  const matches = (patterns: RegExp[]) =>
+    patterns.some((pattern) => fields.some((field) => field && pattern.test(field)));
+
+  if (matches(rules.reservationPatterns)) {
+    return 'reservation';
+  }
+
+  if (matches(rules.blockPatterns)) {
+    return 'block';
+  }
+
+  return 'reservation';
+}
@@ -0,0 +1,94 @@
+import type { ChannelType } from '@unifiedstay/database';
+
+export interface ICalEventDetails {
+  confirmationCode?: string;
+  guestName?: string;
+  guestEmail?: string;
+  guestPhone?: string;
+  notes?: string;
+}
+
+type DetailsParser = (summary: string, description: string) => ICalEventDetails;
+
+/**
+ * Airbnb puts the reservation link and the last 4 digits of the guest phone in DESCRIPTION:
+ *   Reservation URL: https://www.airbnb.com/hosting/reservations/details/HMABC12345
+ *   Phone Number (Last 4 Digits): 1234
+ */
+const parseAirbnb: DetailsParser = (_summary, description) => {
+  const details: ICalEventDetails = {};
+
+  const url = description.match(/https?:\/\/\S*\/reservations\/details\/([A-Z0-9]+)/i);
+  if (url) {
+    details.confirmationCode = url[1].toUpperCase();
+    details.notes = `Reservation URL: ${url[0]}`;
+  }
+
+  const phone = description.match(/phone number \(last 4 digits\):\s*(\d{4})/i);
+  if (phone) {
+    details.guestPhone = `***${phone[1]}`;
+  }
+
+  return details;
+};
+
+/**
+ * Vrbo and most other channels use "Key: value" lines, and Vrbo names the guest
+ * in SUMMARY ("Reserved - Jane Doe")
+ */
+const parseKeyValue: DetailsParser = (summary, description) => {
+  const details: ICalEventDetails = {};
+  const unmatched: string[] = [];
+
+  const name = summary.match(/^(?:reserved|booked)\s*[-:]\s*(.+)$/i);
+  if (name) {
+    details.guestName = name[1].trim();
+  }
+
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(/^\s*([^:]+):\s*(.+)$/);
+    if (!match) {
+      if (line.trim()) unmatched.push(line.trim());
+      continue;
+    }
+
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (/reservation (id|number|#)|confirmation|booking (id|number)/.test(key)) {
+      details.confirmationCode = value;
+    } else if (/e-?mail/.test(key)) {
+      details.guestEmail = value;
+    } else if (/phone/.test(key)) {
+      details.guestPhone = value;
+    } else if (/^(guest|traveler|name)/.test(key) && !details.guestName) {
+      details.guestName = value;
+    } else {
+      unmatched.push(line.trim());
+    }
+  }
+
+  if (unmatched.length > 0) {
+    details.notes = unmatched.join('\n');
+  }
+
+  return details;
+};
+
+const parsers: Record<ChannelType, DetailsParser> = {
+  airbnb: parseAirbnb,
+  vrbo: parseKeyValue,
+  booking: parseKeyValue,
+  direct: parseKeyValue,
+  other: parseKeyValue,
+};
+
+/**
+ * Pull the confirmation code and guest details out of an imported VEVENT
+ */
+export function parseEventDetails(
+  channel: ChannelType,
+  event: { summary: string; description?: string }
+): ICalEventDetails {
+  return parsers[channel](event.summary.trim(), event.description ?? '');
+}
@@ -1,11 +1,21 @@
 import ICAL from 'ical.js';
-import { db, ChannelType } from '@unifiedstay/database';
+import { createHash } from 'crypto';
+import { db, ChannelType, ReservationStatus } from '@unifiedstay/database';
+import type { ClassificationRules } from '@unifiedstay/shared';
+import { classifyEvent, getClassificationRules, type ICalEventKind } from './ical-classifier.js';
+import { parseEventDetails } from './ical-description.js';
+import { getLocalToday, toLocalDate } from '../lib/timezone.js';
 
 // Use inline type to avoid Prisma generation dependency
 interface ChannelMappingInput {
   id: string;
   channel: ChannelType;
   iCalUrl: string | null;
+  iCalEtag?: string | null;
+  iCalLastModified?: string | null;
+  iCalContentHash?: string | null;
+  classificationRules?: unknown;
+  property: { timezone: string; organizationId: string };
 }
 
 export interface CalendarSyncResult {
@@ -13,17 +23,90 @@ export interface CalendarSyncResult {
   eventsFound: number;
   eventsCreated: number;
   eventsUpdated: number;
+  eventsCancelled: number;
   added: number;  // Alias for eventsCreated
   updated: number; // Alias for eventsUpdated
+  unchanged?: boolean; // Feed was identical to the last successful sync
   error?: string;
 }
 
+export interface ICalExportEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  description?: string;
+}
+
+interface ExistingReservation {
+  id: string;
+  unitId: string;
+  externalId: string | null;
+  icalUid: string | null;
+  guestName: string;
+  guestEmail: string | null;
+  guestPhone: string | null;
+  notes: string | null;
+  checkIn: Date;
+  checkOut: Date;
+  status: ReservationStatus;
+  cancelledManually: boolean;
+}
+
+interface ImportedReservationData {
+  externalId: string;
+  icalUid: string;
+  guestName: string;
+  guestEmail: string | null;
+  guestPhone: string | null;
+  checkIn: Date;
+  checkOut: Date;
+  status: ReservationStatus;
+  notes?: string | null;
+}
+
+interface ReservationDiff {
+  toCreate: (ImportedReservationData & { unitId: string; channel: ChannelType })[];
+  toUpdate: {
+    id: string;
+    data: ImportedReservationData;
+  }[];
+  toCancel: string[];
+}
+
+interface ExistingBlock {
+  id: string;
+  unitId: string;
+  externalId: string | null;
+  startDate: Date;
+  endDate: Date;
+  notes: string | null;
+}
+
+interface BlockDiff {
+  toCreate: {
+    unitId: string;
+    type: 'blocked';
+    channel: ChannelType;
+    externalId: string;
+    startDate: Date;
+    endDate: Date;
+    notes: string;
+  }[];
+  toUpdate: {
+    id: string;
+    data: { startDate: Date; endDate: Date; notes: string };
+  }[];
+  toDelete: string[];
+}
+
 interface ICalEvent {
   uid: string;
   summary: string;
   dtstart: Date;
   dtend: Date;
   description?: string;
+  kind: ICalEventKind;
 }
 
 class ICalAdapter {
@@ -34,6 +117,7 @@ class ICalAdapter {
         eventsFound: 0,
         eventsCreated: 0,
         eventsUpdated: 0,
+        eventsCancelled: 0,
         added: 0,
         updated: 0,
         error: 'No iCal URL configured',
@@ -41,80 +125,179 @@ class ICalAdapter {
     }
 
     try {
-      // Fetch iCal data
-      const response = await fetch(mapping.iCalUrl);
+      // Fetch iCal data, letting the channel tell us when nothing changed
+      const headers: Record<string, string> = {};
+      if (mapping.iCalEtag) {
+        headers['If-None-Match'] = mapping.iCalEtag;
+      }
+      if (mapping.iCalLastModified) {
+        headers['If-Modified-Since'] = mapping.iCalLastModified;
+      }
+
+      const response = await fetch(mapping.iCalUrl, { headers });
+
+      if (response.status === 304) {
+        return this.logUnchanged(mapping);
+      }
+
       if (!response.ok) {
         throw new Error(`Failed to fetch iCal: ${response.status}`);
       }
 
       const icalData = await response.text();
-      const events = this.parseICalData(icalData);
+      const contentHash = createHash('sha256').update(icalData).digest('hex');
 
-      let eventsCreated = 0;
-      let eventsUpdated = 0;
+      // Many channels ignore conditional headers, so compare the body as well
+      if (mapping.iCalContentHash && mapping.iCalContentHash === contentHash) {
+        await db.channelMapping.update({
+          where: { id: mapping.id },
+          data: {
+            iCalEtag: response.headers.get('etag'),
+            iCalLastModified: response.headers.get('last-modified'),
+          },
+        });
+        return this.logUnchanged(mapping);
+      }
 
-      // Process each event
-      for (const event of events) {
-        const externalId = `${mapping.channel}-${event.uid}`;
+      const rules = getClassificationRules(
+        mapping.channel,
+        mapping.classificationRules as ClassificationRules | null
+      );
+      const events = this.parseICalData(icalData, mapping.property.timezone).map((event) => ({
+        ...event,
+        kind: classifyEvent(event, rules),
+      }));
+      const reservationEvents = events.filter((event) => event.kind === 'reservation');
+      const blockEvents = events.filter((event) => event.kind === 'block');
 
-        // Check if reservation exists
-        const existing = await db.reservation.findFirst({
+      // One read per table for everything this feed could touch, then diff in memory
+      const externalIds = events.map((event) => `${mapping.channel}-${event.uid}`);
+      const confirmationCodes = reservationEvents
+        .map((event) => parseEventDetails(mapping.channel, event).confirmationCode)
+        .filter((code): code is string => !!code);
+      const [existingReservations, existingBlocks] = await Promise.all([
+        db.reservation.findMany({
           where: {
             channel: mapping.channel,
-            externalId,
+            // Codes and UIDs come from the feed, so only ever match this organization's stays
+            unit: { property: { organizationId: mapping.property.organizationId } },
+            OR: [
+              { icalUid: { in: reservationEvents.map((event) => event.uid) } },
+              { externalId: { in: [...externalIds, ...confirmationCodes] } },
+              { unitId, icalUid: { not: null } },
+              // Imported before UIDs were stored separately
+              { unitId, externalId: { startsWith: `${mapping.channel}-` } },
+            ],
           },
-        });
+          select: {
+            id: true,
+            unitId: true,
+            externalId: true,
+            icalUid: true,
+            guestName: true,
+            guestEmail: true,
+            guestPhone: true,
+            notes: true,
+            checkIn: true,
+            checkOut: true,
+            status: true,
+            cancelledManually: true,
+          },
+        }),
+        db.availabilityBlock.findMany({
+          // Blocks are never adopted from elsewhere, so only this unit's count
+          where: {
+            channel: mapping.channel,
+            unitId,
+          },
+          select: {
+            id: true,
+            unitId: true,
+            externalId: true,
+            startDate: true,
+            endDate: true,
+            notes: true,
+          },
+        }),
+      ]);
+
+      const today = getLocalToday(mapping.property.timezone);
+      const diff = this.diffReservations(mapping, unitId, reservationEvents, existingReservations, today);
+      const blockDiff = this.diffBlocks(mapping, unitId, blockEvents, existingBlocks, today);
+
+      const eventsCreated = diff.toCreate.length + blockDiff.toCreate.length;
+      const eventsUpdated = diff.toUpdate.length + blockDiff.toUpdate.length;
+      const eventsCancelled = diff.toCancel.length + blockDiff.toDelete.length;
 
-        if (existing) {
-          // Update if dates changed
-          if (
-            existing.checkIn.getTime() !== event.dtstart.getTime() ||
-            existing.checkOut.getTime() !== event.dtend.getTime()
-          ) {
-            await db.reservation.update({
-              where: { id: existing.id },
-              data: {
-                checkIn: event.dtstart,
-                checkOut: event.dtend,
-                guestName: event.summary || 'Guest',
-              },
+      // Apply the whole diff atomically so a crash never leaves a half-synced calendar
+      await db.$transaction(
+        async (tx) => {
+          if (diff.toCreate.length > 0) {
+            await tx.reservation.createMany({ data: diff.toCreate });
+          }
+
+          for (const update of diff.toUpdate) {
+            await tx.reservation.update({
+              where: { id: update.id },
+              data: update.data,
             });
-            eventsUpdated++;
           }
-        } else {
-          // Create new reservation
-          await db.reservation.create({
+
+          if (diff.toCancel.length > 0) {
+            await tx.reservation.updateMany({
+              where: { id: { in: diff.toCancel } },
+              data: { status: 'cancelled' },
+            });
+          }
+
+          if (blockDiff.toCreate.length > 0) {
+            await tx.availabilityBlock.createMany({ data: blockDiff.toCreate });
+          }
+
+          for (const update of blockDiff.toUpdate) {
+            await tx.availabilityBlock.update({
+              where: { id: update.id },
+              data: update.data,
+            });
+          }
+
+          if (blockDiff.toDelete.length > 0) {
+            await tx.availabilityBlock.deleteMany({
+              where: { id: { in: blockDiff.toDelete } },
+            });
+          }
+
+          // Only remember the feed version once it has been fully applied
+          await tx.channelMapping.update({
+            where: { id: mapping.id },
             data: {
-              unitId,
-              channel: mapping.channel,
-              externalId,
-              guestName: event.summary || 'Guest',
-              checkIn: event.dtstart,
-              checkOut: event.dtend,
-              status: 'confirmed',
+              iCalEtag: response.headers.get('etag'),
+              iCalLastModified: response.headers.get('last-modified'),
+              iCalContentHash: contentHash,
             },
           });
-          eventsCreated++;
-        }
-      }
 
-      // Log sync
-      await db.syncLog.create({
-        data: {
-          channelMappingId: mapping.id,
-          status: 'success',
-          eventsFound: events.length,
-          eventsCreated,
-          eventsUpdated,
-          completedAt: new Date(),
+          await tx.syncLog.create({
+            data: {
+              channelMappingId: mapping.id,
+              status: 'success',
+              eventsFound: events.length,
+              eventsCreated,
+              eventsUpdated,
+              eventsCancelled,
+              completedAt: new Date(),
+            },
+          });
         },
-      });
+        { timeout: 30000 }
+      );
 
       return {
         success: true,
         eventsFound: events.length,
         eventsCreated,
         eventsUpdated,
+        eventsCancelled,
         added: eventsCreated,
         updated: eventsUpdated,
       };
@@ -136,6 +319,7 @@ class ICalAdapter {
         eventsFound: 0,
         eventsCreated: 0,
         eventsUpdated: 0,
+        eventsCancelled: 0,
         added: 0,
         updated: 0,
         error: errorMessage,
@@ -143,13 +327,254 @@ class ICalAdapter {
     }
   }
 
-  private parseICalData(icalData: string): ICalEvent[] {
+  private async logUnchanged(mapping: ChannelMappingInput): Promise<CalendarSyncResult> {
+    await db.syncLog.create({
+      data: {
+        channelMappingId: mapping.id,
+        status: 'unchanged',
+        completedAt: new Date(),
+      },
+    });
+
+    return {
+      success: true,
+      eventsFound: 0,
+      eventsCreated: 0,
+      eventsUpdated: 0,
+      eventsCancelled: 0,
+      added: 0,
+      updated: 0,
+      unchanged: true,
+    };
+  }
+
+  /**
+   * Work out which reservations to create, update and cancel for a feed.
+   * Events are matched by UID first, then by confirmation code so a booking
+   * entered by hand with its code is adopted rather than duplicated.
+   * Upcoming reservations imported from this feed that are no longer in it
+   * (e.g. the guest cancelled on the channel) are cancelled. Stays that have
+   * already started are left alone since feeds may drop them early.
+   */
+  private diffReservations(
+    mapping: ChannelMappingInput,
+    unitId: string,
+    events: ICalEvent[],
+    existing: ExistingReservation[],
+    today: Date
+  ): ReservationDiff {
+    const diff: ReservationDiff = { toCreate: [], toUpdate: [], toCancel: [] };
+    const legacyPrefix = `${mapping.channel}-`;
+    const uidOf = (r: ExistingReservation) =>
+      r.icalUid ?? (r.externalId?.startsWith(legacyPrefix) ? r.externalId.slice(legacyPrefix.length) : null);
+
+    const existingByUid = new Map(existing.map((r) => [uidOf(r), r]));
+    const existingByCode = new Map(existing.map((r) => [r.externalId, r]));
+    const seenUids = new Set<string>();
+    const matchedIds = new Set<string>();
+
+    for (const event of events) {
+      // Feeds occasionally repeat a UID; the first occurrence wins
+      if (seenUids.has(event.uid)) {
+        continue;
+      }
+      seenUids.add(event.uid);
+
+      const details = parseEventDetails(mapping.channel, event);
+      const data: ImportedReservationData = {
+        externalId: details.confirmationCode ?? `${legacyPrefix}${event.uid}`,
+        icalUid: event.uid,
+        guestName: details.guestName ?? (event.summary || 'Guest'),
+        guestEmail: details.guestEmail ?? null,
+        guestPhone: details.guestPhone ?? null,
+        checkIn: event.dtstart,
+        checkOut: event.dtend,
+        status: 'confirmed',
+      };
+
+      let current = existingByUid.get(event.uid);
+      if (!current && details.confirmationCode) {
+        const byCode = existingByCode.get(details.confirmationCode);
+        if (byCode && !matchedIds.has(byCode.id)) {
+          current = byCode;
+        }
+      }
+
+      if (!current) {
+        diff.toCreate.push({
+          ...data,
+          unitId,
+          channel: mapping.channel,
+          notes: details.notes ?? null,
+        });
+        continue;
+      }
+
+      matchedIds.add(current.id);
+
+      // The owner cancelled this one (e.g. to resolve a double booking); keep it cancelled
+      if (current.cancelledManually) {
+        continue;
+      }
+
+      // Notes may have been edited by the owner, so only fill them in when empty
+      if (!current.notes && details.notes) {
+        data.notes = details.notes;
+      }
+
+      // Update if anything changed, or restore a reservation that reappeared in the feed
+      if (
+        current.checkIn.getTime() !== data.checkIn.getTime() ||
+        current.checkOut.getTime() !== data.checkOut.getTime() ||
+        current.status === 'cancelled' ||
+        current.externalId !== data.externalId ||
+        current.icalUid !== data.icalUid ||
+        current.guestName !== data.guestName ||
+        (current.guestEmail ?? null) !== data.guestEmail ||
+        (current.guestPhone ?? null) !== data.guestPhone ||
+        data.notes !== undefined
+      ) {
+        diff.toUpdate.push({ id: current.id, data });
+      }
+    }
+
+    for (const reservation of existing) {
+      if (
+        reservation.unitId === unitId &&
+        uidOf(reservation) !== null &&
+        !matchedIds.has(reservation.id) &&
+        (reservation.status === 'confirmed' || reservation.status === 'pending') &&
+        reservation.checkIn >= today
+      ) {
+        diff.toCancel.push(reservation.id);
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Work out which imported blocks to create, move and remove for a feed.
+   * Blocks the channel no longer lists are removed unless they are already over.
+   */
+  private diffBlocks(
+    mapping: ChannelMappingInput,
+    unitId: string,
+    events: ICalEvent[],
+    existing: ExistingBlock[],
+    today: Date
+  ): BlockDiff {
+    const diff: BlockDiff = { toCreate: [], toUpdate: [], toDelete: [] };
+    const existingByExternalId = new Map(existing.map((b) => [b.externalId, b]));
+    const seenExternalIds = new Set<string>();
+
+    for (const event of events) {
+      const externalId = `${mapping.channel}-${event.uid}`;
+
+      if (seenExternalIds.has(externalId)) {
+        continue;
+      }
+      seenExternalIds.add(externalId);
+
+      const current = existingByExternalId.get(externalId);
+
+      if (!current) {
+        diff.toCreate.push({
+          unitId,
+          type: 'blocked',
+          channel: mapping.channel,
+          externalId,
+          startDate: event.dtstart,
+          endDate: event.dtend,
+          notes: event.summary,
+        });
+        continue;
+      }
+
+      if (
+        current.startDate.getTime() !== event.dtstart.getTime() ||
+        current.endDate.getTime() !== event.dtend.getTime() ||
+        current.notes !== event.summary
+      ) {
+        diff.toUpdate.push({
+          id: current.id,
+          data: {
+            startDate: event.dtstart,
+            endDate: event.dtend,
+            notes: event.summary,
+          },
+        });
+      }
+    }
+
+    for (const block of existing) {
+      if (block.unitId === unitId && !seenExternalIds.has(block.externalId!) && block.endDate >= today) {
+        diff.toDelete.push(block.id);
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Build an iCal feed from reservations and blocks so channels can import our availability
+   */
+  generateICalFeed(calendarName: string, events: ICalExportEvent[]): string {
+    const calendar = new ICAL.Component(['vcalendar', [], []]);
+    calendar.updatePropertyWithValue('prodid', '-//UnifiedStay//Calendar Export//EN');
+    calendar.updatePropertyWithValue('version', '2.0');
+    calendar.updatePropertyWithValue('calscale', 'GREGORIAN');
+    calendar.updatePropertyWithValue('x-wr-calname', calendarName);
+
+    const now = ICAL.Time.fromJSDate(new Date(), true);
+
+    for (const item of events) {
+      const vevent = new ICAL.Component('vevent');
+      const event = new ICAL.Event(vevent);
+
+      event.uid = item.uid;
+      event.summary = item.summary;
+      event.startDate = this.toICalDate(item.start);
+      event.endDate = this.toICalDate(item.end);
+      if (item.description) {
+        event.description = item.description;
+      }
+      vevent.addPropertyWithValue('dtstamp', now);
+
+      calendar.addSubcomponent(vevent);
+    }
+
+    return calendar.toString();
+  }
+
+  // Reservation and block dates are stored as DATE columns (UTC midnight)
+  private toICalDate(date: Date): ICAL.Time {
+    return ICAL.Time.fromData({
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      isDate: true,
+    });
+  }
+
+  /**
+   * Stay dates are calendar days at the property. All-day and floating values
+   * are already local; timed values are converted into the property's timezone.
+   */
+  private toStayDate(time: ICAL.Time, timezone: string): Date {
+    if (time.isDate || time.zone === ICAL.Timezone.localTimezone) {
+      return new Date(Date.UTC(time.year, time.month - 1, time.day));
+    }
+    return toLocalDate(time.toJSDate(), timezone);
+  }
+
+  private parseICalData(icalData: string, timezone: string): Omit<ICalEvent, 'kind'>[] {
     try {
       const jcalData = ICAL.parse(icalData);
       const comp = new ICAL.Component(jcalData);
       const vevents = comp.getAllSubcomponents('vevent');
 
-      const events: ICalEvent[] = [];
+      const events: Omit<ICalEvent, 'kind'>[] = [];
 
       for (const vevent of vevents) {
         const event = new ICAL.Event(vevent);
@@ -162,16 +587,17 @@ class ICalAdapter {
         events.push({
           uid: event.uid || crypto.randomUUID(),
           summary: event.summary || 'Blocked',
-          dtstart: event.startDate.toJSDate(),
-          dtend: event.endDate.toJSDate(),
+          dtstart: this.toStayDate(event.startDate, timezone),
+          dtend: this.toStayDate(event.endDate, timezone),
           description: event.description || undefined,
         });
       }
 
       return events;
     } catch (error) {
+      // Surface parse failures so a broken download never looks like an empty calendar
       console.error('Failed to parse iCal data:', error);
-      return [];
+      throw new Error('Failed to parse iCal data');
     }
   }
 }
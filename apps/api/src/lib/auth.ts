@@ -1,8 +1,13 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
+import { db } from '@unifiedstay/database';
+import type { UserRole } from '@unifiedstay/shared';
 
 export interface JWTPayload {
   id: string;
   email: string;
+  // The organization the user is signed in to, and their role there
+  organizationId: string;
+  role: UserRole;
 }
 
 declare module '@fastify/jwt' {
@@ -15,8 +20,32 @@ declare module '@fastify/jwt' {
 export async function authenticate(request: FastifyRequest, reply: FastifyReply) {
   try {
     await request.jwtVerify();
+
+    // Tokens from before organizations existed can't be scoped
+    if (!request.user.organizationId) {
+      throw new Error('Token has no organization');
+    }
+
+    // Tokens outlive membership changes, so removed members are signed out and
+    // changed roles apply straight away
+    const membership = await db.organizationMember.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: request.user.organizationId,
+          userId: request.user.id,
+        },
+      },
+      select: { role: true },
+    });
+
+    if (!membership) {
+      throw new Error('No longer a member of the organization');
+    }
+
+    request.user.role = membership.role;
   } catch (err) {
-    reply.status(401).send({
+    // Returning the reply stops later preHandlers and the route from running
+    return reply.status(401).send({
       success: false,
       error: {
         code: 'UNAUTHORIZED',
@@ -30,3 +59,60 @@ export function getCurrentUserId(request: FastifyRequest): string {
   return request.user.id;
 }
 
+/**
+ * The organization the request acts on. Properties, guests and everything
+ * under them are scoped by this, never by the user's own id.
+ */
+export function getOrganizationId(request: FastifyRequest): string {
+  return request.user.organizationId;
+}
+
+export function getRole(request: FastifyRequest): UserRole {
+  return request.user.role;
+}
+
+/**
+ * Cleaners and maintenance staff only reach tasks assigned to them. Returns
+ * the assignee to scope task queries by, or undefined for everyone else.
+ */
+export function getAssigneeScope(request: FastifyRequest): string | undefined {
+  const role = getRole(request);
+  return role === 'cleaner' || role === 'maintenance' ? request.user.id : undefined;
+}
+
+/**
+ * preHandler that rejects users without one of the given roles.
+ * Register it after authenticate.
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!roles.includes(getRole(request))) {
+      return forbidden(reply);
+    }
+  };
+}
+
+/**
+ * Like requireRole, but readOnlyRoles may also make GET requests
+ */
+export function requireRoleToWrite(roles: UserRole[], readOnlyRoles: UserRole[]) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const role = getRole(request);
+    const allowed = request.method === 'GET' ? [...roles, ...readOnlyRoles] : roles;
+
+    if (!allowed.includes(role)) {
+      return forbidden(reply);
+    }
+  };
+}
+
+function forbidden(reply: FastifyReply) {
+  return reply.status(403).send({
+    success: false,
+    error: {
+      code: 'FORBIDDEN',
+      message: "Your role doesn't have access to this",
+    },
+  });
+}
+
@@ -11,11 +11,31 @@ export const config = {
   // Redis
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
   
+  // Channel sync
+  syncConcurrency: parseInt(process.env.SYNC_CONCURRENCY || '4', 10),
+  syncLogRetentionDays: parseInt(process.env.SYNC_LOG_RETENTION_DAYS || '90', 10),
+
   // JWT
   jwtSecret: process.env.JWT_SECRET || 'dev-jwt-secret-change-in-production',
   jwtRefreshSecret: process.env.JWT_REFRESH_SECRET || 'dev-refresh-secret-change-in-production',
   
   // Frontend
   frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
+
+  // Public booking API (requests per client IP)
+  trustProxy: process.env.TRUST_PROXY === 'true',
+  publicRateLimitPerMinute: parseInt(process.env.PUBLIC_RATE_LIMIT_PER_MINUTE || '60', 10),
+  publicBookingLimitPerHour: parseInt(process.env.PUBLIC_BOOKING_LIMIT_PER_HOUR || '5', 10),
+  // How long an unanswered booking request holds its dates
+  publicBookingHoldHours: parseInt(process.env.PUBLIC_BOOKING_HOLD_HOURS || '24', 10),
+
+  // File storage for task photos: 'local' disk or any S3-compatible bucket
+  storageDriver: (process.env.STORAGE_DRIVER || 'local') as 'local' | 's3',
+  storageLocalDir: process.env.STORAGE_LOCAL_DIR || './uploads',
+  s3Endpoint: process.env.S3_ENDPOINT || 'https://s3.amazonaws.com',
+  s3Region: process.env.S3_REGION || 'us-east-1',
+  s3Bucket: process.env.S3_BUCKET || '',
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
 };
 
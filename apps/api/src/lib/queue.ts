@@ -0,0 +1,84 @@
+import { Queue, QueueEvents } from 'bullmq';
+import { Redis } from 'ioredis';
+import { config } from './config.js';
+
+export const QUEUE_NAME = 'background-jobs';
+
+// Data each job type carries
+export interface JobPayloads {
+  'sync-due': Record<string, never>;
+  'channel-sync': { channelMappingId: string };
+  'turnover-tasks': { organizationId?: string };
+  'payout-import': {
+    organizationId: string;
+    propertyId: string;
+    csvContent: string;
+    channel?: 'airbnb' | 'vrbo';
+  };
+  'sync-log-prune': Record<string, never>;
+  'reservation-complete': Record<string, never>;
+  'task-schedules': Record<string, never>;
+  'task-overdue': Record<string, never>;
+  'booking-request-expire': Record<string, never>;
+}
+
+export type JobName = keyof JobPayloads;
+
+/**
+ * Open a Redis connection for BullMQ. Workers block on Redis, so
+ * commands must never time out on retries.
+ */
+export function createRedisConnection() {
+  return new Redis(config.redisUrl, { maxRetriesPerRequest: null });
+}
+
+export const jobQueue = new Queue<JobPayloads[JobName], unknown, JobName>(QUEUE_NAME, {
+  connection: createRedisConnection(),
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 30 * 1000 },
+    removeOnComplete: { age: 24 * 60 * 60, count: 1000 },
+    removeOnFail: { age: 7 * 24 * 60 * 60 },
+  },
+});
+
+let queueEvents: QueueEvents | null = null;
+
+// Only processes that wait on job results need to listen for events
+function getQueueEvents() {
+  if (!queueEvents) {
+    queueEvents = new QueueEvents(QUEUE_NAME, { connection: createRedisConnection() });
+  }
+  return queueEvents;
+}
+
+/**
+ * Queue a sync for a channel mapping. The job id is the dedup key, so a
+ * mapping that is already queued or syncing is not queued twice.
+ */
+export function enqueueChannelSync(channelMappingId: string) {
+  return jobQueue.add(
+    'channel-sync',
+    { channelMappingId },
+    {
+      jobId: `channel-sync-${channelMappingId}`,
+      // Free the dedup key as soon as the sync settles
+      removeOnComplete: true,
+      removeOnFail: true,
+    }
+  );
+}
+
+/**
+ * Wait for the worker to finish a queued job and return its result
+ */
+export async function waitForJob<T>(
+  job: Awaited<ReturnType<typeof jobQueue.add>>,
+  timeoutMs = 2 * 60 * 1000
+): Promise<T> {
+  return (await job.waitUntilFinished(getQueueEvents(), timeoutMs)) as T;
+}
+
+export async function closeQueue() {
+  await Promise.all([jobQueue.close(), queueEvents?.close()]);
+}
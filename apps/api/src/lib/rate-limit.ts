@@ -0,0 +1,51 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { Redis } from 'ioredis';
+import { config } from './config.js';
+import { error } from './response.js';
+
+let redis: Redis | null = null;
+
+// Unlike the queue connections, requests must not wait on Redis retries
+function getRedis() {
+  if (!redis) {
+    redis = new Redis(config.redisUrl, { maxRetriesPerRequest: 1, enableOfflineQueue: false });
+  }
+  return redis;
+}
+
+/**
+ * Build a preHandler that allows `max` requests per client IP in each fixed
+ * window. Counts are kept in Redis so every API instance shares them.
+ * If Redis can't be reached, requests are let through.
+ */
+export function rateLimit(options: { name: string; max: number; windowSeconds: number }) {
+  return async function (request: FastifyRequest, reply: FastifyReply) {
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    const window = Math.floor(nowSeconds / options.windowSeconds);
+    const key = `rate-limit:${options.name}:${request.ip}:${window}`;
+
+    let count: number;
+    try {
+      const client = getRedis();
+      count = await client.incr(key);
+      if (count === 1) {
+        await client.expire(key, options.windowSeconds);
+      }
+    } catch (err) {
+      request.log.warn({ err }, 'Rate limit check failed');
+      return;
+    }
+
+    reply.header('X-RateLimit-Limit', options.max);
+    reply.header('X-RateLimit-Remaining', Math.max(0, options.max - count));
+
+    if (count > options.max) {
+      reply.header('Retry-After', (window + 1) * options.windowSeconds - nowSeconds);
+      error(reply, 'RATE_LIMITED', 'Too many requests, please try again later', 429);
+    }
+  };
+}
+
+export async function closeRateLimit() {
+  await redis?.quit();
+}
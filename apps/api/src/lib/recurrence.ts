@@ -0,0 +1,192 @@
+// A subset of iCalendar RRULE (RFC 5545) for maintenance schedules, e.g.
+// "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1". Occurrences are calendar dates,
+// as UTC-midnight Dates like the rest of the stay and schedule dates.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Safety limit on how many periods are walked looking for occurrences
+const MAX_PERIODS = 10000;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface Recurrence {
+  freq: Frequency;
+  interval: number;
+  // Weekdays, 0 = Sunday (WEEKLY only)
+  byDay: number[];
+  // Days of the month; negative counts back from the end (-1 = last day)
+  byMonthDay: number[];
+  // Months, 1-12 (YEARLY only)
+  byMonth: number[];
+  count: number | null;
+  until: Date | null;
+}
+
+function parseNumberList(value: string, min: number, max: number, part: string): number[] {
+  return value.split(',').map((item) => {
+    const n = Number(item);
+    if (!Number.isInteger(n) || n < min || n > max || n === 0) {
+      throw new Error(`Invalid recurrence: bad ${part} value "${item}"`);
+    }
+    return n;
+  });
+}
+
+/**
+ * Parse an RRULE string. Supports FREQ, INTERVAL, BYDAY (weekly),
+ * BYMONTHDAY, BYMONTH, COUNT and UNTIL; anything else is rejected.
+ */
+export function parseRecurrence(rule: string): Recurrence {
+  const recurrence: Recurrence = {
+    freq: 'DAILY',
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    byMonth: [],
+    count: null,
+    until: null,
+  };
+  let hasFreq = false;
+
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, value] = part.split('=');
+    if (!value) {
+      throw new Error(`Invalid recurrence: "${part}"`);
+    }
+
+    switch (key.toUpperCase()) {
+      case 'FREQ': {
+        const freq = value.toUpperCase();
+        if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+          throw new Error(`Invalid recurrence: unsupported frequency "${value}"`);
+        }
+        recurrence.freq = freq;
+        hasFreq = true;
+        break;
+      }
+      case 'INTERVAL':
+        [recurrence.interval] = parseNumberList(value, 1, 1000, 'INTERVAL');
+        break;
+      case 'BYDAY':
+        recurrence.byDay = value.split(',').map((code) => {
+          const day = WEEKDAY_CODES.indexOf(code.toUpperCase());
+          if (day === -1) {
+            throw new Error(`Invalid recurrence: bad BYDAY value "${code}"`);
+          }
+          return day;
+        });
+        break;
+      case 'BYMONTHDAY':
+        recurrence.byMonthDay = parseNumberList(value, -31, 31, 'BYMONTHDAY');
+        break;
+      case 'BYMONTH':
+        recurrence.byMonth = parseNumberList(value, 1, 12, 'BYMONTH');
+        break;
+      case 'COUNT':
+        [recurrence.count] = parseNumberList(value, 1, 10000, 'COUNT');
+        break;
+      case 'UNTIL': {
+        const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+        if (!match) {
+          throw new Error(`Invalid recurrence: bad UNTIL value "${value}"`);
+        }
+        recurrence.until = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+        break;
+      }
+      default:
+        throw new Error(`Invalid recurrence: unsupported part "${key}"`);
+    }
+  }
+
+  if (!hasFreq) {
+    throw new Error('Invalid recurrence: FREQ is required');
+  }
+  if (recurrence.byDay.length > 0 && recurrence.freq !== 'WEEKLY') {
+    throw new Error('Invalid recurrence: BYDAY is only supported with FREQ=WEEKLY');
+  }
+  if (recurrence.byMonth.length > 0 && recurrence.freq !== 'YEARLY') {
+    throw new Error('Invalid recurrence: BYMONTH is only supported with FREQ=YEARLY');
+  }
+  if (recurrence.byMonthDay.length > 0 && (recurrence.freq === 'DAILY' || recurrence.freq === 'WEEKLY')) {
+    throw new Error('Invalid recurrence: BYMONTHDAY needs FREQ=MONTHLY or FREQ=YEARLY');
+  }
+
+  return recurrence;
+}
+
+// Dates for the given days of a month, skipping days the month doesn't have
+function monthDays(year: number, month: number, days: number[]): Date[] {
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return days
+    .map((day) => (day > 0 ? day : length + day + 1))
+    .filter((day) => day >= 1 && day <= length)
+    .sort((a, b) => a - b)
+    .map((day) => new Date(Date.UTC(year, month, day)));
+}
+
+// Candidate dates in the nth period after the start, in order
+function periodDates(recurrence: Recurrence, start: Date, period: number): Date[] {
+  const step = period * recurrence.interval;
+
+  switch (recurrence.freq) {
+    case 'DAILY':
+      return [new Date(start.getTime() + step * DAY_MS)];
+    case 'WEEKLY': {
+      // Weeks start on Monday, as RRULE's default WKST
+      const weekStart = start.getTime() - ((start.getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+      const days = recurrence.byDay.length > 0 ? recurrence.byDay : [start.getUTCDay()];
+      return days
+        .map((day) => (day + 6) % 7)
+        .sort((a, b) => a - b)
+        .map((offset) => new Date(weekStart + offset * DAY_MS));
+    }
+    case 'MONTHLY': {
+      const month = start.getUTCMonth() + step;
+      const days = recurrence.byMonthDay.length > 0 ? recurrence.byMonthDay : [start.getUTCDate()];
+      return monthDays(start.getUTCFullYear() + Math.floor(month / 12), month % 12, days);
+    }
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + step;
+      const months = recurrence.byMonth.length > 0 ? recurrence.byMonth : [start.getUTCMonth() + 1];
+      const days = recurrence.byMonthDay.length > 0 ? recurrence.byMonthDay : [start.getUTCDate()];
+      return [...months].sort((a, b) => a - b).flatMap((month) => monthDays(year, month - 1, days));
+    }
+  }
+}
+
+/**
+ * Occurrence dates between `from` and `to` (inclusive) for a rule starting on
+ * `start`. COUNT is counted from the start, not from `from`.
+ */
+export function getOccurrences(recurrence: Recurrence, start: Date, from: Date, to: Date): Date[] {
+  const occurrences: Date[] = [];
+  const last = recurrence.until && recurrence.until < to ? recurrence.until : to;
+  let count = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const dates = periodDates(recurrence, start, period);
+
+    // Periods only move forward, so once one starts past the end we're done
+    if (dates.length > 0 && dates[0] > last) {
+      break;
+    }
+
+    for (const date of dates) {
+      if (date < start || date > last) {
+        continue;
+      }
+      count++;
+      if (recurrence.count !== null && count > recurrence.count) {
+        return occurrences;
+      }
+      if (date >= from) {
+        occurrences.push(date);
+      }
+    }
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,249 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import { config } from './config.js';
+
+// How long links handed out to clients stay valid
+const URL_EXPIRY_SECONDS = 60 * 60;
+
+/**
+ * Where uploaded files live. Keys are slash-separated paths such as
+ * "tasks/<taskId>/<photoId>.jpg"; callers only ever store keys, never URLs.
+ */
+export interface FileStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  // A time-limited link to the file. Relative links are served by the API.
+  getUrl(key: string): string;
+}
+
+/**
+ * Files on the API server's disk, served from /api/files with a signed,
+ * expiring link so <img> tags work without an auth header
+ */
+export class LocalDiskStorage implements FileStorage {
+  private root: string;
+
+  constructor(root: string, private secret: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, body: Buffer) {
+    const path = this.resolve(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  async read(key: string) {
+    return readFile(this.resolve(key));
+  }
+
+  getUrl(key: string) {
+    const expires = Math.floor(Date.now() / 1000) + URL_EXPIRY_SECONDS;
+    return `/files/${key}?expires=${expires}&signature=${this.sign(key, expires)}`;
+  }
+
+  /**
+   * Check a link from getUrl is genuine and hasn't expired
+   */
+  verify(key: string, expires: number, signature: string) {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires));
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  private sign(key: string, expires: number) {
+    return createHmac('sha256', this.secret).update(`${key}:${expires}`).digest('hex');
+  }
+
+  private resolve(key: string) {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error('Invalid file key');
+    }
+    return path;
+  }
+}
+
+interface S3Options {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// RFC 3986 encoding as S3 expects it; object keys keep their slashes
+function encodeS3(value: string, keepSlashes = false) {
+  const encoded = encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return keepSlashes ? encoded.replace(/%2F/g, '/') : encoded;
+}
+
+const sha256Hex = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+/**
+ * Sign a request with AWS Signature Version 4. Returns the signature and
+ * the credential scope; headers must include host and any x-amz-* headers.
+ */
+export function signS3Request(
+  options: Pick<S3Options, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  request: {
+    method: string;
+    path: string;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+    payloadHash: string;
+    amzDate: string;
+  }
+) {
+  const date = request.amzDate.slice(0, 8);
+  const scope = `${date}/${options.region}/s3/aws4_request`;
+
+  const query = Object.keys(request.query)
+    .sort()
+    .map((key) => `${encodeS3(key)}=${encodeS3(request.query[key])}`)
+    .join('&');
+  const headerNames = Object.keys(request.headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const headers = Object.fromEntries(
+    Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value.trim()])
+  );
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    query,
+    headerNames.map((name) => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', request.amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, date), options.region), 's3'),
+    'aws4_request'
+  );
+
+  return {
+    signature: hmac(signingKey, stringToSign).toString('hex'),
+    credential: `${options.accessKeyId}/${scope}`,
+    signedHeaders,
+  };
+}
+
+// 20240101T120000Z
+const toAmzDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Any S3-compatible bucket (AWS S3, Cloudflare R2, MinIO...), addressed
+ * path-style. Links are presigned GET URLs straight to the bucket.
+ */
+export class S3Storage implements FileStorage {
+  private url: URL;
+
+  constructor(private options: S3Options) {
+    this.url = new URL(options.endpoint);
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.send('PUT', key, body, { 'content-type': contentType });
+  }
+
+  async delete(key: string) {
+    await this.send('DELETE', key);
+  }
+
+  getUrl(key: string) {
+    const path = this.objectPath(key);
+    const amzDate = toAmzDate(new Date());
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.options.accessKeyId}/${amzDate.slice(0, 8)}/${this.options.region}/s3/aws4_request`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(URL_EXPIRY_SECONDS),
+      'X-Amz-SignedHeaders': 'host',
+    };
+
+    const { signature } = signS3Request(this.options, {
+      method: 'GET',
+      path,
+      query,
+      headers: { host: this.url.host },
+      payloadHash: 'UNSIGNED-PAYLOAD',
+      amzDate,
+    });
+
+    const search = new URLSearchParams({ ...query, 'X-Amz-Signature': signature });
+    return `${this.url.origin}${path}?${search}`;
+  }
+
+  private async send(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}) {
+    const path = this.objectPath(key);
+    const amzDate = toAmzDate(new Date());
+    const payloadHash = sha256Hex(body ?? '');
+    const headers: Record<string, string> = {
+      host: this.url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...extraHeaders,
+    };
+
+    const { signature, credential, signedHeaders } = signS3Request(this.options, {
+      method,
+      path,
+      query: {},
+      headers,
+      payloadHash,
+      amzDate,
+    });
+
+    const response = await fetch(`${this.url.origin}${path}`, {
+      method,
+      headers: {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Storage ${method} failed: HTTP ${response.status}`);
+    }
+  }
+
+  private objectPath(key: string) {
+    const base = this.url.pathname.replace(/\/$/, '');
+    return `${base}/${encodeS3(this.options.bucket)}/${encodeS3(key, true)}`;
+  }
+}
+
+function createStorage(): FileStorage {
+  if (config.storageDriver === 's3') {
+    return new S3Storage({
+      endpoint: config.s3Endpoint,
+      region: config.s3Region,
+      bucket: config.s3Bucket,
+      accessKeyId: config.s3AccessKeyId,
+      secretAccessKey: config.s3SecretAccessKey,
+    });
+  }
+
+  return new LocalDiskStorage(config.storageLocalDir, config.jwtSecret);
+}
+
+export const storage = createStorage();
@@ -0,0 +1,160 @@
+// Stay dates (check-in, check-out, block start/end) are stored as DATE columns,
+// which come back as UTC midnight. These helpers turn them into real instants
+// in a property's timezone, and turn "now" into the property's local calendar date.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Property fields needed to place a stay on the clock
+export interface PropertyClock {
+  timezone: string;
+  checkInTime: string;
+  checkOutTime: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a string is an IANA timezone this runtime knows about
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+function getZonedParts(instant: Date, timezone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant
+function getOffsetMs(instant: Date, timezone: string): number {
+  const p = getZonedParts(instant, timezone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The calendar date an instant falls on in a timezone, as a UTC-midnight Date
+ */
+export function toLocalDate(instant: Date, timezone: string): Date {
+  const p = getZonedParts(instant, timezone);
+  return new Date(Date.UTC(p.year, p.month - 1, p.day));
+}
+
+/**
+ * An instant as "YYYY-MM-DD HH:MM" on the wall clock of a timezone, for messages
+ */
+export function formatLocalDateTime(instant: Date, timezone: string): string {
+  const p = getZonedParts(instant, timezone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Today's calendar date in a timezone, as a UTC-midnight Date
+ */
+export function getLocalToday(timezone: string, now = new Date()): Date {
+  return toLocalDate(now, timezone);
+}
+
+/**
+ * Move a UTC-midnight calendar date by whole days
+ */
+export function addCalendarDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * First and last calendar dates of the month containing a date, as UTC-midnight Dates
+ */
+export function getMonthRange(date: Date): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)),
+  };
+}
+
+/**
+ * The instant a wall-clock time ("HH:MM") occurs on a calendar date in a timezone.
+ * Times skipped by a DST jump resolve to the same clock time after the jump.
+ */
+export function zonedTimeToUtc(date: Date, time: string, timezone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    hours,
+    minutes
+  );
+
+  // Guess with the offset at the wall-clock time, then correct once if that lands across a DST change
+  const firstGuess = wallClock - getOffsetMs(new Date(wallClock), timezone);
+  const offset = getOffsetMs(new Date(firstGuess), timezone);
+  const corrected = wallClock - offset;
+
+  // If the correction moves back across the change, the time doesn't exist that day
+  return new Date(getOffsetMs(new Date(corrected), timezone) === offset ? corrected : firstGuess);
+}
+
+/**
+ * When a guest arrives on a check-in date, using the property's default check-in time
+ */
+export function getCheckInAt(checkIn: Date, property: PropertyClock): Date {
+  return zonedTimeToUtc(new Date(checkIn), property.checkInTime, property.timezone);
+}
+
+/**
+ * When a guest leaves on a check-out date, using the property's default check-out time
+ */
+export function getCheckOutAt(checkOut: Date, property: PropertyClock): Date {
+  return zonedTimeToUtc(new Date(checkOut), property.checkOutTime, property.timezone);
+}
+
+/**
+ * Hours between a check-out and the next check-in at the same property
+ */
+export function getTurnoverGapHours(checkOut: Date, nextCheckIn: Date, property: PropertyClock): number {
+  return (
+    (getCheckInAt(nextCheckIn, property).getTime() - getCheckOutAt(checkOut, property).getTime()) /
+    HOUR_MS
+  );
+}
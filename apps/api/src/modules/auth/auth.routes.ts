@@ -2,7 +2,8 @@ import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { authService } from './auth.service.js';
 import { success, error } from '../../lib/response.js';
-import { loginSchema, registerSchema } from '@unifiedstay/shared';
+import { authenticate } from '../../lib/auth.js';
+import { acceptInviteSchema, loginSchema, registerSchema } from '@unifiedstay/shared';
 
 export const authRoutes: FastifyPluginAsync = async (fastify) => {
   // Register
@@ -43,18 +44,46 @@ export const authRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-  // Get current user
-  fastify.get('/me', {
-    preHandler: [async (request, reply) => {
-      try {
-        await request.jwtVerify();
-      } catch {
-        error(reply, 'UNAUTHORIZED', 'Invalid or expired token', 401);
+  // Look up an invite
+  fastify.get('/invites/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+
+    try {
+      const invite = await authService.getInvite(token);
+      success(reply, invite);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+        return;
+      }
+      throw err;
+    }
+  });
+
+  // Accept an invite, creating the account if needed
+  fastify.post('/invites/:token/accept', async (request, reply) => {
+    try {
+      const { token } = request.params as { token: string };
+      const body = acceptInviteSchema.parse(request.body);
+      const result = await authService.acceptInvite(token, body, fastify);
+      success(reply, result, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
       }
-    }],
-  }, async (request, reply) => {
+      if (err instanceof Error) {
+        error(reply, 'REGISTER_ERROR', err.message, 400);
+        return;
+      }
+      throw err;
+    }
+  });
+
+  // Get current user
+  fastify.get('/me', { preHandler: authenticate }, async (request, reply) => {
     try {
-      const user = await authService.getCurrentUser(request.user.id);
+      const user = await authService.getCurrentUser(request.user.id, request.user.organizationId);
       success(reply, { user });
     } catch (err) {
       if (err instanceof Error) {
@@ -1,7 +1,43 @@
 import { FastifyInstance } from 'fastify';
 import bcrypt from 'bcryptjs';
-import { db } from '@unifiedstay/database';
-import type { LoginInput, RegisterInput } from '@unifiedstay/shared';
+import { db, type OrganizationMember, type User } from '@unifiedstay/database';
+import type { AcceptInviteInput, LoginInput, RegisterInput } from '@unifiedstay/shared';
+import { organizationService } from '../organizations/organization.service.js';
+
+/**
+ * Sign a user in to one of their organizations. The token carries the
+ * organization and role; each request re-checks the role against the
+ * membership.
+ */
+function createSession(
+  fastify: FastifyInstance,
+  user: Pick<User, 'id' | 'email' | 'name'>,
+  membership: Pick<OrganizationMember, 'role'> & { organization: { id: string; name: string } }
+) {
+  const accessToken = fastify.jwt.sign({
+    id: user.id,
+    email: user.email,
+    organizationId: membership.organization.id,
+    role: membership.role,
+  });
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: membership.role,
+      organization: membership.organization,
+    },
+    accessToken,
+  };
+}
+
+const withOrganization = {
+  organization: {
+    select: { id: true, name: true },
+  },
+};
 
 class AuthService {
   async register(input: RegisterInput, fastify: FastifyInstance) {
@@ -17,33 +53,37 @@ class AuthService {
     // Hash password
     const passwordHash = await bcrypt.hash(input.password, 12);
 
-    // Create user
+    // Create user along with the organization they'll own
     const user = await db.user.create({
       data: {
         email: input.email,
         passwordHash,
         name: input.name,
+        memberships: {
+          create: {
+            role: 'owner',
+            organization: {
+              create: { name: input.organizationName ?? `${input.name}'s Properties` },
+            },
+          },
+        },
       },
-      select: {
-        id: true,
-        email: true,
-        name: true,
+      include: {
+        memberships: { include: withOrganization },
       },
     });
 
-    // Generate token
-    const accessToken = fastify.jwt.sign({ id: user.id, email: user.email });
-
-    return {
-      user,
-      accessToken,
-    };
+    return createSession(fastify, user, user.memberships[0]);
   }
 
   async login(input: LoginInput, fastify: FastifyInstance) {
     // Find user
     const user = await db.user.findUnique({
       where: { email: input.email },
+      include: {
+        // Sign in to the first organization joined; the client can switch
+        memberships: { include: withOrganization, orderBy: { createdAt: 'asc' }, take: 1 },
+      },
     });
 
     if (!user) {
@@ -57,20 +97,96 @@ class AuthService {
       throw new Error('Invalid email or password');
     }
 
-    // Generate token
-    const accessToken = fastify.jwt.sign({ id: user.id, email: user.email });
+    if (user.memberships.length === 0) {
+      throw new Error('Your account is not part of any organization');
+    }
+
+    return createSession(fastify, user, user.memberships[0]);
+  }
+
+  /**
+   * Sign in to another organization the user belongs to
+   */
+  async switchOrganization(userId: string, organizationId: string, fastify: FastifyInstance) {
+    const membership = await organizationService.getMembership(userId, organizationId);
+
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: userId },
+    });
+
+    return createSession(fastify, user, membership);
+  }
+
+  /**
+   * What the invite page shows before someone joins
+   */
+  async getInvite(token: string) {
+    const invite = await organizationService.findOpenInvite(token);
+
+    const existingUser = await db.user.findUnique({
+      where: { email: invite.email },
+      select: { id: true },
+    });
 
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-      },
-      accessToken,
+      email: invite.email,
+      name: invite.name,
+      role: invite.role,
+      organizationName: invite.organization.name,
+      expiresAt: invite.expiresAt,
+      // People with an account join with their password instead of signing up
+      hasAccount: !!existingUser,
     };
   }
 
-  async getCurrentUser(userId: string) {
+  /**
+   * Join the invite's organization, creating an account if the email has
+   * none, and sign in to it
+   */
+  async acceptInvite(token: string, input: AcceptInviteInput, fastify: FastifyInstance) {
+    const invite = await organizationService.findOpenInvite(token);
+
+    let user = await db.user.findUnique({
+      where: { email: invite.email },
+    });
+
+    if (user) {
+      const isValidPassword = await bcrypt.compare(input.password, user.passwordHash);
+
+      if (!isValidPassword) {
+        throw new Error('Invalid password');
+      }
+    } else {
+      if (!input.name) {
+        throw new Error('Name is required');
+      }
+
+      user = await db.user.create({
+        data: {
+          email: invite.email,
+          passwordHash: await bcrypt.hash(input.password, 12),
+          name: input.name,
+        },
+      });
+    }
+
+    const [membership] = await db.$transaction([
+      db.organizationMember.upsert({
+        where: { organizationId_userId: { organizationId: invite.organizationId, userId: user.id } },
+        create: { organizationId: invite.organizationId, userId: user.id, role: invite.role },
+        update: {},
+        include: withOrganization,
+      }),
+      db.organizationInvite.update({
+        where: { id: invite.id },
+        data: { acceptedAt: new Date() },
+      }),
+    ]);
+
+    return createSession(fastify, user, membership);
+  }
+
+  async getCurrentUser(userId: string, organizationId: string) {
     const user = await db.user.findUnique({
       where: { id: userId },
       select: {
@@ -85,7 +201,9 @@ class AuthService {
       throw new Error('User not found');
     }
 
-    return user;
+    const membership = await organizationService.getMembership(userId, organizationId);
+
+    return { ...user, role: membership.role, organization: membership.organization };
   }
 }
 
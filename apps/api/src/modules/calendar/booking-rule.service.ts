@@ -0,0 +1,375 @@
+import { db, type BookingRule } from '@unifiedstay/database';
+import type { CreateBookingRuleInput, UpdateBookingRuleInput } from '@unifiedstay/shared';
+import { getLocalToday } from '../../lib/timezone.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// The limits in force for one stay, after layering every rule that applies to it
+export interface EffectiveRules {
+  minNights: number;
+  maxNights: number | null;
+  minNoticeDays: number;
+  allowSameDayTurnover: boolean;
+  checkInDays: number[];
+  // Name of the rule each limit came from, for messages
+  sources: Partial<Record<RuleField, string>>;
+}
+
+type RuleField = 'minNights' | 'maxNights' | 'minNoticeDays' | 'allowSameDayTurnover' | 'checkInDays';
+
+interface Stay {
+  id?: string;
+  checkIn: Date;
+  checkOut: Date;
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function formatDay(date: Date) {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Dated rules beat undated ones, and unit rules beat property rules
+function specificity(rule: BookingRule) {
+  return (rule.startDate ? 2 : 0) + (rule.unitId ? 1 : 0);
+}
+
+/**
+ * Work out the limits for a stay in a unit starting on a date. Rules are
+ * applied from least to most specific, and each one only overrides the
+ * limits it sets. Without any rules, the property's default minimum stay applies.
+ */
+export function resolveBookingRules(
+  rules: BookingRule[],
+  defaultMinNights: number,
+  unitId: string,
+  checkIn: Date
+): EffectiveRules {
+  const effective: EffectiveRules = {
+    minNights: defaultMinNights,
+    maxNights: null,
+    minNoticeDays: 0,
+    allowSameDayTurnover: true,
+    checkInDays: [],
+    sources: {},
+  };
+
+  const applicable = rules
+    .filter(
+      (rule) =>
+        (!rule.unitId || rule.unitId === unitId) &&
+        (!rule.startDate || (!!rule.endDate && checkIn >= rule.startDate && checkIn <= rule.endDate))
+    )
+    .sort((a, b) => specificity(a) - specificity(b));
+
+  for (const rule of applicable) {
+    const apply = <K extends RuleField>(field: K, value: EffectiveRules[K] | null) => {
+      if (value === null) {
+        return;
+      }
+      effective[field] = value;
+      if (rule.name) {
+        effective.sources[field] = rule.name;
+      } else {
+        delete effective.sources[field];
+      }
+    };
+
+    apply('minNights', rule.minNights);
+    apply('maxNights', rule.maxNights);
+    apply('minNoticeDays', rule.minNoticeDays);
+    apply('allowSameDayTurnover', rule.allowSameDayTurnover);
+    apply('checkInDays', rule.checkInDays.length > 0 ? rule.checkInDays : null);
+  }
+
+  return effective;
+}
+
+/**
+ * List the rules a stay breaks. Neighbours are the unit's other active stays.
+ * Advance notice is only checked when the booking date is known.
+ */
+export function checkStay(
+  stay: Stay,
+  rules: EffectiveRules,
+  context: { bookedOn: Date | null; neighbours: Stay[] }
+): string[] {
+  const violations: string[] = [];
+  const push = (field: RuleField, message: string) => {
+    const source = rules.sources[field];
+    violations.push(source ? `${message} (${source})` : message);
+  };
+
+  const nights = Math.round((stay.checkOut.getTime() - stay.checkIn.getTime()) / DAY_MS);
+
+  if (nights < rules.minNights) {
+    push('minNights', `Minimum stay is ${plural(rules.minNights, 'night')}`);
+  }
+
+  if (rules.maxNights !== null && nights > rules.maxNights) {
+    push('maxNights', `Maximum stay is ${plural(rules.maxNights, 'night')}`);
+  }
+
+  if (context.bookedOn) {
+    const noticeDays = Math.round((stay.checkIn.getTime() - context.bookedOn.getTime()) / DAY_MS);
+    if (noticeDays < rules.minNoticeDays) {
+      const notice = rules.minNoticeDays === 1 ? "1 day's" : `${rules.minNoticeDays} days'`;
+      push('minNoticeDays', `Bookings need at least ${notice} notice`);
+    }
+  }
+
+  if (rules.checkInDays.length > 0 && !rules.checkInDays.includes(stay.checkIn.getUTCDay())) {
+    const days = [...rules.checkInDays].sort().map((d) => WEEKDAYS[d]);
+    push(
+      'checkInDays',
+      `Check-in must be on a ${days.length > 1 ? `${days.slice(0, -1).join(', ')} or ${days[days.length - 1]}` : days[0]}`
+    );
+  }
+
+  if (!rules.allowSameDayTurnover) {
+    for (const other of context.neighbours) {
+      if (other.id && other.id === stay.id) {
+        continue;
+      }
+      if (other.checkOut.getTime() === stay.checkIn.getTime()) {
+        push(
+          'allowSameDayTurnover',
+          `Same-day turnover isn't allowed: the previous guest checks out on ${formatDay(stay.checkIn)}`
+        );
+      }
+      if (other.checkIn.getTime() === stay.checkOut.getTime()) {
+        push(
+          'allowSameDayTurnover',
+          `Same-day turnover isn't allowed: the next guest checks in on ${formatDay(stay.checkOut)}`
+        );
+      }
+    }
+  }
+
+  return violations;
+}
+
+class BookingRuleService {
+  async list(propertyId: string, organizationId: string) {
+    await this.findProperty(propertyId, organizationId);
+
+    return db.bookingRule.findMany({
+      where: { propertyId },
+      include: {
+        unit: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: [{ startDate: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+    });
+  }
+
+  async create(propertyId: string, organizationId: string, input: CreateBookingRuleInput) {
+    const property = await this.findProperty(propertyId, organizationId);
+    this.validate(input, property.units);
+
+    const rule = await db.bookingRule.create({
+      data: {
+        propertyId,
+        unitId: input.unitId,
+        name: input.name,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        minNights: input.minNights,
+        maxNights: input.maxNights,
+        minNoticeDays: input.minNoticeDays,
+        allowSameDayTurnover: input.allowSameDayTurnover,
+        checkInDays: input.checkInDays,
+      },
+    });
+
+    await this.flagUnits(property.units.map((u) => u.id));
+
+    return rule;
+  }
+
+  async update(
+    propertyId: string,
+    organizationId: string,
+    ruleId: string,
+    input: UpdateBookingRuleInput
+  ) {
+    const property = await this.findProperty(propertyId, organizationId);
+    const existing = await db.bookingRule.findFirst({
+      where: { id: ruleId, propertyId },
+    });
+
+    if (!existing) {
+      throw new Error('Booking rule not found');
+    }
+
+    this.validate({ ...existing, ...input }, property.units);
+
+    const rule = await db.bookingRule.update({
+      where: { id: ruleId },
+      data: {
+        unitId: input.unitId,
+        name: input.name,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        minNights: input.minNights,
+        maxNights: input.maxNights,
+        minNoticeDays: input.minNoticeDays,
+        allowSameDayTurnover: input.allowSameDayTurnover,
+        checkInDays: input.checkInDays,
+      },
+    });
+
+    await this.flagUnits(property.units.map((u) => u.id));
+
+    return rule;
+  }
+
+  async delete(propertyId: string, organizationId: string, ruleId: string) {
+    const property = await this.findProperty(propertyId, organizationId);
+    const existing = await db.bookingRule.findFirst({
+      where: { id: ruleId, propertyId },
+    });
+
+    if (!existing) {
+      throw new Error('Booking rule not found');
+    }
+
+    await db.bookingRule.delete({
+      where: { id: ruleId },
+    });
+
+    await this.flagUnits(property.units.map((u) => u.id));
+  }
+
+  /**
+   * List the rules a new or moved stay in a unit would break, as of today
+   */
+  async check(unitId: string, stay: Stay): Promise<string[]> {
+    const unit = await db.unit.findUniqueOrThrow({
+      where: { id: unitId },
+      include: { property: { include: { bookingRules: true } } },
+    });
+
+    const neighbours = await db.reservation.findMany({
+      where: {
+        unitId,
+        status: { in: ['confirmed', 'pending'] },
+        ...(stay.id ? { id: { not: stay.id } } : {}),
+        OR: [{ checkOut: stay.checkIn }, { checkIn: stay.checkOut }],
+      },
+      select: { id: true, checkIn: true, checkOut: true },
+    });
+
+    const rules = resolveBookingRules(
+      unit.property.bookingRules,
+      unit.property.defaultMinNights,
+      unitId,
+      stay.checkIn
+    );
+
+    return checkStay(stay, rules, {
+      bookedOn: getLocalToday(unit.property.timezone),
+      neighbours,
+    });
+  }
+
+  /**
+   * Re-check the current and upcoming reservations in units and store what
+   * each one breaks. Channel feeds don't say when a stay was booked, so
+   * advance notice isn't checked here.
+   */
+  async flagUnits(unitIds: string[]) {
+    if (unitIds.length === 0) {
+      return;
+    }
+
+    const units = await db.unit.findMany({
+      where: { id: { in: unitIds } },
+      include: { property: { include: { bookingRules: true } } },
+    });
+
+    for (const unit of units) {
+      const reservations = await db.reservation.findMany({
+        where: {
+          unitId: unit.id,
+          checkOut: { gte: getLocalToday(unit.property.timezone) },
+          // Include stays that are no longer active so their old flags get cleared
+          OR: [{ status: { in: ['confirmed', 'pending'] } }, { ruleViolations: { isEmpty: false } }],
+        },
+        select: { id: true, checkIn: true, checkOut: true, status: true, ruleViolations: true },
+      });
+
+      const active = reservations.filter((r) => r.status === 'confirmed' || r.status === 'pending');
+
+      for (const reservation of reservations) {
+        const violations =
+          reservation.status === 'confirmed' || reservation.status === 'pending'
+            ? checkStay(
+                reservation,
+                resolveBookingRules(
+                  unit.property.bookingRules,
+                  unit.property.defaultMinNights,
+                  unit.id,
+                  reservation.checkIn
+                ),
+                { bookedOn: null, neighbours: active }
+              )
+            : [];
+
+        if (violations.join('\n') !== reservation.ruleViolations.join('\n')) {
+          await db.reservation.update({
+            where: { id: reservation.id },
+            data: { ruleViolations: violations },
+          });
+        }
+      }
+    }
+  }
+
+  private async findProperty(propertyId: string, organizationId: string) {
+    const property = await db.property.findFirst({
+      where: { id: propertyId, organizationId },
+      include: { units: { select: { id: true } } },
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    return property;
+  }
+
+  private validate(
+    rule: {
+      unitId?: string | null;
+      startDate?: Date | null;
+      endDate?: Date | null;
+      minNights?: number | null;
+      maxNights?: number | null;
+    },
+    units: { id: string }[]
+  ) {
+    if (rule.unitId && !units.some((u) => u.id === rule.unitId)) {
+      throw new Error('Unit not found');
+    }
+
+    if (!rule.startDate !== !rule.endDate) {
+      throw new Error('Give both a start and end date, or neither');
+    }
+
+    if (rule.startDate && rule.endDate && rule.startDate > rule.endDate) {
+      throw new Error('End date must be on or after the start date');
+    }
+
+    if (rule.minNights && rule.maxNights && rule.minNights > rule.maxNights) {
+      throw new Error('Minimum nights cannot be more than maximum nights');
+    }
+  }
+}
+
+export const bookingRuleService = new BookingRuleService();
@@ -1,25 +1,38 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
-import { authenticate, getCurrentUserId } from '../../lib/auth.js';
+import { authenticate, getOrganizationId, requireRole } from '../../lib/auth.js';
 import { success, error } from '../../lib/response.js';
 import { calendarService } from './calendar.service.js';
+import { conflictService } from './conflict.service.js';
+import { quoteService } from './quote.service.js';
 import { syncScheduler } from '../../services/sync-scheduler.js';
-import { createReservationSchema, createBlockSchema, dateRangeSchema } from '@unifiedstay/shared';
+import {
+  createReservationSchema,
+  updateReservationSchema,
+  createBlockSchema,
+  dateRangeSchema,
+  conflictQuerySchema,
+  updateConflictSchema,
+  resolveConflictSchema,
+  quoteRequestSchema,
+} from '@unifiedstay/shared';
 
 export const calendarRoutes: FastifyPluginAsync = async (fastify) => {
   // Apply auth to all routes
   fastify.addHook('preHandler', authenticate);
+  // Cleaners and maintenance staff only work through their tasks
+  fastify.addHook('preHandler', requireRole('owner', 'co_host'));
 
   // Get calendar events for date range
   fastify.get('/events', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const query = request.query as { start?: string; end?: string; propertyId?: string };
 
       const startDate = query.start ? new Date(query.start) : new Date();
       const endDate = query.end ? new Date(query.end) : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
-      const events = await calendarService.getEvents(userId, {
+      const events = await calendarService.getEvents(organizationId, {
         start: startDate,
         end: endDate,
         propertyId: query.propertyId,
@@ -35,18 +48,18 @@ export const calendarRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get reservations
   fastify.get('/reservations', async (request, reply) => {
-    const userId = getCurrentUserId(request);
-    const query = request.query as { propertyId?: string; status?: string };
-    const reservations = await calendarService.getReservations(userId, query);
+    const organizationId = getOrganizationId(request);
+    const query = request.query as { propertyId?: string; status?: string; search?: string };
+    const reservations = await calendarService.getReservations(organizationId, query);
     success(reply, reservations);
   });
 
   // Create manual reservation
   fastify.post('/reservations', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const body = createReservationSchema.parse(request.body);
-      const reservation = await calendarService.createReservation(userId, body);
+      const reservation = await calendarService.createReservation(organizationId, body);
       success(reply, reservation, 201);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -59,12 +72,49 @@ export const calendarRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Price a stay in a unit
+  fastify.post('/quote', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const body = quoteRequestSchema.parse(request.body);
+      const quote = await quoteService.getQuote(organizationId, body);
+      success(reply, quote);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'QUOTE_ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Edit, cancel or complete a reservation
+  fastify.patch('/reservations/:id', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const body = updateReservationSchema.parse(request.body);
+      const reservation = await calendarService.updateReservation(organizationId, id, body);
+      success(reply, reservation);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'RESERVATION_ERROR', err.message, 400);
+      }
+    }
+  });
+
   // Create availability block
   fastify.post('/blocks', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const body = createBlockSchema.parse(request.body);
-      const block = await calendarService.createBlock(userId, body);
+      const block = await calendarService.createBlock(organizationId, body);
       success(reply, block, 201);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -80,9 +130,9 @@ export const calendarRoutes: FastifyPluginAsync = async (fastify) => {
   // Delete block
   fastify.delete('/blocks/:id', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const { id } = request.params as { id: string };
-      await calendarService.deleteBlock(userId, id);
+      await calendarService.deleteBlock(organizationId, id);
       success(reply, { message: 'Block deleted successfully' });
     } catch (err) {
       if (err instanceof Error) {
@@ -94,9 +144,9 @@ export const calendarRoutes: FastifyPluginAsync = async (fastify) => {
   // Trigger sync for a channel
   fastify.post('/sync/:channelMappingId', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const { channelMappingId } = request.params as { channelMappingId: string };
-      const result = await calendarService.syncChannel(userId, channelMappingId);
+      const result = await calendarService.syncChannel(organizationId, channelMappingId);
       success(reply, result);
     } catch (err) {
       if (err instanceof Error) {
@@ -105,24 +155,70 @@ export const calendarRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-  // Get conflicts
+  // Get conflicts (unresolved unless a status is given)
   fastify.get('/conflicts', async (request, reply) => {
-    const userId = getCurrentUserId(request);
-    const query = request.query as { propertyId?: string };
-    const conflicts = await calendarService.getConflicts(userId, query.propertyId);
-    success(reply, conflicts);
+    try {
+      const organizationId = getOrganizationId(request);
+      const query = conflictQuerySchema.parse(request.query);
+      const conflicts = await conflictService.list(organizationId, query);
+      success(reply, conflicts);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+      }
+    }
+  });
+
+  // Acknowledge or reopen a conflict
+  fastify.patch('/conflicts/:id', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const input = updateConflictSchema.parse(request.body);
+      const conflict = await conflictService.updateStatus(organizationId, id, input);
+      success(reply, conflict);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'CONFLICT_ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Resolve a conflict
+  fastify.post('/conflicts/:id/resolve', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const input = resolveConflictSchema.parse(request.body);
+      const conflict = await conflictService.resolve(organizationId, id, input);
+      success(reply, conflict);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'CONFLICT_ERROR', err.message, 400);
+      }
+    }
   });
 
   // Get sync status (auto-sync info)
   fastify.get('/sync/status', async (request, reply) => {
-    const status = syncScheduler.getStatus();
+    const organizationId = getOrganizationId(request);
+    const status = await syncScheduler.getStatus(organizationId);
     success(reply, status);
   });
 
   // Trigger sync for all channels (manual)
   fastify.post('/sync/all', async (request, reply) => {
     try {
-      const results = await syncScheduler.runSync();
+      const organizationId = getOrganizationId(request);
+      const results = await syncScheduler.runSync(organizationId);
       success(reply, {
         message: 'Sync completed',
         results,
@@ -1,22 +1,87 @@
-import { db } from '@unifiedstay/database';
+import { db, ChannelType, Prisma, ReservationStatus } from '@unifiedstay/database';
 import type {
   CreateReservationInput,
+  UpdateReservationInput,
   CreateBlockInput,
   CalendarEvent,
-  ConflictInfo,
+  ConflictSeverity,
   DateRange,
 } from '@unifiedstay/shared';
-import { iCalAdapter } from '../../adapters/ical.adapter.js';
+import { iCalAdapter, type ICalExportEvent } from '../../adapters/ical.adapter.js';
+import type { SyncResult } from '../../services/sync-scheduler.js';
+import { enqueueChannelSync, waitForJob } from '../../lib/queue.js';
+import { getLocalToday } from '../../lib/timezone.js';
+import { conflictService, detectConflicts } from './conflict.service.js';
+import { bookingRuleService } from './booking-rule.service.js';
+import { quoteService } from './quote.service.js';
+import { guestService } from '../guests/guest.service.js';
+import { taskService } from '../tasks/task.service.js';
+
+// Status changes an owner can make by hand
+const reservationTransitions: Record<ReservationStatus, ReservationStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['cancelled', 'completed'],
+  cancelled: ['confirmed'],
+  completed: [],
+};
+
+// Cancel every pending task linked to a cancelled stay, recording why in each task's history
+async function cancelLinkedTasks(
+  tx: Prisma.TransactionClient,
+  reservation: { id: string; guestName: string },
+  cause: string
+) {
+  const tasks = await tx.task.findMany({
+    where: { reservationId: reservation.id, status: 'pending' },
+    select: { id: true },
+  });
+
+  if (tasks.length === 0) {
+    return;
+  }
+
+  await tx.task.updateMany({
+    where: { id: { in: tasks.map((task) => task.id) } },
+    data: { status: 'cancelled' },
+  });
+  await tx.taskEvent.createMany({
+    data: tasks.map((task) => ({
+      taskId: task.id,
+      type: 'cancelled' as const,
+      reason: `${reservation.guestName}'s stay was cancelled (${cause})`,
+    })),
+  });
+}
+
+// Refuse dates overlapping one of the unit's active reservations
+async function assertUnitFree(
+  client: Prisma.TransactionClient,
+  unitId: string,
+  stay: { checkIn: Date; checkOut: Date }
+) {
+  const overlapping = await client.reservation.count({
+    where: {
+      unitId,
+      status: { in: ['confirmed', 'pending'] },
+      checkIn: { lt: stay.checkOut },
+      checkOut: { gt: stay.checkIn },
+    },
+  });
+
+  if (overlapping > 0) {
+    throw new Error('Dates conflict with existing reservation');
+  }
+}
 
 class CalendarService {
   async getEvents(
-    userId: string,
+    organizationId: string,
     options: { start: Date; end: Date; propertyId?: string }
   ): Promise<CalendarEvent[]> {
     // Get user's properties
     const properties = await db.property.findMany({
       where: {
-        userId,
+        organizationId,
         ...(options.propertyId ? { id: options.propertyId } : {}),
       },
       include: {
@@ -30,6 +95,36 @@ class CalendarService {
       return [];
     }
 
+    const events = await this.getUnitEvents(unitIds, options);
+
+    // Detect conflicts, skipping the ones the owner has already resolved
+    const conflicts = await conflictService.withoutResolved(
+      unitIds,
+      detectConflicts(events, new Map(properties.map((p) => [p.id, p])))
+    );
+    const eventIdsFor = (severity: ConflictSeverity) =>
+      new Set(
+        conflicts
+          .filter((c) => c.severity === severity)
+          .flatMap((c) => [c.eventA.id, c.eventB.id])
+      );
+    const conflictEventIds = eventIdsFor('overlap');
+    const turnoverWarningEventIds = eventIdsFor('tight_turnover');
+
+    // Mark conflicting events
+    for (const event of events) {
+      event.hasConflict = conflictEventIds.has(event.id);
+      event.hasTurnoverWarning = turnoverWarningEventIds.has(event.id);
+    }
+
+    return events;
+  }
+
+  /**
+   * Active reservations and blocks in units that touch a date range,
+   * without conflict flags
+   */
+  async getUnitEvents(unitIds: string[], options: DateRange): Promise<CalendarEvent[]> {
     // Get reservations
     const reservations = await db.reservation.findMany({
       where: {
@@ -53,6 +148,9 @@ class CalendarService {
             property: true,
           },
         },
+        guest: {
+          select: { tags: true },
+        },
       },
     });
 
@@ -82,7 +180,7 @@ class CalendarService {
     });
 
     // Convert to calendar events
-    const events: CalendarEvent[] = [
+    return [
       ...reservations.map((r) => ({
         id: r.id,
         unitId: r.unitId,
@@ -90,40 +188,36 @@ class CalendarService {
         type: 'booked' as const,
         channel: r.channel,
         guestName: r.guestName,
+        guestId: r.guestId ?? undefined,
+        guestTags: r.guest && r.guest.tags.length > 0 ? r.guest.tags : undefined,
+        status: r.status,
         checkIn: r.checkIn,
         checkOut: r.checkOut,
         externalId: r.externalId || undefined,
         hasConflict: false,
+        ruleViolations: r.ruleViolations.length > 0 ? r.ruleViolations : undefined,
+        checkInAtRisk: r.checkInAtRisk || undefined,
       })),
       ...blocks.map((b) => ({
         id: b.id,
         unitId: b.unitId,
         propertyId: b.unit.propertyId,
         type: b.type,
+        channel: b.channel ?? undefined,
         checkIn: b.startDate,
         checkOut: b.endDate,
         hasConflict: false,
       })),
     ];
-
-    // Detect conflicts
-    const conflicts = this.detectConflicts(events);
-    const conflictEventIds = new Set(
-      conflicts.flatMap((c) => [c.eventA.id, c.eventB.id])
-    );
-
-    // Mark conflicting events
-    for (const event of events) {
-      event.hasConflict = conflictEventIds.has(event.id);
-    }
-
-    return events;
   }
 
-  async getReservations(userId: string, filters: { propertyId?: string; status?: string }) {
+  async getReservations(
+    organizationId: string,
+    filters: { propertyId?: string; status?: string; search?: string }
+  ) {
     const properties = await db.property.findMany({
       where: {
-        userId,
+        organizationId,
         ...(filters.propertyId ? { id: filters.propertyId } : {}),
       },
       include: { units: true },
@@ -135,6 +229,18 @@ class CalendarService {
       where: {
         unitId: { in: unitIds },
         ...(filters.status ? { status: filters.status as any } : {}),
+        // Match the guest details on the reservation or its guest profile
+        ...(filters.search
+          ? {
+              OR: [
+                { guestName: { contains: filters.search, mode: 'insensitive' as const } },
+                { guestEmail: { contains: filters.search, mode: 'insensitive' as const } },
+                { guestPhone: { contains: filters.search } },
+                { guest: { name: { contains: filters.search, mode: 'insensitive' as const } } },
+                { guest: { email: { contains: filters.search.toLowerCase() } } },
+              ],
+            }
+          : {}),
       },
       include: {
         unit: {
@@ -142,17 +248,20 @@ class CalendarService {
             property: true,
           },
         },
+        guest: {
+          select: { id: true, name: true, tags: true },
+        },
       },
       orderBy: { checkIn: 'asc' },
     });
   }
 
-  async createReservation(userId: string, input: CreateReservationInput) {
+  async createReservation(organizationId: string, input: CreateReservationInput) {
     // Verify the unit belongs to user
     const unit = await db.unit.findFirst({
       where: {
         id: input.unitId,
-        property: { userId },
+        property: { organizationId },
       },
     });
 
@@ -160,45 +269,322 @@ class CalendarService {
       throw new Error('Unit not found');
     }
 
-    // Check for conflicts
-    const existingReservations = await db.reservation.findMany({
+    return this.bookUnit(organizationId, input);
+  }
+
+  /**
+   * Book a stay in one of an organization's units, refusing dates that are
+   * already taken. Callers check the unit belongs to the organization.
+   */
+  async bookUnit(
+    organizationId: string,
+    input: CreateReservationInput,
+    details: {
+      status?: ReservationStatus;
+      notes?: string;
+      holdExpiresAt?: Date;
+      unverifiedGuest?: boolean;
+    } = {}
+  ) {
+    // Check for conflicts up front so a taken stay fails before anything is created
+    await assertUnitFree(db, input.unitId, input);
+
+    // Direct bookings must follow the booking rules; ones already taken on a channel are flagged instead
+    if (input.channel === 'direct') {
+      const violations = await bookingRuleService.check(input.unitId, input);
+      if (violations.length > 0) {
+        throw new Error(violations[0]);
+      }
+    }
+
+    // Price the stay from the unit's rates instead of taking the amount given
+    const quote = input.useQuote
+      ? await quoteService.quoteUnit(input.unitId, input, input.guests ?? 1)
+      : null;
+
+    if (quote && !quote.available) {
+      throw new Error(quote.unavailableReason);
+    }
+
+    // Typed-in bookings always get a guest profile, shared with earlier stays that have the same email or phone.
+    // Anyone can put any email on a booking request, so those wait for the owner to confirm
+    let guestId: string | null = null;
+    if (!details.unverifiedGuest) {
+      const guest = input.guestId
+        ? await db.guest.findFirst({ where: { id: input.guestId, organizationId } })
+        : await guestService.findOrCreate(
+            organizationId,
+            { name: input.guestName, email: input.guestEmail, phone: input.guestPhone },
+            { createWithoutContact: true }
+          );
+
+      if (!guest) {
+        throw new Error('Guest not found');
+      }
+      guestId = guest.id;
+    }
+
+    // Booking requests arrive unauthenticated and concurrently, so check again
+    // while holding the unit's row lock and create in the same transaction
+    const reservation = await db.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM units WHERE id = ${input.unitId} FOR UPDATE`;
+      await assertUnitFree(tx, input.unitId, input);
+
+      return tx.reservation.create({
+        data: {
+          unitId: input.unitId,
+          guestId,
+          channel: input.channel,
+          guestName: input.guestName,
+          guestEmail: input.guestEmail,
+          guestPhone: input.guestPhone,
+          notes: details.notes,
+          status: details.status,
+          holdExpiresAt: details.holdExpiresAt,
+          checkIn: input.checkIn,
+          checkOut: input.checkOut,
+          totalAmount: quote ? quote.total : input.totalAmount,
+          guestCount: input.guests,
+          externalId: input.externalId,
+          quoteLines: quote
+            ? {
+                create: quote.lines.map((line, position) => ({ ...line, position })),
+              }
+            : undefined,
+        },
+        include: {
+          quoteLines: { orderBy: { position: 'asc' } },
+        },
+      });
+    });
+
+    // The reservation may still overlap a block
+    await conflictService.refreshUnits([input.unitId]);
+    await bookingRuleService.flagUnits([input.unitId]);
+    await taskService.refreshUnits([input.unitId], 'new booking');
+
+    return reservation;
+  }
+
+  /**
+   * Edit a reservation's stay, guest details or status.
+   * New dates must not overlap the unit's other reservations, and cancelling
+   * also cancels the stay's pending tasks.
+   */
+  async updateReservation(
+    organizationId: string,
+    reservationId: string,
+    input: UpdateReservationInput
+  ) {
+    const reservation = await db.reservation.findFirst({
       where: {
-        unitId: input.unitId,
-        status: { in: ['confirmed', 'pending'] },
-        OR: [
-          {
-            AND: [
-              { checkIn: { lt: input.checkOut } },
-              { checkOut: { gt: input.checkIn } },
-            ],
-          },
-        ],
+        id: reservationId,
+        unit: {
+          property: { organizationId },
+        },
+      },
+      include: {
+        unit: {
+          include: { property: true },
+        },
       },
     });
 
-    if (existingReservations.length > 0) {
-      throw new Error('Dates conflict with existing reservation');
+    if (!reservation) {
+      throw new Error('Reservation not found');
     }
 
-    return db.reservation.create({
-      data: {
-        unitId: input.unitId,
-        channel: input.channel,
-        guestName: input.guestName,
-        checkIn: input.checkIn,
-        checkOut: input.checkOut,
-        totalAmount: input.totalAmount,
-        externalId: input.externalId,
+    const status = input.status ?? reservation.status;
+    const statusChanged = status !== reservation.status;
+
+    if (statusChanged && !reservationTransitions[reservation.status].includes(status)) {
+      throw new Error(`Cannot change a ${reservation.status} reservation to ${status}`);
+    }
+
+    const checkIn = input.checkIn ?? reservation.checkIn;
+    const checkOut = input.checkOut ?? reservation.checkOut;
+    const datesChanged =
+      checkIn.getTime() !== reservation.checkIn.getTime() ||
+      checkOut.getTime() !== reservation.checkOut.getTime();
+    const isActive = status === 'confirmed' || status === 'pending';
+
+    if (checkOut <= checkIn) {
+      throw new Error('Check-out must be after check-in');
+    }
+
+    if (datesChanged && !isActive) {
+      throw new Error('Only confirmed or pending reservations can be rescheduled');
+    }
+
+    if (status === 'completed' && checkIn > getLocalToday(reservation.unit.property.timezone)) {
+      throw new Error('Cannot complete a stay that has not started');
+    }
+
+    // Moving a stay or reinstating a cancelled one must not double-book the unit
+    if (isActive && (datesChanged || reservation.status === 'cancelled')) {
+      const overlapping = await db.reservation.count({
+        where: {
+          id: { not: reservation.id },
+          unitId: reservation.unitId,
+          status: { in: ['confirmed', 'pending'] },
+          checkIn: { lt: checkOut },
+          checkOut: { gt: checkIn },
+        },
+      });
+
+      if (overlapping > 0) {
+        throw new Error('Dates conflict with existing reservation');
+      }
+    }
+
+    if (isActive && datesChanged && reservation.channel === 'direct') {
+      const violations = await bookingRuleService.check(reservation.unitId, {
+        id: reservation.id,
+        checkIn,
+        checkOut,
+      });
+      if (violations.length > 0) {
+        throw new Error(violations[0]);
+      }
+    }
+
+    // A confirmed booking request joins the guest's profile now the owner has vouched for it
+    const confirmsRequest =
+      statusChanged && status === 'confirmed' && reservation.channel === 'direct';
+    const guest =
+      confirmsRequest && !reservation.guestId
+        ? await guestService.findOrCreate(
+            organizationId,
+            {
+              name: input.guestName ?? reservation.guestName,
+              email: input.guestEmail !== undefined ? input.guestEmail : reservation.guestEmail,
+              phone: input.guestPhone !== undefined ? input.guestPhone : reservation.guestPhone,
+            },
+            { createWithoutContact: true }
+          )
+        : null;
+
+    const updated = await db.$transaction(async (tx) => {
+      const result = await tx.reservation.update({
+        where: { id: reservation.id },
+        data: {
+          ...(guest ? { guestId: guest.id } : {}),
+          guestName: input.guestName,
+          guestEmail: input.guestEmail,
+          guestPhone: input.guestPhone,
+          checkIn: input.checkIn,
+          checkOut: input.checkOut,
+          totalAmount: input.totalAmount,
+          notes: input.notes,
+          status: input.status,
+          // Owner cancellations survive syncs; reinstating hands the stay back to its feed.
+          // Answering a booking request ends its hold
+          ...(statusChanged
+            ? { cancelledManually: status === 'cancelled', holdExpiresAt: null }
+            : {}),
+        },
+      });
+
+      // Cancelling a stay cancels every pending task linked to it, not just the cleaning
+      if (statusChanged && status === 'cancelled') {
+        await cancelLinkedTasks(tx, result, 'reservation edited');
+      }
+
+      return result;
+    });
+
+    if (datesChanged || statusChanged) {
+      await conflictService.refreshUnits([reservation.unitId]);
+      await bookingRuleService.flagUnits([reservation.unitId]);
+      await taskService.refreshUnits([reservation.unitId], 'reservation edited');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Mark confirmed stays whose check-out date has passed, in their property's
+   * timezone, as completed. Runs from the worker's nightly scheduled job.
+   */
+  async completePastReservations() {
+    const timezones = await db.property.findMany({
+      select: { timezone: true },
+      distinct: ['timezone'],
+    });
+
+    let completed = 0;
+
+    for (const { timezone } of timezones) {
+      const result = await db.reservation.updateMany({
+        where: {
+          status: 'confirmed',
+          checkOut: { lt: getLocalToday(timezone) },
+          unit: {
+            property: { timezone },
+          },
+        },
+        data: { status: 'completed' },
+      });
+      completed += result.count;
+    }
+
+    return { completed };
+  }
+
+  /**
+   * Cancel booking requests the owner hasn't answered before their hold ran
+   * out, freeing the dates. Runs from the worker's scheduled job.
+   */
+  async expireBookingRequests() {
+    const now = new Date();
+
+    const candidates = await db.reservation.findMany({
+      where: {
+        status: 'pending',
+        holdExpiresAt: { lt: now },
       },
+      select: { id: true, unitId: true, guestName: true },
     });
+
+    const expired: typeof candidates = [];
+
+    for (const reservation of candidates) {
+      const cancelled = await db.$transaction(async (tx) => {
+        // The owner may have answered the request since it was read
+        const result = await tx.reservation.updateMany({
+          where: { id: reservation.id, status: 'pending', holdExpiresAt: { lt: now } },
+          data: { status: 'cancelled', holdExpiresAt: null },
+        });
+
+        if (result.count === 0) {
+          return false;
+        }
+
+        await cancelLinkedTasks(tx, reservation, 'booking request expired');
+        return true;
+      });
+
+      if (cancelled) {
+        expired.push(reservation);
+      }
+    }
+
+    if (expired.length > 0) {
+      const unitIds = [...new Set(expired.map((r) => r.unitId))];
+      await conflictService.refreshUnits(unitIds);
+      await bookingRuleService.flagUnits(unitIds);
+      await taskService.refreshUnits(unitIds, 'booking request expired');
+    }
+
+    return { expired: expired.length };
   }
 
-  async createBlock(userId: string, input: CreateBlockInput) {
+  async createBlock(organizationId: string, input: CreateBlockInput) {
     // Verify the unit belongs to user
     const unit = await db.unit.findFirst({
       where: {
         id: input.unitId,
-        property: { userId },
+        property: { organizationId },
       },
     });
 
@@ -206,7 +592,7 @@ class CalendarService {
       throw new Error('Unit not found');
     }
 
-    return db.availabilityBlock.create({
+    const block = await db.availabilityBlock.create({
       data: {
         unitId: input.unitId,
         type: input.type,
@@ -215,14 +601,18 @@ class CalendarService {
         notes: input.notes,
       },
     });
+
+    await conflictService.refreshUnits([input.unitId]);
+
+    return block;
   }
 
-  async deleteBlock(userId: string, blockId: string) {
+  async deleteBlock(organizationId: string, blockId: string) {
     const block = await db.availabilityBlock.findFirst({
       where: {
         id: blockId,
         unit: {
-          property: { userId },
+          property: { organizationId },
         },
       },
     });
@@ -234,19 +624,16 @@ class CalendarService {
     await db.availabilityBlock.delete({
       where: { id: blockId },
     });
+
+    await conflictService.refreshUnits([block.unitId]);
   }
 
-  async syncChannel(userId: string, channelMappingId: string) {
+  async syncChannel(organizationId: string, channelMappingId: string) {
     // Get the channel mapping
     const mapping = await db.channelMapping.findFirst({
       where: {
         id: channelMappingId,
-        property: { userId },
-      },
-      include: {
-        property: {
-          include: { units: true },
-        },
+        property: { organizationId },
       },
     });
 
@@ -258,81 +645,84 @@ class CalendarService {
       throw new Error('No iCal URL configured for this channel');
     }
 
-    // Get the first unit (for now, assume single unit per property)
-    const unit = mapping.property.units[0];
-    if (!unit) {
-      throw new Error('Property has no units');
-    }
+    // Run through the worker so a manual sync never overlaps a scheduled one
+    const result = await waitForJob<SyncResult | null>(await enqueueChannelSync(mapping.id));
 
-    // Sync using iCal adapter
-    const result = await iCalAdapter.syncCalendar(mapping, unit.id);
-
-    // Update last sync time
-    await db.channelMapping.update({
-      where: { id: channelMappingId },
-      data: {
-        lastSyncAt: new Date(),
-        lastSyncError: result.error || null,
-      },
-    });
+    if (!result) {
+      throw new Error('Channel mapping not found');
+    }
 
-    return result;
+    return {
+      success: result.success,
+      eventsFound: result.eventsFound,
+      eventsCreated: result.eventsAdded,
+      eventsUpdated: result.eventsUpdated,
+      eventsCancelled: result.eventsCancelled,
+      unchanged: result.unchanged,
+      error: result.error,
+    };
   }
 
-  async getConflicts(userId: string, propertyId?: string): Promise<ConflictInfo[]> {
-    const now = new Date();
-    const futureDate = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
-
-    const events = await this.getEvents(userId, {
-      start: now,
-      end: futureDate,
-      propertyId,
+  /**
+   * Build the public iCal feed for a unit. The token is the only credential,
+   * so a missing unit and a wrong token are reported the same way.
+   */
+  async getICalFeed(
+    unitId: string,
+    token: string | undefined,
+    options: { excludeChannel?: ChannelType } = {}
+  ): Promise<string> {
+    const unit = await db.unit.findUnique({
+      where: { id: unitId },
+      include: { property: true },
     });
 
-    return this.detectConflicts(events);
-  }
+    if (!unit || !token || unit.icalExportToken !== token) {
+      throw new Error('Calendar feed not found');
+    }
 
-  private detectConflicts(events: CalendarEvent[]): ConflictInfo[] {
-    const conflicts: ConflictInfo[] = [];
+    const today = getLocalToday(unit.property.timezone);
 
-    // Group events by unit
-    const eventsByUnit = new Map<string, CalendarEvent[]>();
-    for (const event of events) {
-      if (!eventsByUnit.has(event.unitId)) {
-        eventsByUnit.set(event.unitId, []);
-      }
-      eventsByUnit.get(event.unitId)!.push(event);
-    }
+    const [reservations, blocks] = await Promise.all([
+      db.reservation.findMany({
+        where: {
+          unitId,
+          status: { in: ['confirmed', 'pending'] },
+          checkOut: { gte: today },
+          // Leave out the polling channel's own events so they don't echo back as blocks
+          ...(options.excludeChannel ? { channel: { not: options.excludeChannel } } : {}),
+        },
+        orderBy: { checkIn: 'asc' },
+      }),
+      db.availabilityBlock.findMany({
+        where: {
+          unitId,
+          endDate: { gte: today },
+          ...(options.excludeChannel
+            ? { OR: [{ channel: null }, { channel: { not: options.excludeChannel } }] }
+            : {}),
+        },
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
 
-    // Check for overlaps within each unit
-    for (const [unitId, unitEvents] of eventsByUnit) {
-      // Sort by check-in date
-      unitEvents.sort((a, b) => new Date(a.checkIn).getTime() - new Date(b.checkIn).getTime());
-
-      for (let i = 0; i < unitEvents.length; i++) {
-        for (let j = i + 1; j < unitEvents.length; j++) {
-          const eventA = unitEvents[i];
-          const eventB = unitEvents[j];
-
-          const aStart = new Date(eventA.checkIn).getTime();
-          const aEnd = new Date(eventA.checkOut).getTime();
-          const bStart = new Date(eventB.checkIn).getTime();
-          const bEnd = new Date(eventB.checkOut).getTime();
-
-          // Check if they overlap
-          if (aStart < bEnd && bStart < aEnd) {
-            conflicts.push({
-              eventA,
-              eventB,
-              overlapStart: new Date(Math.max(aStart, bStart)),
-              overlapEnd: new Date(Math.min(aEnd, bEnd)),
-            });
-          }
-        }
-      }
-    }
+    // Guest details never leave the system; channels only need to know the dates are taken
+    const events: ICalExportEvent[] = [
+      ...reservations.map((r) => ({
+        uid: `reservation-${r.id}@unifiedstay`,
+        summary: 'Reserved',
+        start: r.checkIn,
+        end: r.checkOut,
+      })),
+      ...blocks.map((b) => ({
+        uid: `block-${b.id}@unifiedstay`,
+        summary: 'Not available',
+        start: b.startDate,
+        end: b.endDate,
+      })),
+    ];
 
-    return conflicts;
+    return iCalAdapter.generateICalFeed(`${unit.property.name} - ${unit.name}`, events);
   }
 }
 
@@ -0,0 +1,610 @@
+import { db, Prisma } from '@unifiedstay/database';
+import type {
+  CalendarEvent,
+  ConflictInfo,
+  ConflictRecord,
+  ConflictQuery,
+  UpdateConflictInput,
+  ResolveConflictInput,
+} from '@unifiedstay/shared';
+import {
+  addCalendarDays,
+  getLocalToday,
+  getTurnoverGapHours,
+  type PropertyClock,
+} from '../../lib/timezone.js';
+import { bookingRuleService } from './booking-rule.service.js';
+import { taskService } from '../tasks/task.service.js';
+
+type EventKind = 'reservation' | 'block';
+
+// How far ahead conflicts are tracked
+const HORIZON_DAYS = 365;
+
+// Unit and property details returned with each conflict
+const conflictInclude = {
+  unit: {
+    include: {
+      property: {
+        include: { units: { select: { id: true, name: true }, orderBy: { createdAt: 'asc' } } },
+      },
+    },
+  },
+} satisfies Prisma.ConflictInclude;
+
+type ConflictWithUnit = Prisma.ConflictGetPayload<{ include: typeof conflictInclude }>;
+
+function kindOf(event: CalendarEvent): EventKind {
+  return event.type === 'booked' ? 'reservation' : 'block';
+}
+
+/**
+ * Order-independent key for a pair of events
+ */
+export function getConflictKey(eventAId: string, eventBId: string): string {
+  return eventAId < eventBId ? `${eventAId}:${eventBId}` : `${eventBId}:${eventAId}`;
+}
+
+// Property settings that decide whether a turnover is tight
+export interface TurnoverSettings extends PropertyClock {
+  cleaningBufferHours: number;
+}
+
+/**
+ * Binary min-heap, used to retire events in check-out order
+ */
+class MinHeap<T> {
+  private entries: { key: number; value: T }[] = [];
+
+  get size() {
+    return this.entries.length;
+  }
+
+  values(): T[] {
+    return this.entries.map((e) => e.value);
+  }
+
+  peekKey(): number | undefined {
+    return this.entries[0]?.key;
+  }
+
+  push(value: T, key: number) {
+    const entries = this.entries;
+    entries.push({ key, value });
+
+    let i = entries.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (entries[parent].key <= entries[i].key) break;
+      [entries[parent], entries[i]] = [entries[i], entries[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop();
+
+    if (entries.length > 0 && last) {
+      entries[0] = last;
+
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < entries.length && entries[left].key < entries[smallest].key) smallest = left;
+        if (right < entries.length && entries[right].key < entries[smallest].key) smallest = right;
+        if (smallest === i) break;
+        [entries[smallest], entries[i]] = [entries[i], entries[smallest]];
+        i = smallest;
+      }
+    }
+
+    return top?.value;
+  }
+}
+
+/**
+ * Find overlapping events and tight turnovers within each unit.
+ *
+ * Each unit's events are swept in check-in order while the stays still in
+ * progress sit in a heap ordered by check-out, so the cost is O(n log n) plus
+ * the number of conflicts found. A turnover is tight when the time between a
+ * guest leaving and the next arriving, at the property's local check-out and
+ * check-in times, is shorter than its cleaning buffer; pass each property's
+ * settings to get those warnings.
+ */
+export function detectConflicts(
+  events: CalendarEvent[],
+  turnoverSettings: Map<string, TurnoverSettings> = new Map()
+): ConflictInfo[] {
+  const conflicts: ConflictInfo[] = [];
+
+  // Group events by unit
+  const eventsByUnit = new Map<string, CalendarEvent[]>();
+  for (const event of events) {
+    if (!eventsByUnit.has(event.unitId)) {
+      eventsByUnit.set(event.unitId, []);
+    }
+    eventsByUnit.get(event.unitId)!.push(event);
+  }
+
+  for (const [, unitEvents] of eventsByUnit) {
+    const sorted = [...unitEvents].sort(
+      (a, b) => new Date(a.checkIn).getTime() - new Date(b.checkIn).getTime()
+    );
+    const inProgress = new MinHeap<CalendarEvent>();
+    let previousStay: CalendarEvent | null = null;
+
+    for (const event of sorted) {
+      const start = new Date(event.checkIn).getTime();
+      const end = new Date(event.checkOut).getTime();
+
+      // Retire everything that has checked out by the time this event starts.
+      // Check-outs come off the heap in order, so the last stay retired is the one right before this event.
+      while (inProgress.size > 0 && inProgress.peekKey()! <= start) {
+        const ended = inProgress.pop()!;
+        if (ended.type === 'booked') {
+          previousStay = ended;
+        }
+      }
+
+      // Anything still in progress overlaps this event
+      for (const other of inProgress.values()) {
+        conflicts.push({
+          eventA: other,
+          eventB: event,
+          severity: 'overlap',
+          overlapStart: new Date(start),
+          overlapEnd: new Date(Math.min(end, new Date(other.checkOut).getTime())),
+        });
+      }
+
+      const settings = turnoverSettings.get(event.propertyId);
+      if (event.type === 'booked' && previousStay && settings?.cleaningBufferHours) {
+        const gapHours = getTurnoverGapHours(previousStay.checkOut, event.checkIn, settings);
+        if (gapHours < settings.cleaningBufferHours) {
+          conflicts.push({
+            eventA: previousStay,
+            eventB: event,
+            severity: 'tight_turnover',
+            overlapStart: new Date(previousStay.checkOut),
+            overlapEnd: new Date(start),
+            gapHours,
+          });
+        }
+      }
+
+      inProgress.push(event, end);
+    }
+  }
+
+  return conflicts;
+}
+
+class ConflictService {
+  /**
+   * Re-run conflict detection for units and reconcile the stored conflicts.
+   * New overlaps are opened, overlaps that went away on their own are cleared,
+   * and resolved conflicts are left alone so they never reopen.
+   */
+  async refreshUnits(unitIds: string[]) {
+    if (unitIds.length === 0) {
+      return;
+    }
+
+    const units = await db.unit.findMany({
+      where: { id: { in: unitIds } },
+      select: { property: true },
+    });
+    const turnoverSettings = new Map(units.map((u) => [u.property.id, u.property]));
+
+    // Start from the earliest "today" across the properties' timezones
+    const today = units
+      .map((u) => getLocalToday(u.property.timezone))
+      .reduce((earliest, date) => (date < earliest ? date : earliest), getLocalToday('UTC'));
+
+    const [events, existing] = await Promise.all([
+      this.loadEvents(unitIds, today, addCalendarDays(today, HORIZON_DAYS)),
+      db.conflict.findMany({ where: { unitId: { in: unitIds } } }),
+    ]);
+
+    const existingByKey = new Map(existing.map((c) => [getConflictKey(c.eventAId, c.eventBId), c]));
+    const detectedKeys = new Set<string>();
+
+    await db.$transaction(async (tx) => {
+      for (const conflict of detectConflicts(events, turnoverSettings)) {
+        // Store the pair in a fixed order so the unique key matches either way round
+        const [first, second] =
+          conflict.eventA.id < conflict.eventB.id
+            ? [conflict.eventA, conflict.eventB]
+            : [conflict.eventB, conflict.eventA];
+        const key = getConflictKey(first.id, second.id);
+        detectedKeys.add(key);
+
+        const current = existingByKey.get(key);
+
+        if (!current) {
+          await tx.conflict.create({
+            data: {
+              unitId: first.unitId,
+              severity: conflict.severity,
+              eventAId: first.id,
+              eventAKind: kindOf(first),
+              eventBId: second.id,
+              eventBKind: kindOf(second),
+              overlapStart: conflict.overlapStart,
+              overlapEnd: conflict.overlapEnd,
+            },
+          });
+        } else if (
+          current.status === 'resolved' &&
+          current.severity === 'tight_turnover' &&
+          conflict.severity === 'overlap'
+        ) {
+          // A dismissed turnover warning that has become a double booking needs attention again
+          await tx.conflict.update({
+            where: { id: current.id },
+            data: {
+              severity: 'overlap',
+              status: 'open',
+              resolution: null,
+              resolutionNote: null,
+              resolvedAt: null,
+              overlapStart: conflict.overlapStart,
+              overlapEnd: conflict.overlapEnd,
+            },
+          });
+        } else if (
+          current.status !== 'resolved' &&
+          (current.severity !== conflict.severity ||
+            current.overlapStart.getTime() !== conflict.overlapStart.getTime() ||
+            current.overlapEnd.getTime() !== conflict.overlapEnd.getTime())
+        ) {
+          await tx.conflict.update({
+            where: { id: current.id },
+            data: {
+              severity: conflict.severity,
+              overlapStart: conflict.overlapStart,
+              overlapEnd: conflict.overlapEnd,
+            },
+          });
+        }
+      }
+
+      // e.g. a guest cancelled on the channel, so there is nothing left to resolve
+      const cleared = existing.filter(
+        (c) => c.status !== 'resolved' && !detectedKeys.has(getConflictKey(c.eventAId, c.eventBId))
+      );
+
+      if (cleared.length > 0) {
+        await tx.conflict.deleteMany({
+          where: { id: { in: cleared.map((c) => c.id) } },
+        });
+      }
+    });
+  }
+
+  /**
+   * Drop detected conflicts the owner has already resolved. A dismissed
+   * turnover warning does not hide a later double booking of the same pair.
+   */
+  async withoutResolved(unitIds: string[], conflicts: ConflictInfo[]): Promise<ConflictInfo[]> {
+    const resolved = await db.conflict.findMany({
+      where: { unitId: { in: unitIds }, status: 'resolved' },
+      select: { eventAId: true, eventBId: true, severity: true },
+    });
+
+    const resolvedSeverity = new Map(
+      resolved.map((c) => [getConflictKey(c.eventAId, c.eventBId), c.severity])
+    );
+
+    return conflicts.filter((c) => {
+      const severity = resolvedSeverity.get(getConflictKey(c.eventA.id, c.eventB.id));
+      return !severity || (severity === 'tight_turnover' && c.severity === 'overlap');
+    });
+  }
+
+  async list(organizationId: string, query: ConflictQuery): Promise<ConflictRecord[]> {
+    const conflicts = await db.conflict.findMany({
+      where: {
+        unit: {
+          property: {
+            organizationId,
+            ...(query.propertyId ? { id: query.propertyId } : {}),
+          },
+        },
+        // Unresolved conflicts unless a status is asked for
+        status: query.status ?? { in: ['open', 'acknowledged'] },
+        ...(query.severity ? { severity: query.severity } : {}),
+      },
+      include: conflictInclude,
+      // Double bookings before turnover warnings
+      orderBy: [{ severity: 'asc' }, { overlapStart: 'asc' }],
+    });
+
+    return this.toRecords(conflicts);
+  }
+
+  async getById(organizationId: string, conflictId: string): Promise<ConflictRecord> {
+    const conflict = await db.conflict.findFirst({
+      where: {
+        id: conflictId,
+        unit: { property: { organizationId } },
+      },
+      include: conflictInclude,
+    });
+
+    if (!conflict) {
+      throw new Error('Conflict not found');
+    }
+
+    const [record] = await this.toRecords([conflict]);
+
+    if (!record) {
+      throw new Error('Conflict not found');
+    }
+
+    return record;
+  }
+
+  async updateStatus(organizationId: string, conflictId: string, input: UpdateConflictInput) {
+    const conflict = await this.findOwned(organizationId, conflictId);
+
+    if (conflict.status === 'resolved') {
+      throw new Error('Conflict is already resolved');
+    }
+
+    await db.conflict.update({
+      where: { id: conflictId },
+      data: { status: input.status },
+    });
+
+    return this.getById(organizationId, conflictId);
+  }
+
+  /**
+   * Resolve a conflict by cancelling one reservation, moving it to another
+   * unit of the same property, or marking the overlap as a false positive
+   */
+  async resolve(organizationId: string, conflictId: string, input: ResolveConflictInput) {
+    const conflict = await this.findOwned(organizationId, conflictId);
+
+    if (conflict.status === 'resolved') {
+      throw new Error('Conflict is already resolved');
+    }
+
+    const touchedUnitIds = [conflict.unitId];
+
+    if (input.action !== 'false_positive') {
+      const isSide =
+        (conflict.eventAId === input.reservationId && conflict.eventAKind === 'reservation') ||
+        (conflict.eventBId === input.reservationId && conflict.eventBKind === 'reservation');
+
+      if (!isSide) {
+        throw new Error('Reservation is not part of this conflict');
+      }
+    }
+
+    await db.$transaction(async (tx) => {
+      if (input.action === 'cancel_reservation') {
+        await tx.reservation.update({
+          where: { id: input.reservationId },
+          data: { status: 'cancelled', cancelledManually: true },
+        });
+      }
+
+      if (input.action === 'move_reservation') {
+        const reservation = await tx.reservation.findUniqueOrThrow({
+          where: { id: input.reservationId },
+        });
+
+        const targetUnit = await tx.unit.findFirst({
+          where: {
+            id: input.targetUnitId,
+            propertyId: conflict.unit.propertyId,
+          },
+        });
+
+        if (!targetUnit || targetUnit.id === conflict.unitId) {
+          throw new Error('Target unit not found');
+        }
+
+        const overlapping = { lt: reservation.checkOut };
+        const [reservations, blocks] = await Promise.all([
+          tx.reservation.count({
+            where: {
+              unitId: targetUnit.id,
+              status: { in: ['confirmed', 'pending'] },
+              checkIn: overlapping,
+              checkOut: { gt: reservation.checkIn },
+            },
+          }),
+          tx.availabilityBlock.count({
+            where: {
+              unitId: targetUnit.id,
+              startDate: overlapping,
+              endDate: { gt: reservation.checkIn },
+            },
+          }),
+        ]);
+
+        if (reservations + blocks > 0) {
+          throw new Error('Dates conflict with existing events in the target unit');
+        }
+
+        await tx.reservation.update({
+          where: { id: reservation.id },
+          data: { unitId: targetUnit.id },
+        });
+        touchedUnitIds.push(targetUnit.id);
+      }
+
+      await tx.conflict.update({
+        where: { id: conflictId },
+        data: {
+          status: 'resolved',
+          resolution:
+            input.action === 'cancel_reservation'
+              ? 'cancelled_reservation'
+              : input.action === 'move_reservation'
+                ? 'moved_reservation'
+                : 'false_positive',
+          resolutionNote: input.note,
+          resolvedAt: new Date(),
+        },
+      });
+    });
+
+    // Cancelling or moving a reservation can clear its other conflicts too
+    await this.refreshUnits(touchedUnitIds);
+    await bookingRuleService.flagUnits(touchedUnitIds);
+    await taskService.refreshUnits(touchedUnitIds, 'double booking resolved');
+
+    return this.getById(organizationId, conflictId);
+  }
+
+  private async findOwned(organizationId: string, conflictId: string) {
+    const conflict = await db.conflict.findFirst({
+      where: {
+        id: conflictId,
+        unit: { property: { organizationId } },
+      },
+      include: { unit: true },
+    });
+
+    if (!conflict) {
+      throw new Error('Conflict not found');
+    }
+
+    return conflict;
+  }
+
+  private async loadEvents(unitIds: string[], start: Date, end: Date): Promise<CalendarEvent[]> {
+    const [reservations, blocks] = await Promise.all([
+      db.reservation.findMany({
+        where: {
+          unitId: { in: unitIds },
+          status: { in: ['confirmed', 'pending'] },
+          checkOut: { gt: start },
+          checkIn: { lt: end },
+        },
+        include: { unit: true },
+      }),
+      db.availabilityBlock.findMany({
+        where: {
+          unitId: { in: unitIds },
+          endDate: { gt: start },
+          startDate: { lt: end },
+        },
+        include: { unit: true },
+      }),
+    ]);
+
+    return [
+      ...reservations.map((r) => this.reservationEvent(r)),
+      ...blocks.map((b) => this.blockEvent(b)),
+    ];
+  }
+
+  private reservationEvent(r: {
+    id: string;
+    unitId: string;
+    unit: { propertyId: string };
+    channel: CalendarEvent['channel'];
+    guestName: string;
+    checkIn: Date;
+    checkOut: Date;
+    externalId: string | null;
+  }): CalendarEvent {
+    return {
+      id: r.id,
+      unitId: r.unitId,
+      propertyId: r.unit.propertyId,
+      type: 'booked',
+      channel: r.channel,
+      guestName: r.guestName,
+      checkIn: r.checkIn,
+      checkOut: r.checkOut,
+      externalId: r.externalId || undefined,
+    };
+  }
+
+  private blockEvent(b: {
+    id: string;
+    unitId: string;
+    unit: { propertyId: string };
+    type: CalendarEvent['type'];
+    channel: CalendarEvent['channel'] | null;
+    startDate: Date;
+    endDate: Date;
+  }): CalendarEvent {
+    return {
+      id: b.id,
+      unitId: b.unitId,
+      propertyId: b.unit.propertyId,
+      type: b.type,
+      channel: b.channel ?? undefined,
+      checkIn: b.startDate,
+      checkOut: b.endDate,
+    };
+  }
+
+  /**
+   * Attach both events to each stored conflict. Conflicts whose events have
+   * since been deleted are dropped.
+   */
+  private async toRecords(
+    conflicts: ConflictWithUnit[]
+  ): Promise<ConflictRecord[]> {
+    const ids = conflicts.flatMap((c) => [c.eventAId, c.eventBId]);
+
+    const [reservations, blocks] = await Promise.all([
+      db.reservation.findMany({ where: { id: { in: ids } }, include: { unit: true } }),
+      db.availabilityBlock.findMany({ where: { id: { in: ids } }, include: { unit: true } }),
+    ]);
+
+    const events = new Map<string, CalendarEvent>([
+      ...reservations.map((r) => [r.id, this.reservationEvent(r)] as const),
+      ...blocks.map((b) => [b.id, this.blockEvent(b)] as const),
+    ]);
+
+    return conflicts.flatMap((c) => {
+      const eventA = events.get(c.eventAId);
+      const eventB = events.get(c.eventBId);
+
+      if (!eventA || !eventB) {
+        return [];
+      }
+
+      return [
+        {
+          id: c.id,
+          unitId: c.unitId,
+          unitName: c.unit.name,
+          propertyId: c.unit.propertyId,
+          propertyName: c.unit.property.name,
+          status: c.status,
+          resolution: c.resolution ?? undefined,
+          resolutionNote: c.resolutionNote ?? undefined,
+          detectedAt: c.detectedAt,
+          resolvedAt: c.resolvedAt ?? undefined,
+          eventA,
+          eventB,
+          severity: c.severity,
+          overlapStart: c.overlapStart,
+          overlapEnd: c.overlapEnd,
+          gapHours:
+            c.severity === 'tight_turnover'
+              ? getTurnoverGapHours(c.overlapStart, c.overlapEnd, c.unit.property)
+              : undefined,
+          alternativeUnits: c.unit.property.units.filter((u) => u.id !== c.unitId),
+        },
+      ];
+    });
+  }
+}
+
+export const conflictService = new ConflictService();
@@ -0,0 +1,36 @@
+import { FastifyPluginAsync } from 'fastify';
+import { channelTypes } from '@unifiedstay/shared';
+import { error } from '../../lib/response.js';
+import { calendarService } from './calendar.service.js';
+
+type ExportChannel = (typeof channelTypes)[number];
+
+// Public iCal export feeds - authenticated by the per-unit token, not JWT,
+// because channels like Airbnb and Vrbo poll these URLs directly
+export const icalFeedRoutes: FastifyPluginAsync = async (fastify) => {
+  // Get iCal feed for a unit
+  fastify.get('/ical/:unitId.ics', async (request, reply) => {
+    const { unitId } = request.params as { unitId: string };
+    const query = request.query as { token?: string; exclude?: string };
+
+    if (query.exclude && !channelTypes.includes(query.exclude as ExportChannel)) {
+      error(reply, 'VALIDATION_ERROR', `Unknown channel: ${query.exclude}`, 400);
+      return;
+    }
+
+    try {
+      const feed = await calendarService.getICalFeed(unitId, query.token, {
+        excludeChannel: query.exclude as ExportChannel | undefined,
+      });
+
+      reply
+        .header('Content-Type', 'text/calendar; charset=utf-8')
+        .header('Cache-Control', 'no-cache')
+        .send(feed);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+};
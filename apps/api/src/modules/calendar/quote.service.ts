@@ -0,0 +1,204 @@
+import { db, Prisma, type TaxRate } from '@unifiedstay/database';
+import type { Quote, QuoteLineItem, QuoteRequest } from '@unifiedstay/shared';
+import { bookingRuleService } from './booking-rule.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RatePlanWithSeasons = Prisma.RatePlanGetPayload<{ include: { seasons: true } }>;
+
+// Prices are added up in cents so line items always sum to the total
+function toCents(amount: Prisma.Decimal | number) {
+  return Math.round(Number(amount) * 100);
+}
+
+function fromCents(cents: number) {
+  return cents / 100;
+}
+
+function isWeekendNight(night: Date) {
+  // Friday and Saturday nights
+  const day = night.getUTCDay();
+  return day === 5 || day === 6;
+}
+
+/**
+ * The rate for one night and the line it is billed under
+ */
+function rateForNight(plan: RatePlanWithSeasons, night: Date): { label: string; cents: number } {
+  const weekend = isWeekendNight(night);
+
+  // Where seasons overlap, the one starting latest wins
+  const season = plan.seasons
+    .filter((s) => night >= s.startDate && night <= s.endDate)
+    .sort((a, b) => b.startDate.getTime() - a.startDate.getTime())[0];
+
+  if (season) {
+    return weekend && season.weekendNightlyRate
+      ? { label: `${season.name} (weekend)`, cents: toCents(season.weekendNightlyRate) }
+      : { label: season.name, cents: toCents(season.nightlyRate) };
+  }
+
+  return weekend && plan.weekendNightlyRate
+    ? { label: 'Weekend rate', cents: toCents(plan.weekendNightlyRate) }
+    : { label: 'Nightly rate', cents: toCents(plan.baseNightlyRate) };
+}
+
+/**
+ * Itemise the price of a stay: nightly rates grouped by rate, the cleaning
+ * fee, extra guests, then each tax on the taxable lines.
+ */
+export function priceStay(
+  plan: RatePlanWithSeasons,
+  taxRates: TaxRate[],
+  stay: { checkIn: Date; checkOut: Date },
+  guests: number
+): Pick<Quote, 'lines' | 'subtotal' | 'taxTotal' | 'total'> {
+  const nights = Math.round((stay.checkOut.getTime() - stay.checkIn.getTime()) / DAY_MS);
+  const lines: (Omit<QuoteLineItem, 'unitAmount' | 'amount'> & { unitCents: number; cents: number })[] = [];
+
+  // One line per distinct rate, in the order the nights fall
+  const nightlyLines = new Map<string, (typeof lines)[number]>();
+  for (let i = 0; i < nights; i++) {
+    const { label, cents } = rateForNight(plan, new Date(stay.checkIn.getTime() + i * DAY_MS));
+    const key = `${label}:${cents}`;
+    const line = nightlyLines.get(key);
+    if (line) {
+      line.quantity++;
+      line.cents += cents;
+    } else {
+      nightlyLines.set(key, { type: 'nightly', description: label, quantity: 1, unitCents: cents, cents });
+    }
+  }
+  lines.push(...nightlyLines.values());
+
+  const cleaningCents = toCents(plan.cleaningFee);
+  if (cleaningCents > 0) {
+    lines.push({ type: 'cleaning_fee', description: 'Cleaning fee', quantity: 1, unitCents: cleaningCents, cents: cleaningCents });
+  }
+
+  const extraGuests = Math.max(0, guests - plan.includedGuests);
+  const extraGuestCents = toCents(plan.extraGuestFee);
+  if (extraGuests > 0 && extraGuestCents > 0) {
+    lines.push({
+      type: 'extra_guest_fee',
+      description: `Extra guest fee (${extraGuests} guest${extraGuests === 1 ? '' : 's'})`,
+      quantity: extraGuests * nights,
+      unitCents: extraGuestCents,
+      cents: extraGuests * nights * extraGuestCents,
+    });
+  }
+
+  const subtotalCents = lines.reduce((sum, line) => sum + line.cents, 0);
+
+  // Taxes are charged on the charges above, never on each other
+  const charges = [...lines];
+  let taxCents = 0;
+  for (const tax of taxRates) {
+    const taxable = charges
+      .filter((line) => line.type !== 'cleaning_fee' || tax.appliesToCleaningFee)
+      .reduce((sum, line) => sum + line.cents, 0);
+    const cents = Math.round((taxable * Number(tax.percent)) / 100);
+    taxCents += cents;
+    lines.push({
+      type: 'tax',
+      description: `${tax.name} (${Number(tax.percent)}%)`,
+      quantity: 1,
+      unitCents: cents,
+      cents,
+    });
+  }
+
+  return {
+    lines: lines.map(({ unitCents, cents, ...line }) => ({
+      ...line,
+      unitAmount: fromCents(unitCents),
+      amount: fromCents(cents),
+    })),
+    subtotal: fromCents(subtotalCents),
+    taxTotal: fromCents(taxCents),
+    total: fromCents(subtotalCents + taxCents),
+  };
+}
+
+class QuoteService {
+  async getQuote(organizationId: string, input: QuoteRequest): Promise<Quote> {
+    // Verify the unit belongs to user
+    const unit = await db.unit.findFirst({
+      where: {
+        id: input.unitId,
+        property: { organizationId },
+      },
+    });
+
+    if (!unit) {
+      throw new Error('Unit not found');
+    }
+
+    return this.quoteUnit(input.unitId, input, input.guests);
+  }
+
+  /**
+   * Price a stay in a unit and check it can be booked: the dates must be
+   * free of reservations and blocks, and the party must fit the unit.
+   */
+  async quoteUnit(
+    unitId: string,
+    stay: { checkIn: Date; checkOut: Date },
+    guests: number
+  ): Promise<Quote> {
+    const unit = await db.unit.findUniqueOrThrow({
+      where: { id: unitId },
+      include: {
+        ratePlan: { include: { seasons: true } },
+        property: { include: { taxRates: { orderBy: { createdAt: 'asc' } } } },
+      },
+    });
+
+    if (!unit.ratePlan) {
+      throw new Error('Rates are not set up for this unit');
+    }
+
+    const [reservations, blocks, ruleViolations] = await Promise.all([
+      db.reservation.count({
+        where: {
+          unitId,
+          status: { in: ['confirmed', 'pending'] },
+          checkIn: { lt: stay.checkOut },
+          checkOut: { gt: stay.checkIn },
+        },
+      }),
+      db.availabilityBlock.count({
+        where: {
+          unitId,
+          startDate: { lt: stay.checkOut },
+          endDate: { gt: stay.checkIn },
+        },
+      }),
+      bookingRuleService.check(unitId, stay),
+    ]);
+
+    const unavailableReason =
+      reservations > 0
+        ? 'Dates overlap an existing reservation'
+        : blocks > 0
+          ? 'Dates are blocked'
+          : unit.ratePlan.maxGuests && guests > unit.ratePlan.maxGuests
+            ? `This unit sleeps at most ${unit.ratePlan.maxGuests} guests`
+            : undefined;
+
+    return {
+      unitId,
+      checkIn: stay.checkIn,
+      checkOut: stay.checkOut,
+      nights: Math.round((stay.checkOut.getTime() - stay.checkIn.getTime()) / DAY_MS),
+      guests,
+      currency: unit.ratePlan.currency,
+      available: !unavailableReason && ruleViolations.length === 0,
+      unavailableReason: unavailableReason ?? ruleViolations[0],
+      ruleViolations,
+      ...priceStay(unit.ratePlan, unit.property.taxRates, stay, guests),
+    };
+  }
+}
+
+export const quoteService = new QuoteService();
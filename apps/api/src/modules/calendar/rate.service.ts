@@ -0,0 +1,117 @@
+import { db } from '@unifiedstay/database';
+import type { CreateTaxRateInput, UpsertRatePlanInput } from '@unifiedstay/shared';
+
+class RateService {
+  async getRatePlan(propertyId: string, organizationId: string, unitId: string) {
+    await this.findUnit(propertyId, organizationId, unitId);
+
+    return db.ratePlan.findUnique({
+      where: { unitId },
+      include: {
+        seasons: { orderBy: { startDate: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Create or replace a unit's rates. The seasons given replace all existing ones.
+   */
+  async upsertRatePlan(propertyId: string, organizationId: string, unitId: string, input: UpsertRatePlanInput) {
+    await this.findUnit(propertyId, organizationId, unitId);
+
+    const { seasons, ...rates } = input;
+
+    return db.$transaction(async (tx) => {
+      const plan = await tx.ratePlan.upsert({
+        where: { unitId },
+        create: { unitId, ...rates },
+        update: rates,
+      });
+
+      await tx.rateSeason.deleteMany({
+        where: { ratePlanId: plan.id },
+      });
+
+      if (seasons.length > 0) {
+        await tx.rateSeason.createMany({
+          data: seasons.map((season) => ({ ...season, ratePlanId: plan.id })),
+        });
+      }
+
+      return tx.ratePlan.findUniqueOrThrow({
+        where: { id: plan.id },
+        include: {
+          seasons: { orderBy: { startDate: 'asc' } },
+        },
+      });
+    });
+  }
+
+  async listTaxRates(propertyId: string, organizationId: string) {
+    await this.findProperty(propertyId, organizationId);
+
+    return db.taxRate.findMany({
+      where: { propertyId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async createTaxRate(propertyId: string, organizationId: string, input: CreateTaxRateInput) {
+    await this.findProperty(propertyId, organizationId);
+
+    return db.taxRate.create({
+      data: {
+        propertyId,
+        name: input.name,
+        percent: input.percent,
+        appliesToCleaningFee: input.appliesToCleaningFee,
+      },
+    });
+  }
+
+  async deleteTaxRate(propertyId: string, organizationId: string, taxRateId: string) {
+    await this.findProperty(propertyId, organizationId);
+
+    const existing = await db.taxRate.findFirst({
+      where: { id: taxRateId, propertyId },
+    });
+
+    if (!existing) {
+      throw new Error('Tax rate not found');
+    }
+
+    await db.taxRate.delete({
+      where: { id: taxRateId },
+    });
+  }
+
+  private async findProperty(propertyId: string, organizationId: string) {
+    const property = await db.property.findFirst({
+      where: { id: propertyId, organizationId },
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    return property;
+  }
+
+  private async findUnit(propertyId: string, organizationId: string, unitId: string) {
+    const unit = await db.unit.findFirst({
+      where: {
+        id: unitId,
+        propertyId,
+        property: { organizationId },
+      },
+    });
+
+    if (!unit) {
+      throw new Error('Unit not found');
+    }
+
+    return unit;
+  }
+}
+
+export const rateService = new RateService();
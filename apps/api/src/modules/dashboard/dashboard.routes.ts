@@ -1,16 +1,18 @@
 import { FastifyPluginAsync } from 'fastify';
-import { authenticate, getCurrentUserId } from '../../lib/auth.js';
+import { authenticate, getOrganizationId, requireRole } from '../../lib/auth.js';
 import { success } from '../../lib/response.js';
 import { dashboardService } from './dashboard.service.js';
 
 export const dashboardRoutes: FastifyPluginAsync = async (fastify) => {
   // Apply auth to all routes
   fastify.addHook('preHandler', authenticate);
+  // Cleaners and maintenance staff only work through their tasks
+  fastify.addHook('preHandler', requireRole('owner', 'co_host'));
 
   // Get dashboard summary
   fastify.get('/summary', async (request, reply) => {
-    const userId = getCurrentUserId(request);
-    const summary = await dashboardService.getSummary(userId);
+    const organizationId = getOrganizationId(request);
+    const summary = await dashboardService.getSummary(organizationId);
     success(reply, summary);
   });
 };
@@ -1,18 +1,15 @@
 import { db } from '@unifiedstay/database';
-import { startOfMonth, endOfMonth, addDays } from 'date-fns';
 import type { DashboardSummary } from '@unifiedstay/shared';
+import { addCalendarDays, getLocalToday, getMonthRange } from '../../lib/timezone.js';
 
-class DashboardService {
-  async getSummary(userId: string): Promise<DashboardSummary> {
-    const today = new Date();
-    const nextWeek = addDays(today, 7);
-    const monthStart = startOfMonth(today);
-    const monthEnd = endOfMonth(today);
+const DAY_MS = 24 * 60 * 60 * 1000;
 
+class DashboardService {
+  async getSummary(organizationId: string): Promise<DashboardSummary> {
     // Get user's properties
     const properties = await db.property.findMany({
-      where: { userId },
-      select: { id: true },
+      where: { organizationId },
+      select: { id: true, timezone: true, units: { select: { id: true } } },
     });
 
     const propertyIds = properties.map((p) => p.id);
@@ -29,21 +26,27 @@ class DashboardService {
       };
     }
 
-    // Get units for these properties
-    const units = await db.unit.findMany({
-      where: { propertyId: { in: propertyIds } },
-      select: { id: true },
+    const unitIds = properties.flatMap((p) => p.units.map((u) => u.id));
+
+    // "Today" and "this month" are local to each property
+    const windows = properties.map((p) => {
+      const today = getLocalToday(p.timezone);
+      return {
+        propertyId: p.id,
+        unitIds: p.units.map((u) => u.id),
+        today,
+        nextWeek: addCalendarDays(today, 7),
+        ...getMonthRange(today),
+      };
     });
-    const unitIds = units.map((u) => u.id);
 
     // Upcoming check-ins (next 7 days)
     const upcomingCheckIns = await db.reservation.count({
       where: {
-        unitId: { in: unitIds },
-        checkIn: {
-          gte: today,
-          lte: nextWeek,
-        },
+        OR: windows.map((w) => ({
+          unitId: { in: w.unitIds },
+          checkIn: { gte: w.today, lte: w.nextWeek },
+        })),
         status: { in: ['confirmed', 'pending'] },
       },
     });
@@ -51,11 +54,10 @@ class DashboardService {
     // Upcoming check-outs (next 7 days)
     const upcomingCheckOuts = await db.reservation.count({
       where: {
-        unitId: { in: unitIds },
-        checkOut: {
-          gte: today,
-          lte: nextWeek,
-        },
+        OR: windows.map((w) => ({
+          unitId: { in: w.unitIds },
+          checkOut: { gte: w.today, lte: w.nextWeek },
+        })),
         status: { in: ['confirmed', 'pending'] },
       },
     });
@@ -68,14 +70,22 @@ class DashboardService {
       },
     });
 
+    // Unresolved double bookings (turnover warnings are not counted)
+    const activeConflicts = await db.conflict.count({
+      where: {
+        unitId: { in: unitIds },
+        severity: 'overlap',
+        status: { in: ['open', 'acknowledged'] },
+      },
+    });
+
     // Monthly revenue
     const revenueAgg = await db.revenue.aggregate({
       where: {
-        propertyId: { in: propertyIds },
-        date: {
-          gte: monthStart,
-          lte: monthEnd,
-        },
+        OR: windows.map((w) => ({
+          propertyId: w.propertyId,
+          date: { gte: w.start, lte: w.end },
+        })),
       },
       _sum: {
         amount: true,
@@ -85,57 +95,53 @@ class DashboardService {
     // Monthly expenses
     const expenseAgg = await db.expense.aggregate({
       where: {
-        propertyId: { in: propertyIds },
-        date: {
-          gte: monthStart,
-          lte: monthEnd,
-        },
+        OR: windows.map((w) => ({
+          propertyId: w.propertyId,
+          date: { gte: w.start, lte: w.end },
+        })),
       },
       _sum: {
         amount: true,
       },
     });
 
-    // Calculate occupancy rate (simplified - based on reservations this month)
-    const daysInMonth = monthEnd.getDate();
-    const totalPossibleDays = unitIds.length * daysInMonth;
-    
-    const reservations = await db.reservation.findMany({
-      where: {
-        unitId: { in: unitIds },
-        status: { in: ['confirmed', 'completed'] },
-        OR: [
-          {
-            checkIn: { gte: monthStart, lte: monthEnd },
-          },
-          {
-            checkOut: { gte: monthStart, lte: monthEnd },
-          },
-          {
-            AND: [
-              { checkIn: { lte: monthStart } },
-              { checkOut: { gte: monthEnd } },
-            ],
-          },
-        ],
-      },
-    });
-
-    let bookedDays = 0;
-    for (const res of reservations) {
-      const checkIn = new Date(res.checkIn) < monthStart ? monthStart : new Date(res.checkIn);
-      const checkOut = new Date(res.checkOut) > monthEnd ? monthEnd : new Date(res.checkOut);
-      const days = Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24));
-      bookedDays += Math.max(0, days);
+    // Occupancy: booked nights over available nights in each property's current month
+    let totalPossibleNights = 0;
+    let bookedNights = 0;
+
+    for (const w of windows) {
+      if (w.unitIds.length === 0) {
+        continue;
+      }
+
+      // The month runs up to midnight after its last day
+      const monthEnd = addCalendarDays(w.end, 1);
+      totalPossibleNights += w.unitIds.length * w.end.getUTCDate();
+
+      const reservations = await db.reservation.findMany({
+        where: {
+          unitId: { in: w.unitIds },
+          status: { in: ['confirmed', 'completed'] },
+          checkIn: { lt: monthEnd },
+          checkOut: { gt: w.start },
+        },
+        select: { checkIn: true, checkOut: true },
+      });
+
+      for (const res of reservations) {
+        const checkIn = res.checkIn < w.start ? w.start : res.checkIn;
+        const checkOut = res.checkOut > monthEnd ? monthEnd : res.checkOut;
+        bookedNights += Math.max(0, Math.round((checkOut.getTime() - checkIn.getTime()) / DAY_MS));
+      }
     }
 
-    const occupancyRate = totalPossibleDays > 0 ? bookedDays / totalPossibleDays : 0;
+    const occupancyRate = totalPossibleNights > 0 ? bookedNights / totalPossibleNights : 0;
 
     return {
       upcomingCheckIns,
       upcomingCheckOuts,
       pendingTasks,
-      activeConflicts: 0, // TODO: Implement conflict detection
+      activeConflicts,
       occupancyRate: Math.min(1, occupancyRate),
       monthlyRevenue: Number(revenueAgg._sum.amount ?? 0),
       monthlyExpenses: Number(expenseAgg._sum.amount ?? 0),
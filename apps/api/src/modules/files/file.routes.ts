@@ -0,0 +1,40 @@
+import { FastifyPluginAsync } from 'fastify';
+import { error } from '../../lib/response.js';
+import { LocalDiskStorage, storage } from '../../lib/storage.js';
+
+const contentTypes: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+};
+
+// Files kept by the local storage driver - authenticated by the signed link
+// from storage.getUrl, not JWT, so they load in <img> tags
+export const fileRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.get('/*', async (request, reply) => {
+    const key = (request.params as { '*': string })['*'];
+    const query = request.query as { expires?: string; signature?: string };
+
+    if (
+      !(storage instanceof LocalDiskStorage) ||
+      !storage.verify(key, Number(query.expires), query.signature ?? '')
+    ) {
+      error(reply, 'NOT_FOUND', 'File not found', 404);
+      return;
+    }
+
+    try {
+      const file = await storage.read(key);
+      const extension = key.slice(key.lastIndexOf('.') + 1);
+
+      reply
+        .header('Content-Type', contentTypes[extension] ?? 'application/octet-stream')
+        .header('X-Content-Type-Options', 'nosniff')
+        .header('Cache-Control', 'private, max-age=3600')
+        .send(file);
+    } catch {
+      error(reply, 'NOT_FOUND', 'File not found', 404);
+    }
+  });
+};
@@ -1,29 +1,30 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
-import { authenticate, getCurrentUserId } from '../../lib/auth.js';
+import { authenticate, getOrganizationId, requireRole } from '../../lib/auth.js';
 import { success, error } from '../../lib/response.js';
 import { financeService } from './finance.service.js';
 import { createExpenseSchema, createRevenueSchema } from '@unifiedstay/shared';
-import { parsePayoutCSV } from './payout-parser.js';
 import { parseEarningsPDF } from './pdf-parser.js';
 
 export const financeRoutes: FastifyPluginAsync = async (fastify) => {
   // Apply auth to all routes
   fastify.addHook('preHandler', authenticate);
+  // Cleaners and maintenance staff only work through their tasks
+  fastify.addHook('preHandler', requireRole('owner', 'co_host', 'bookkeeper'));
 
   // Get finance summary
   fastify.get('/summary', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const query = request.query as { propertyId?: string; period?: string };
-    const summary = await financeService.getSummary(userId, query);
+    const summary = await financeService.getSummary(organizationId, query);
     success(reply, summary);
   });
 
   // Get expenses
   fastify.get('/expenses', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const query = request.query as { propertyId?: string; category?: string; limit?: string };
-    const expenses = await financeService.getExpenses(userId, {
+    const expenses = await financeService.getExpenses(organizationId, {
       propertyId: query.propertyId,
       category: query.category,
       limit: query.limit ? parseInt(query.limit) : undefined,
@@ -34,9 +35,9 @@ export const financeRoutes: FastifyPluginAsync = async (fastify) => {
   // Create expense
   fastify.post('/expenses', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const body = createExpenseSchema.parse(request.body);
-      const expense = await financeService.createExpense(userId, body);
+      const expense = await financeService.createExpense(organizationId, body);
       success(reply, expense, 201);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -51,11 +52,11 @@ export const financeRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Delete expense
   fastify.delete('/expenses/:id', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const { id } = request.params as { id: string };
 
     try {
-      await financeService.deleteExpense(userId, id);
+      await financeService.deleteExpense(organizationId, id);
       success(reply, { message: 'Expense deleted successfully' });
     } catch (err) {
       if (err instanceof Error) {
@@ -66,9 +67,9 @@ export const financeRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get revenues
   fastify.get('/revenues', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const query = request.query as { propertyId?: string; limit?: string };
-    const revenues = await financeService.getRevenues(userId, {
+    const revenues = await financeService.getRevenues(organizationId, {
       propertyId: query.propertyId,
       limit: query.limit ? parseInt(query.limit) : undefined,
     });
@@ -78,9 +79,9 @@ export const financeRoutes: FastifyPluginAsync = async (fastify) => {
   // Create revenue
   fastify.post('/revenues', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const body = createRevenueSchema.parse(request.body);
-      const revenue = await financeService.createRevenue(userId, body);
+      const revenue = await financeService.createRevenue(organizationId, body);
       success(reply, revenue, 201);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -95,9 +96,9 @@ export const financeRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Get P&L by property
   fastify.get('/pnl', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const query = request.query as { start?: string; end?: string };
-    const pnl = await financeService.getPnLByProperty(userId, {
+    const pnl = await financeService.getPnLByProperty(organizationId, {
       start: query.start ? new Date(query.start) : undefined,
       end: query.end ? new Date(query.end) : undefined,
     });
@@ -107,7 +108,7 @@ export const financeRoutes: FastifyPluginAsync = async (fastify) => {
   // Import payouts from CSV
   fastify.post('/import', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const body = request.body as { 
         csvContent: string; 
         propertyId: string;
@@ -119,35 +120,46 @@ export const financeRoutes: FastifyPluginAsync = async (fastify) => {
         return;
       }
 
-      // Parse CSV
-      const payouts = parsePayoutCSV(body.csvContent, body.channel);
-      
-      if (payouts.length === 0) {
-        error(reply, 'PARSE_ERROR', 'No valid payouts found in CSV. Please check the file format.', 400);
-        return;
+      // Import payouts as revenue (large files are queued for the worker)
+      const result = await financeService.importPayoutCSV(
+        organizationId,
+        body.propertyId,
+        body.csvContent,
+        body.channel
+      );
+      success(reply, result, result.queued ? 202 : 200);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'IMPORT_ERROR', err.message, 400);
       }
+    }
+  });
 
-      // Import payouts as revenue
-      const result = await financeService.importPayouts(userId, body.propertyId, payouts);
-      success(reply, result);
+  // Get progress of a queued CSV import
+  fastify.get('/import/jobs/:jobId', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { jobId } = request.params as { jobId: string };
+      const job = await financeService.getImportJob(organizationId, jobId);
+      success(reply, job);
     } catch (err) {
       if (err instanceof Error) {
-        error(reply, 'IMPORT_ERROR', err.message, 400);
+        error(reply, 'NOT_FOUND', err.message, 404);
       }
     }
   });
 
   // Get last import info
   fastify.get('/import/status', async (request, reply) => {
-    const userId = getCurrentUserId(request);
-    const status = await financeService.getImportStatus(userId);
+    const organizationId = getOrganizationId(request);
+    const status = await financeService.getImportStatus(organizationId);
     success(reply, status);
   });
 
   // Import from PDF
   fastify.post('/import/pdf', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const body = request.body as { 
         pdfBase64: string;
         propertyMappings: { pdfPropertyName: string; propertyId: string }[];
@@ -179,7 +191,11 @@ export const financeRoutes: FastifyPluginAsync = async (fastify) => {
       }
 
       // Import with mappings
-      const result = await financeService.importPDFReport(userId, report, body.propertyMappings);
+      const result = await financeService.importPDFReport(
+        organizationId,
+        report,
+        body.propertyMappings
+      );
       success(reply, result);
     } catch (err) {
       console.error('PDF import error:', err);
@@ -1,9 +1,13 @@
 import { db } from '@unifiedstay/database';
-import { startOfMonth, endOfMonth, subMonths } from 'date-fns';
 import type { CreateExpenseInput, CreateRevenueInput } from '@unifiedstay/shared';
-import type { ParsedPayout } from './payout-parser.js';
+import { jobQueue } from '../../lib/queue.js';
+import { addCalendarDays, getLocalToday, getMonthRange } from '../../lib/timezone.js';
+import { parsePayoutCSV, type ParsedPayout } from './payout-parser.js';
 import type { ParsedPDFReport } from './pdf-parser.js';
 
+// CSV imports with more rows than this are handed to the worker
+const BACKGROUND_IMPORT_THRESHOLD = 200;
+
 interface FinanceSummary {
   totalRevenue: number;
   totalExpenses: number;
@@ -14,20 +18,18 @@ interface FinanceSummary {
 
 class FinanceService {
   async getSummary(
-    userId: string,
+    organizationId: string,
     filters: { propertyId?: string; period?: string }
   ): Promise<FinanceSummary> {
     const properties = await db.property.findMany({
       where: {
-        userId,
+        organizationId,
         ...(filters.propertyId ? { id: filters.propertyId } : {}),
       },
-      select: { id: true },
+      select: { id: true, timezone: true },
     });
 
-    const propertyIds = properties.map((p) => p.id);
-
-    if (propertyIds.length === 0) {
+    if (properties.length === 0) {
       return {
         totalRevenue: 0,
         totalExpenses: 0,
@@ -37,40 +39,33 @@ class FinanceService {
       };
     }
 
-    const now = new Date();
-    const currentMonthStart = startOfMonth(now);
-    const currentMonthEnd = endOfMonth(now);
-    const lastMonthStart = startOfMonth(subMonths(now, 1));
-    const lastMonthEnd = endOfMonth(subMonths(now, 1));
+    // Months follow each property's local calendar
+    const months = properties.map((p) => {
+      const current = getMonthRange(getLocalToday(p.timezone));
+      return { propertyId: p.id, current, last: getMonthRange(addCalendarDays(current.start, -1)) };
+    });
+    const inMonth = (period: 'current' | 'last') =>
+      months.map((m) => ({
+        propertyId: m.propertyId,
+        date: { gte: m[period].start, lte: m[period].end },
+      }));
 
     // Current month aggregations
     const [currentRevenue, currentExpenses, lastRevenue, lastExpenses] = await Promise.all([
       db.revenue.aggregate({
-        where: {
-          propertyId: { in: propertyIds },
-          date: { gte: currentMonthStart, lte: currentMonthEnd },
-        },
+        where: { OR: inMonth('current') },
         _sum: { amount: true },
       }),
       db.expense.aggregate({
-        where: {
-          propertyId: { in: propertyIds },
-          date: { gte: currentMonthStart, lte: currentMonthEnd },
-        },
+        where: { OR: inMonth('current') },
         _sum: { amount: true },
       }),
       db.revenue.aggregate({
-        where: {
-          propertyId: { in: propertyIds },
-          date: { gte: lastMonthStart, lte: lastMonthEnd },
-        },
+        where: { OR: inMonth('last') },
         _sum: { amount: true },
       }),
       db.expense.aggregate({
-        where: {
-          propertyId: { in: propertyIds },
-          date: { gte: lastMonthStart, lte: lastMonthEnd },
-        },
+        where: { OR: inMonth('last') },
         _sum: { amount: true },
       }),
     ]);
@@ -101,12 +96,12 @@ class FinanceService {
   }
 
   async getExpenses(
-    userId: string,
+    organizationId: string,
     filters: { propertyId?: string; category?: string; limit?: number }
   ) {
     const properties = await db.property.findMany({
       where: {
-        userId,
+        organizationId,
         ...(filters.propertyId ? { id: filters.propertyId } : {}),
       },
       select: { id: true },
@@ -129,10 +124,10 @@ class FinanceService {
     });
   }
 
-  async createExpense(userId: string, input: CreateExpenseInput) {
+  async createExpense(organizationId: string, input: CreateExpenseInput) {
     // Verify property ownership
     const property = await db.property.findFirst({
-      where: { id: input.propertyId, userId },
+      where: { id: input.propertyId, organizationId },
     });
 
     if (!property) {
@@ -156,11 +151,11 @@ class FinanceService {
     });
   }
 
-  async deleteExpense(userId: string, expenseId: string) {
+  async deleteExpense(organizationId: string, expenseId: string) {
     const expense = await db.expense.findFirst({
       where: {
         id: expenseId,
-        property: { userId },
+        property: { organizationId },
       },
     });
 
@@ -173,10 +168,10 @@ class FinanceService {
     });
   }
 
-  async getRevenues(userId: string, filters: { propertyId?: string; limit?: number }) {
+  async getRevenues(organizationId: string, filters: { propertyId?: string; limit?: number }) {
     const properties = await db.property.findMany({
       where: {
-        userId,
+        organizationId,
         ...(filters.propertyId ? { id: filters.propertyId } : {}),
       },
       select: { id: true },
@@ -201,10 +196,10 @@ class FinanceService {
     });
   }
 
-  async createRevenue(userId: string, input: CreateRevenueInput) {
+  async createRevenue(organizationId: string, input: CreateRevenueInput) {
     // Verify property ownership
     const property = await db.property.findFirst({
-      where: { id: input.propertyId, userId },
+      where: { id: input.propertyId, organizationId },
     });
 
     if (!property) {
@@ -228,21 +223,24 @@ class FinanceService {
     });
   }
 
-  async getPnLByProperty(userId: string, options: { start?: Date; end?: Date }) {
-    const start = options.start || startOfMonth(new Date());
-    const end = options.end || endOfMonth(new Date());
-
+  async getPnLByProperty(organizationId: string, options: { start?: Date; end?: Date }) {
     const properties = await db.property.findMany({
-      where: { userId },
+      where: { organizationId },
       select: {
         id: true,
         name: true,
+        timezone: true,
       },
     });
 
     const pnlData = [];
 
     for (const property of properties) {
+      // Default to the property's current local month
+      const month = getMonthRange(getLocalToday(property.timezone));
+      const start = options.start || month.start;
+      const end = options.end || month.end;
+
       const [revenueAgg, expenseAgg] = await Promise.all([
         db.revenue.aggregate({
           where: {
@@ -276,16 +274,31 @@ class FinanceService {
     return pnlData;
   }
 
-  async importPayouts(userId: string, propertyId: string, payouts: ParsedPayout[]) {
+  async importPayouts(organizationId: string, propertyId: string, payouts: ParsedPayout[]) {
     // Verify property ownership
     const property = await db.property.findFirst({
-      where: { id: propertyId, userId },
+      where: { id: propertyId, organizationId },
     });
 
     if (!property) {
       throw new Error('Property not found');
     }
 
+    // Match payouts to reservations by the channel confirmation code
+    const refs = payouts.map((p) => p.reservationRef).filter((ref): ref is string => !!ref);
+    const reservations = refs.length
+      ? await db.reservation.findMany({
+          where: {
+            externalId: { in: refs },
+            unit: { propertyId },
+          },
+          select: { id: true, channel: true, externalId: true },
+        })
+      : [];
+    const reservationIdByRef = new Map(
+      reservations.map((r) => [`${r.channel}:${r.externalId}`, r.id])
+    );
+
     let imported = 0;
     let skipped = 0;
 
@@ -309,6 +322,9 @@ class FinanceService {
       await db.revenue.create({
         data: {
           propertyId,
+          reservationId: payout.reservationRef
+            ? reservationIdByRef.get(`${payout.channel}:${payout.reservationRef}`)
+            : undefined,
           channel: payout.channel,
           amount: payout.amount,
           date: payout.date,
@@ -326,9 +342,69 @@ class FinanceService {
     };
   }
 
-  async getImportStatus(userId: string) {
+  /**
+   * Import payouts from a CSV export. Small files are imported straight away;
+   * large ones are queued for the worker and can be polled with getImportJob.
+   */
+  async importPayoutCSV(
+    organizationId: string,
+    propertyId: string,
+    csvContent: string,
+    channel?: 'airbnb' | 'vrbo'
+  ) {
+    const payouts = parsePayoutCSV(csvContent, channel);
+
+    if (payouts.length === 0) {
+      throw new Error('No valid payouts found in CSV. Please check the file format.');
+    }
+
+    if (payouts.length <= BACKGROUND_IMPORT_THRESHOLD) {
+      const result = await this.importPayouts(organizationId, propertyId, payouts);
+      return { queued: false as const, ...result };
+    }
+
+    // Check ownership now so a bad request fails before it is queued
+    const property = await db.property.findFirst({
+      where: { id: propertyId, organizationId },
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    const job = await jobQueue.add('payout-import', {
+      organizationId,
+      propertyId,
+      csvContent,
+      channel,
+    });
+
+    return { queued: true as const, jobId: job.id!, total: payouts.length };
+  }
+
+  /**
+   * Get the state of a queued payout import
+   */
+  async getImportJob(organizationId: string, jobId: string) {
+    const job = await jobQueue.getJob(jobId);
+
+    if (!job || job.name !== 'payout-import' || (job.data as { organizationId: string }).organizationId !== organizationId) {
+      throw new Error('Import not found');
+    }
+
+    const state = await job.getState();
+
+    return {
+      jobId,
+      state,
+      result: state === 'completed' ? (job.returnvalue as Awaited<ReturnType<FinanceService['importPayouts']>>) : null,
+      error: state === 'failed' ? job.failedReason : null,
+    };
+  }
+
+  async getImportStatus(organizationId: string) {
     const properties = await db.property.findMany({
-      where: { userId },
+      where: { organizationId },
       select: { id: true },
     });
 
@@ -359,7 +435,7 @@ class FinanceService {
   }
 
   async importPDFReport(
-    userId: string,
+    organizationId: string,
     report: ParsedPDFReport,
     propertyMappings: { pdfPropertyName: string; propertyId: string }[]
   ) {
@@ -381,7 +457,7 @@ class FinanceService {
 
       // Verify property ownership
       const property = await db.property.findFirst({
-        where: { id: mapping.propertyId, userId },
+        where: { id: mapping.propertyId, organizationId },
       });
 
       if (!property) {
@@ -0,0 +1,65 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { authenticate, getOrganizationId, requireRole } from '../../lib/auth.js';
+import { success, successWithMeta, error } from '../../lib/response.js';
+import { guestService } from './guest.service.js';
+import { guestQuerySchema, updateGuestSchema } from '@unifiedstay/shared';
+
+export const guestRoutes: FastifyPluginAsync = async (fastify) => {
+  // Apply auth to all routes
+  fastify.addHook('preHandler', authenticate);
+  // Cleaners and maintenance staff only work through their tasks
+  fastify.addHook('preHandler', requireRole('owner', 'co_host'));
+
+  // Search guests
+  fastify.get('/', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const query = guestQuerySchema.parse(request.query);
+      const { guests, total } = await guestService.getAll(organizationId, query);
+      successWithMeta(reply, guests, { page: query.page, limit: query.limit, total });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Get guest with stay history
+  fastify.get('/:id', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      const guest = await guestService.getById(organizationId, id);
+      success(reply, guest);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Update guest details, notes and tags
+  fastify.patch('/:id', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const body = updateGuestSchema.parse(request.body);
+      const guest = await guestService.update(organizationId, id, body);
+      success(reply, guest);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+};
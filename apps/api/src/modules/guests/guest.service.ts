@@ -0,0 +1,218 @@
+import { db, Prisma } from '@unifiedstay/database';
+import type { GuestQuery, UpdateGuestInput } from '@unifiedstay/shared';
+
+interface GuestContact {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export function normalizeEmail(email?: string | null): string | null {
+  return email?.trim().toLowerCase() || null;
+}
+
+/**
+ * Reduce a phone number to digits with an optional leading +. Masked numbers
+ * from channel feeds (e.g. "***1234") and fragments can't identify a guest.
+ */
+export function normalizePhone(phone?: string | null): string | null {
+  if (!phone || phone.includes('*')) {
+    return null;
+  }
+
+  const normalized = phone.trim().replace(/(?!^\+)[^\d]/g, '');
+  return normalized.replace(/\D/g, '').length >= 7 ? normalized : null;
+}
+
+class GuestService {
+  async getAll(organizationId: string, query: GuestQuery) {
+    const search = query.search;
+    const phoneSearch = search ? search.replace(/[^\d]/g, '') : '';
+
+    const where: Prisma.GuestWhereInput = {
+      organizationId,
+      ...(query.tag ? { tags: { has: query.tag } } : {}),
+      ...(search
+        ? {
+            OR: [
+              { name: { contains: search, mode: 'insensitive' } },
+              { email: { contains: search.toLowerCase() } },
+              ...(phoneSearch.length >= 3 ? [{ phone: { contains: phoneSearch } }] : []),
+            ],
+          }
+        : {}),
+    };
+
+    const [guests, total] = await Promise.all([
+      db.guest.findMany({
+        where,
+        include: {
+          _count: { select: { reservations: true } },
+        },
+        orderBy: { name: 'asc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      db.guest.count({ where }),
+    ]);
+
+    return { guests, total };
+  }
+
+  /**
+   * A guest with every stay and the revenue recorded against those stays
+   */
+  async getById(organizationId: string, guestId: string) {
+    const guest = await db.guest.findFirst({
+      where: { id: guestId, organizationId },
+      include: {
+        reservations: {
+          include: {
+            unit: {
+              select: {
+                id: true,
+                name: true,
+                property: { select: { id: true, name: true } },
+              },
+            },
+          },
+          orderBy: { checkIn: 'desc' },
+        },
+      },
+    });
+
+    if (!guest) {
+      throw new Error('Guest not found');
+    }
+
+    const revenue = await db.revenue.aggregate({
+      where: { reservationId: { in: guest.reservations.map((r) => r.id) } },
+      _sum: { amount: true },
+    });
+
+    const stays = guest.reservations.filter((r) => r.status !== 'cancelled');
+
+    return {
+      ...guest,
+      stayCount: stays.length,
+      nightCount: stays.reduce(
+        (sum, r) => sum + Math.round((r.checkOut.getTime() - r.checkIn.getTime()) / (24 * 60 * 60 * 1000)),
+        0
+      ),
+      totalRevenue: Number(revenue._sum.amount ?? 0),
+    };
+  }
+
+  async update(organizationId: string, guestId: string, input: UpdateGuestInput) {
+    const existing = await db.guest.findFirst({
+      where: { id: guestId, organizationId },
+    });
+
+    if (!existing) {
+      throw new Error('Guest not found');
+    }
+
+    return db.guest.update({
+      where: { id: guestId },
+      data: {
+        name: input.name,
+        email: input.email === undefined ? undefined : normalizeEmail(input.email),
+        phone: input.phone === undefined ? undefined : normalizePhone(input.phone),
+        notes: input.notes,
+        tags: input.tags ? [...new Set(input.tags.map((tag) => tag.toLowerCase()))] : undefined,
+      },
+    });
+  }
+
+  /**
+   * Find the organization's guest with the same email or phone, filling in whichever
+   * the profile is missing, or start a new profile. Without an email or phone
+   * nothing can be matched, so a profile is only created when asked to.
+   */
+  async findOrCreate(
+    organizationId: string,
+    contact: GuestContact,
+    options: { createWithoutContact?: boolean } = {}
+  ) {
+    const email = normalizeEmail(contact.email);
+    const phone = normalizePhone(contact.phone);
+
+    if (!email && !phone) {
+      return options.createWithoutContact
+        ? db.guest.create({ data: { organizationId, name: contact.name } })
+        : null;
+    }
+
+    const matches: Prisma.GuestWhereInput[] = [];
+    if (email) matches.push({ email });
+    if (phone) matches.push({ phone });
+
+    const existing = await db.guest.findFirst({
+      where: { organizationId, OR: matches },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!existing) {
+      return db.guest.create({
+        data: { organizationId, name: contact.name, email, phone },
+      });
+    }
+
+    if ((!existing.email && email) || (!existing.phone && phone)) {
+      return db.guest.update({
+        where: { id: existing.id },
+        data: {
+          email: existing.email ?? email,
+          phone: existing.phone ?? phone,
+        },
+      });
+    }
+
+    return existing;
+  }
+
+  /**
+   * Link synced reservations in units to guest profiles by their email or phone
+   */
+  async linkUnits(unitIds: string[]) {
+    if (unitIds.length === 0) {
+      return;
+    }
+
+    const reservations = await db.reservation.findMany({
+      where: {
+        unitId: { in: unitIds },
+        // Direct bookings get their profile when booked or, for booking requests, confirmed
+        channel: { not: 'direct' },
+        guestId: null,
+        OR: [{ guestEmail: { not: null } }, { guestPhone: { not: null } }],
+      },
+      select: {
+        id: true,
+        guestName: true,
+        guestEmail: true,
+        guestPhone: true,
+        unit: {
+          select: { property: { select: { organizationId: true } } },
+        },
+      },
+    });
+
+    for (const reservation of reservations) {
+      const guest = await this.findOrCreate(reservation.unit.property.organizationId, {
+        name: reservation.guestName,
+        email: reservation.guestEmail,
+        phone: reservation.guestPhone,
+      });
+
+      if (guest) {
+        await db.reservation.update({
+          where: { id: reservation.id },
+          data: { guestId: guest.id },
+        });
+      }
+    }
+  }
+}
+
+export const guestService = new GuestService();
@@ -0,0 +1,41 @@
+import { FastifyPluginAsync } from 'fastify';
+import { authenticate, getCurrentUserId, getOrganizationId } from '../../lib/auth.js';
+import { success, error } from '../../lib/response.js';
+import { notificationService } from './notification.service.js';
+
+export const notificationRoutes: FastifyPluginAsync = async (fastify) => {
+  // Apply auth to all routes
+  fastify.addHook('preHandler', authenticate);
+
+  // Get the current member's notifications
+  fastify.get('/', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const userId = getCurrentUserId(request);
+    const notifications = await notificationService.getAll(organizationId, userId);
+    success(reply, notifications);
+  });
+
+  // Mark every notification read
+  fastify.post('/read-all', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const userId = getCurrentUserId(request);
+    await notificationService.markAllRead(organizationId, userId);
+    success(reply, { message: 'Notifications marked read' });
+  });
+
+  // Mark a notification read
+  fastify.post('/:id/read', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const userId = getCurrentUserId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      await notificationService.markRead(organizationId, userId, id);
+      success(reply, { message: 'Notification marked read' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+};
@@ -0,0 +1,60 @@
+import { db } from '@unifiedstay/database';
+
+class NotificationService {
+  /**
+   * Notify every owner of an organization, e.g. when a task is escalated
+   */
+  async notifyOwners(organizationId: string, message: string, taskId?: string) {
+    const owners = await db.organizationMember.findMany({
+      where: { organizationId, role: 'owner' },
+      select: { id: true },
+    });
+
+    await db.notification.createMany({
+      data: owners.map((owner) => ({ memberId: owner.id, taskId, message })),
+    });
+  }
+
+  /**
+   * The member's latest notifications, newest first, with how many are unread
+   */
+  async getAll(organizationId: string, userId: string) {
+    const where = { member: { organizationId, userId } };
+
+    const [notifications, unread] = await Promise.all([
+      db.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      }),
+      db.notification.count({ where: { ...where, readAt: null } }),
+    ]);
+
+    return { notifications, unread };
+  }
+
+  async markRead(organizationId: string, userId: string, id: string) {
+    const { count } = await db.notification.updateMany({
+      where: { id, member: { organizationId, userId }, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    if (count === 0) {
+      const notification = await db.notification.findFirst({
+        where: { id, member: { organizationId, userId } },
+      });
+      if (!notification) {
+        throw new Error('Notification not found');
+      }
+    }
+  }
+
+  async markAllRead(organizationId: string, userId: string) {
+    await db.notification.updateMany({
+      where: { member: { organizationId, userId }, readAt: null },
+      data: { readAt: new Date() },
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
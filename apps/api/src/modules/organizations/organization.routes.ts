@@ -0,0 +1,141 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { authenticate, getCurrentUserId, getOrganizationId, requireRole } from '../../lib/auth.js';
+import { success, error } from '../../lib/response.js';
+import { organizationService } from './organization.service.js';
+import { authService } from '../auth/auth.service.js';
+import { createInviteSchema, updateMemberSchema, updateOrganizationSchema } from '@unifiedstay/shared';
+
+// Only owners manage the organization and who's in it
+const ownersOnly = { preHandler: requireRole('owner') };
+
+// Routes other than the list and switch act on the organization the user is signed in to
+export const organizationRoutes: FastifyPluginAsync = async (fastify) => {
+  // Apply auth to all routes
+  fastify.addHook('preHandler', authenticate);
+
+  // Get the organizations the user belongs to
+  fastify.get('/', async (request, reply) => {
+    const userId = getCurrentUserId(request);
+    const organizations = await organizationService.getForUser(userId);
+    success(reply, organizations);
+  });
+
+  // Switch to another organization, returning a token scoped to it
+  fastify.post('/:id/switch', async (request, reply) => {
+    const userId = getCurrentUserId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      const result = await authService.switchOrganization(userId, id, fastify);
+      success(reply, result);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Rename the current organization
+  fastify.patch('/current', ownersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const body = updateOrganizationSchema.parse(request.body);
+      const organization = await organizationService.update(organizationId, body);
+      success(reply, organization);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Get members and pending invites
+  fastify.get('/members', ownersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const result = await organizationService.getMembers(organizationId);
+    success(reply, result);
+  });
+
+  // Get everyone tasks can be assigned to
+  fastify.get(
+    '/assignees',
+    { preHandler: requireRole('owner', 'co_host') },
+    async (request, reply) => {
+      const organizationId = getOrganizationId(request);
+      const assignees = await organizationService.getAssignees(organizationId);
+      success(reply, assignees);
+    }
+  );
+
+  // Invite someone to the organization
+  fastify.post('/invites', ownersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const body = createInviteSchema.parse(request.body);
+      const invite = await organizationService.createInvite(organizationId, body);
+      success(reply, invite, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Revoke a pending invite
+  fastify.delete('/invites/:id', ownersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      await organizationService.deleteInvite(organizationId, id);
+      success(reply, { message: 'Invite revoked successfully' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Change a member's role
+  fastify.patch('/members/:id', ownersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const body = updateMemberSchema.parse(request.body);
+      const member = await organizationService.updateMember(organizationId, id, body);
+      success(reply, member);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Remove a member
+  fastify.delete('/members/:id', ownersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      await organizationService.removeMember(organizationId, id);
+      success(reply, { message: 'Member removed successfully' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+};
@@ -0,0 +1,238 @@
+import { db } from '@unifiedstay/database';
+import { addDays } from 'date-fns';
+import type { CreateInviteInput, UpdateMemberInput, UpdateOrganizationInput } from '@unifiedstay/shared';
+import { config } from '../../lib/config.js';
+
+const INVITE_EXPIRY_DAYS = 7;
+
+const memberInclude = {
+  user: {
+    select: { id: true, email: true, name: true },
+  },
+};
+
+// Invites are handed over as a link; there's no email delivery yet
+const withInviteLink = <T extends { token: string }>(invite: T) => ({
+  ...invite,
+  link: `${config.frontendUrl}/invite/${invite.token}`,
+});
+
+class OrganizationService {
+  /**
+   * The organizations a user belongs to, with their role in each
+   */
+  async getForUser(userId: string) {
+    const memberships = await db.organizationMember.findMany({
+      where: { userId },
+      include: {
+        organization: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map((m) => ({ ...m.organization, role: m.role }));
+  }
+
+  async getMembership(userId: string, organizationId: string) {
+    const membership = await db.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      include: {
+        organization: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    if (!membership) {
+      throw new Error('Organization not found');
+    }
+
+    return membership;
+  }
+
+  async update(organizationId: string, input: UpdateOrganizationInput) {
+    return db.organization.update({
+      where: { id: organizationId },
+      data: { name: input.name },
+      select: { id: true, name: true },
+    });
+  }
+
+  /**
+   * Members and the invites still waiting to be accepted
+   */
+  async getMembers(organizationId: string) {
+    const [members, invites] = await Promise.all([
+      db.organizationMember.findMany({
+        where: { organizationId },
+        include: memberInclude,
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.organizationInvite.findMany({
+        where: { organizationId, acceptedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    return { members, invites: invites.map(withInviteLink) };
+  }
+
+  /**
+   * Everyone tasks can be assigned to. Bookkeepers don't take tasks.
+   */
+  async getAssignees(organizationId: string) {
+    const members = await db.organizationMember.findMany({
+      where: { organizationId, role: { not: 'bookkeeper' } },
+      include: memberInclude,
+    });
+
+    return members
+      .map((m) => ({ id: m.user.id, name: m.user.name, role: m.role }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createInvite(organizationId: string, input: CreateInviteInput) {
+    const existingMember = await db.organizationMember.findFirst({
+      where: { organizationId, user: { email: input.email } },
+    });
+
+    if (existingMember) {
+      throw new Error('This person is already a member');
+    }
+
+    // A fresh invite replaces any earlier one for the same address
+    await db.organizationInvite.deleteMany({
+      where: { organizationId, email: input.email, acceptedAt: null },
+    });
+
+    const invite = await db.organizationInvite.create({
+      data: {
+        organizationId,
+        email: input.email,
+        name: input.name,
+        role: input.role,
+        expiresAt: addDays(new Date(), INVITE_EXPIRY_DAYS),
+      },
+    });
+
+    return withInviteLink(invite);
+  }
+
+  async deleteInvite(organizationId: string, inviteId: string) {
+    const invite = await db.organizationInvite.findFirst({
+      where: { id: inviteId, organizationId, acceptedAt: null },
+    });
+
+    if (!invite) {
+      throw new Error('Invite not found');
+    }
+
+    await db.organizationInvite.delete({
+      where: { id: inviteId },
+    });
+  }
+
+  /**
+   * Look up an invite that can still be accepted
+   */
+  async findOpenInvite(token: string) {
+    const invite = await db.organizationInvite.findUnique({
+      where: { token },
+      include: {
+        organization: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    if (!invite || invite.acceptedAt) {
+      throw new Error('Invite not found');
+    }
+
+    if (invite.expiresAt < new Date()) {
+      throw new Error('This invite has expired');
+    }
+
+    return invite;
+  }
+
+  async updateMember(organizationId: string, memberId: string, input: UpdateMemberInput) {
+    const member = await this.findMember(organizationId, memberId);
+
+    if (member.role === 'owner' && input.role && input.role !== 'owner') {
+      await this.assertAnotherOwner(organizationId, memberId);
+    }
+
+    return db.organizationMember.update({
+      where: { id: memberId },
+      data: { role: input.role, maxTasksPerDay: input.maxTasksPerDay },
+      include: memberInclude,
+    });
+  }
+
+  /**
+   * Remove someone from the organization. Their tasks here stay, unassigned;
+   * their account and other memberships are untouched.
+   */
+  async removeMember(organizationId: string, memberId: string) {
+    const member = await this.findMember(organizationId, memberId);
+
+    if (member.role === 'owner') {
+      await this.assertAnotherOwner(organizationId, memberId);
+    }
+
+    await db.$transaction([
+      db.task.updateMany({
+        where: { assigneeId: member.userId, property: { organizationId } },
+        data: { assigneeId: null },
+      }),
+      db.taskTemplate.updateMany({
+        where: { defaultAssigneeId: member.userId, property: { organizationId } },
+        data: { defaultAssigneeId: null },
+      }),
+      db.organizationMember.delete({
+        where: { id: memberId },
+      }),
+    ]);
+  }
+
+  /**
+   * Tasks can only go to members of the organization
+   */
+  async assertAssignable(organizationId: string, userId: string) {
+    const member = await db.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    if (!member || member.role === 'bookkeeper') {
+      throw new Error('Assignee not found');
+    }
+  }
+
+  private async findMember(organizationId: string, memberId: string) {
+    const member = await db.organizationMember.findFirst({
+      where: { id: memberId, organizationId },
+    });
+
+    if (!member) {
+      throw new Error('Member not found');
+    }
+
+    return member;
+  }
+
+  // Every organization keeps at least one owner
+  private async assertAnotherOwner(organizationId: string, memberId: string) {
+    const owners = await db.organizationMember.count({
+      where: { organizationId, role: 'owner', id: { not: memberId } },
+    });
+
+    if (owners === 0) {
+      throw new Error('An organization needs at least one owner');
+    }
+  }
+}
+
+export const organizationService = new OrganizationService();
@@ -1,28 +1,45 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
-import { authenticate, getCurrentUserId } from '../../lib/auth.js';
-import { success, error } from '../../lib/response.js';
+import { authenticate, getOrganizationId, requireRoleToWrite } from '../../lib/auth.js';
+import { success, successWithMeta, error } from '../../lib/response.js';
 import { propertyService } from './property.service.js';
-import { createPropertySchema, updatePropertySchema, createChannelMappingSchema } from '@unifiedstay/shared';
+import { bookingRuleService } from '../calendar/booking-rule.service.js';
+import { rateService } from '../calendar/rate.service.js';
+import {
+  createPropertySchema,
+  updatePropertySchema,
+  createUnitSchema,
+  updateUnitSchema,
+  createChannelMappingSchema,
+  updateChannelMappingSchema,
+  syncLogQuerySchema,
+  createBookingRuleSchema,
+  updateBookingRuleSchema,
+  upsertRatePlanSchema,
+  createTaxRateSchema,
+} from '@unifiedstay/shared';
 
 export const propertyRoutes: FastifyPluginAsync = async (fastify) => {
   // Apply auth to all routes
   fastify.addHook('preHandler', authenticate);
+  // Cleaners and maintenance staff only work through their tasks; bookkeepers
+  // can look up properties for their reports but not change them
+  fastify.addHook('preHandler', requireRoleToWrite(['owner', 'co_host'], ['bookkeeper']));
 
   // Get all properties for user
   fastify.get('/', async (request, reply) => {
-    const userId = getCurrentUserId(request);
-    const properties = await propertyService.getAll(userId);
+    const organizationId = getOrganizationId(request);
+    const properties = await propertyService.getAll(organizationId);
     success(reply, properties);
   });
 
   // Get single property
   fastify.get('/:id', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const { id } = request.params as { id: string };
 
     try {
-      const property = await propertyService.getById(id, userId);
+      const property = await propertyService.getById(id, organizationId);
       success(reply, property);
     } catch (err) {
       if (err instanceof Error) {
@@ -34,9 +51,9 @@ export const propertyRoutes: FastifyPluginAsync = async (fastify) => {
   // Create property
   fastify.post('/', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const body = createPropertySchema.parse(request.body);
-      const property = await propertyService.create(userId, body);
+      const property = await propertyService.create(organizationId, body);
       success(reply, property, 201);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -50,10 +67,10 @@ export const propertyRoutes: FastifyPluginAsync = async (fastify) => {
   // Update property
   fastify.put('/:id', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const { id } = request.params as { id: string };
       const body = updatePropertySchema.parse(request.body);
-      const property = await propertyService.update(id, userId, body);
+      const property = await propertyService.update(id, organizationId, body);
       success(reply, property);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -68,11 +85,11 @@ export const propertyRoutes: FastifyPluginAsync = async (fastify) => {
 
   // Delete property
   fastify.delete('/:id', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const { id } = request.params as { id: string };
 
     try {
-      await propertyService.delete(id, userId);
+      await propertyService.delete(id, organizationId);
       success(reply, { message: 'Property deleted successfully' });
     } catch (err) {
       if (err instanceof Error) {
@@ -81,13 +98,66 @@ export const propertyRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Add unit
+  fastify.post('/:id/units', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const body = createUnitSchema.parse(request.body);
+      const unit = await propertyService.addUnit(id, organizationId, body);
+      success(reply, unit, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Update unit
+  fastify.patch('/:id/units/:unitId', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id, unitId } = request.params as { id: string; unitId: string };
+      const body = updateUnitSchema.parse(request.body);
+      const unit = await propertyService.updateUnit(id, organizationId, unitId, body);
+      success(reply, unit);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Delete unit
+  fastify.delete('/:id/units/:unitId', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id, unitId } = request.params as { id: string; unitId: string };
+
+    try {
+      await propertyService.removeUnit(id, organizationId, unitId);
+      success(reply, { message: 'Unit deleted successfully' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
   // Add channel mapping
   fastify.post('/:id/channels', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const { id } = request.params as { id: string };
       const body = createChannelMappingSchema.parse(request.body);
-      const mapping = await propertyService.addChannelMapping(id, userId, body);
+      const mapping = await propertyService.addChannelMapping(id, organizationId, body);
       success(reply, mapping, 201);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -100,13 +170,224 @@ export const propertyRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Update channel mapping (iCal URL, classification rules)
+  fastify.patch('/:id/channels/:channelId', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id, channelId } = request.params as { id: string; channelId: string };
+      const body = updateChannelMappingSchema.parse(request.body);
+      const mapping = await propertyService.updateChannelMapping(
+        id,
+        organizationId,
+        channelId,
+        body
+      );
+      success(reply, mapping);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Get sync history for a channel mapping
+  fastify.get('/:id/channels/:channelId/sync-logs', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id, channelId } = request.params as { id: string; channelId: string };
+      const query = syncLogQuerySchema.parse(request.query);
+      const { logs, total } = await propertyService.getSyncLogs(
+        id,
+        organizationId,
+        channelId,
+        query
+      );
+      successWithMeta(reply, logs, { page: query.page, limit: query.limit, total });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Regenerate a unit's iCal export token
+  fastify.post('/:id/units/:unitId/ical-token', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id, unitId } = request.params as { id: string; unitId: string };
+
+    try {
+      const unit = await propertyService.regenerateICalToken(id, organizationId, unitId);
+      success(reply, unit);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Get booking rules
+  fastify.get('/:id/booking-rules', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const rules = await bookingRuleService.list(id, organizationId);
+      success(reply, rules);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Add booking rule
+  fastify.post('/:id/booking-rules', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const body = createBookingRuleSchema.parse(request.body);
+      const rule = await bookingRuleService.create(id, organizationId, body);
+      success(reply, rule, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Update booking rule
+  fastify.patch('/:id/booking-rules/:ruleId', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id, ruleId } = request.params as { id: string; ruleId: string };
+      const body = updateBookingRuleSchema.parse(request.body);
+      const rule = await bookingRuleService.update(id, organizationId, ruleId, body);
+      success(reply, rule);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Delete booking rule
+  fastify.delete('/:id/booking-rules/:ruleId', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id, ruleId } = request.params as { id: string; ruleId: string };
+
+    try {
+      await bookingRuleService.delete(id, organizationId, ruleId);
+      success(reply, { message: 'Booking rule deleted successfully' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Get unit rates
+  fastify.get('/:id/units/:unitId/rates', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id, unitId } = request.params as { id: string; unitId: string };
+      const ratePlan = await rateService.getRatePlan(id, organizationId, unitId);
+      success(reply, ratePlan);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Set unit rates
+  fastify.put('/:id/units/:unitId/rates', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id, unitId } = request.params as { id: string; unitId: string };
+      const body = upsertRatePlanSchema.parse(request.body);
+      const ratePlan = await rateService.upsertRatePlan(id, organizationId, unitId, body);
+      success(reply, ratePlan);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // List tax rates
+  fastify.get('/:id/tax-rates', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const taxRates = await rateService.listTaxRates(id, organizationId);
+      success(reply, taxRates);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Add tax rate
+  fastify.post('/:id/tax-rates', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const body = createTaxRateSchema.parse(request.body);
+      const taxRate = await rateService.createTaxRate(id, organizationId, body);
+      success(reply, taxRate, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Delete tax rate
+  fastify.delete('/:id/tax-rates/:taxRateId', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id, taxRateId } = request.params as { id: string; taxRateId: string };
+
+    try {
+      await rateService.deleteTaxRate(id, organizationId, taxRateId);
+      success(reply, { message: 'Tax rate deleted successfully' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
   // Delete channel mapping
   fastify.delete('/:id/channels/:channelId', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const { id, channelId } = request.params as { id: string; channelId: string };
 
     try {
-      await propertyService.removeChannelMapping(id, userId, channelId);
+      await propertyService.removeChannelMapping(id, organizationId, channelId);
       success(reply, { message: 'Channel removed successfully' });
     } catch (err) {
       if (err instanceof Error) {
@@ -1,10 +1,22 @@
-import { db } from '@unifiedstay/database';
-import type { CreatePropertyInput, UpdatePropertyInput, CreateChannelMappingInput } from '@unifiedstay/shared';
+import { randomUUID } from 'crypto';
+import { db, Prisma } from '@unifiedstay/database';
+import type {
+  CreatePropertyInput,
+  UpdatePropertyInput,
+  CreateUnitInput,
+  UpdateUnitInput,
+  CreateChannelMappingInput,
+  UpdateChannelMappingInput,
+  SyncLogQuery,
+} from '@unifiedstay/shared';
+import { getNextSyncAt } from '../../services/sync-scheduler.js';
+import { conflictService } from '../calendar/conflict.service.js';
+import { bookingRuleService } from '../calendar/booking-rule.service.js';
 
 class PropertyService {
-  async getAll(userId: string) {
+  async getAll(organizationId: string) {
     return db.property.findMany({
-      where: { userId },
+      where: { organizationId },
       include: {
         _count: {
           select: {
@@ -17,12 +29,15 @@ class PropertyService {
     });
   }
 
-  async getById(id: string, userId: string) {
+  async getById(id: string, organizationId: string) {
     const property = await db.property.findFirst({
-      where: { id, userId },
+      where: { id, organizationId },
       include: {
-        units: true,
-        channelMappings: true,
+        units: { orderBy: { createdAt: 'asc' } },
+        channelMappings: {
+          include: { unit: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -33,16 +48,24 @@ class PropertyService {
     return property;
   }
 
-  async create(userId: string, input: CreatePropertyInput) {
+  async create(organizationId: string, input: CreatePropertyInput) {
+    if (input.slug) {
+      await this.assertSlugAvailable(input.slug);
+    }
+
     // Create property with a default unit
     const property = await db.property.create({
       data: {
-        userId,
+        organizationId,
         name: input.name,
         address: input.address,
         timezone: input.timezone,
         defaultMinNights: input.defaultMinNights,
         cleaningBufferHours: input.cleaningBufferHours,
+        checkInTime: input.checkInTime,
+        checkOutTime: input.checkOutTime,
+        slug: input.slug,
+        accessNotes: input.accessNotes,
         units: {
           create: {
             name: 'Main Unit',
@@ -64,17 +87,21 @@ class PropertyService {
     return property;
   }
 
-  async update(id: string, userId: string, input: UpdatePropertyInput) {
+  async update(id: string, organizationId: string, input: UpdatePropertyInput) {
     // Verify ownership
     const existing = await db.property.findFirst({
-      where: { id, userId },
+      where: { id, organizationId },
     });
 
     if (!existing) {
       throw new Error('Property not found');
     }
 
-    return db.property.update({
+    if (input.slug && input.slug !== existing.slug) {
+      await this.assertSlugAvailable(input.slug);
+    }
+
+    const property = await db.property.update({
       where: { id },
       data: {
         name: input.name,
@@ -82,18 +109,38 @@ class PropertyService {
         timezone: input.timezone,
         defaultMinNights: input.defaultMinNights,
         cleaningBufferHours: input.cleaningBufferHours,
+        checkInTime: input.checkInTime,
+        checkOutTime: input.checkOutTime,
+        slug: input.slug,
+        accessNotes: input.accessNotes,
       },
       include: {
         units: true,
         channelMappings: true,
       },
     });
+
+    // A different cleaning buffer or turnover times change which turnovers are too tight
+    if (
+      property.cleaningBufferHours !== existing.cleaningBufferHours ||
+      property.checkInTime !== existing.checkInTime ||
+      property.checkOutTime !== existing.checkOutTime ||
+      property.timezone !== existing.timezone
+    ) {
+      await conflictService.refreshUnits(property.units.map((u) => u.id));
+    }
+
+    if (property.defaultMinNights !== existing.defaultMinNights) {
+      await bookingRuleService.flagUnits(property.units.map((u) => u.id));
+    }
+
+    return property;
   }
 
-  async delete(id: string, userId: string) {
+  async delete(id: string, organizationId: string) {
     // Verify ownership
     const existing = await db.property.findFirst({
-      where: { id, userId },
+      where: { id, organizationId },
     });
 
     if (!existing) {
@@ -105,28 +152,107 @@ class PropertyService {
     });
   }
 
-  async addChannelMapping(propertyId: string, userId: string, input: CreateChannelMappingInput) {
+  async addUnit(propertyId: string, organizationId: string, input: CreateUnitInput) {
     // Verify ownership
     const property = await db.property.findFirst({
-      where: { id: propertyId, userId },
+      where: { id: propertyId, organizationId },
     });
 
     if (!property) {
       throw new Error('Property not found');
     }
 
-    // Check if channel already exists for this property
+    return db.unit.create({
+      data: {
+        propertyId,
+        name: input.name,
+      },
+    });
+  }
+
+  async updateUnit(
+    propertyId: string,
+    organizationId: string,
+    unitId: string,
+    input: UpdateUnitInput
+  ) {
+    // Verify ownership
+    const unit = await db.unit.findFirst({
+      where: { id: unitId, propertyId, property: { organizationId } },
+    });
+
+    if (!unit) {
+      throw new Error('Unit not found');
+    }
+
+    return db.unit.update({
+      where: { id: unitId },
+      data: { name: input.name },
+    });
+  }
+
+  async removeUnit(propertyId: string, organizationId: string, unitId: string) {
+    // Verify ownership
+    const unit = await db.unit.findFirst({
+      where: { id: unitId, propertyId, property: { organizationId } },
+    });
+
+    if (!unit) {
+      throw new Error('Unit not found');
+    }
+
+    const unitCount = await db.unit.count({ where: { propertyId } });
+    if (unitCount <= 1) {
+      throw new Error('A property must have at least one unit');
+    }
+
+    // Reservations, blocks and channel mappings for the unit cascade
+    await db.unit.delete({
+      where: { id: unitId },
+    });
+  }
+
+  async addChannelMapping(
+    propertyId: string,
+    organizationId: string,
+    input: CreateChannelMappingInput
+  ) {
+    // Verify ownership
+    const property = await db.property.findFirst({
+      where: { id: propertyId, organizationId },
+      include: { units: true },
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    // Single-unit properties don't need to say which unit the listing is for
+    let unitId = input.unitId;
+    if (!unitId) {
+      if (property.units.length !== 1) {
+        throw new Error('Choose which unit this listing belongs to');
+      }
+      unitId = property.units[0].id;
+    }
+
+    const unit = property.units.find((u) => u.id === unitId);
+    if (!unit) {
+      throw new Error('Unit not found');
+    }
+
+    // Check if channel already exists for this unit
     const existing = await db.channelMapping.findUnique({
       where: {
-        propertyId_channel: {
-          propertyId,
+        unitId_channel: {
+          unitId,
           channel: input.channel,
         },
       },
     });
 
     if (existing) {
-      throw new Error(`${input.channel} channel is already connected to this property`);
+      throw new Error(`${input.channel} channel is already connected to ${unit.name}`);
     }
 
     // Determine capabilities based on what's provided
@@ -142,18 +268,122 @@ class PropertyService {
     return db.channelMapping.create({
       data: {
         propertyId,
+        unitId,
         channel: input.channel,
         externalId: input.externalId,
         iCalUrl: input.iCalUrl,
+        classificationRules: input.classificationRules,
+        syncIntervalMinutes: input.syncIntervalMinutes,
         capabilities,
       },
     });
   }
 
-  async removeChannelMapping(propertyId: string, userId: string, channelId: string) {
+  async updateChannelMapping(
+    propertyId: string,
+    organizationId: string,
+    channelId: string,
+    input: UpdateChannelMappingInput
+  ) {
+    // Verify ownership
+    const mapping = await db.channelMapping.findFirst({
+      where: { id: channelId, propertyId, property: { organizationId } },
+    });
+
+    if (!mapping) {
+      throw new Error('Channel mapping not found');
+    }
+
+    const iCalUrl = input.iCalUrl === undefined ? mapping.iCalUrl : input.iCalUrl;
+    const feedChanged = input.iCalUrl !== undefined || input.classificationRules !== undefined;
+
+    // Reschedule from the last sync so a shorter interval takes effect right away
+    const nextSyncAt =
+      input.syncIntervalMinutes !== undefined && mapping.lastSyncAt
+        ? getNextSyncAt(input.syncIntervalMinutes, mapping.consecutiveFailures, mapping.lastSyncAt)
+        : undefined;
+
+    return db.channelMapping.update({
+      where: { id: channelId },
+      data: {
+        externalId: input.externalId,
+        iCalUrl,
+        syncIntervalMinutes: input.syncIntervalMinutes,
+        nextSyncAt,
+        classificationRules:
+          input.classificationRules === null ? Prisma.DbNull : input.classificationRules,
+        capabilities: {
+          ...(mapping.capabilities as Record<string, boolean>),
+          calendarRead: !!iCalUrl,
+        },
+        // Force the next sync to re-read the feed with the new settings
+        ...(feedChanged
+          ? {
+              iCalEtag: null,
+              iCalLastModified: null,
+              iCalContentHash: null,
+              consecutiveFailures: 0,
+              nextSyncAt: null,
+            }
+          : {}),
+      },
+    });
+  }
+
+  async getSyncLogs(
+    propertyId: string,
+    organizationId: string,
+    channelId: string,
+    query: SyncLogQuery
+  ) {
+    // Verify ownership
+    const mapping = await db.channelMapping.findFirst({
+      where: { id: channelId, propertyId, property: { organizationId } },
+    });
+
+    if (!mapping) {
+      throw new Error('Channel mapping not found');
+    }
+
+    const where = {
+      channelMappingId: channelId,
+      ...(query.status ? { status: { in: query.status } } : {}),
+    };
+
+    const [logs, total] = await Promise.all([
+      db.syncLog.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      db.syncLog.count({ where }),
+    ]);
+
+    return { logs, total };
+  }
+
+  async regenerateICalToken(propertyId: string, organizationId: string, unitId: string) {
+    // Verify ownership
+    const unit = await db.unit.findFirst({
+      where: { id: unitId, propertyId, property: { organizationId } },
+    });
+
+    if (!unit) {
+      throw new Error('Unit not found');
+    }
+
+    // Old feed URLs stop working immediately
+    return db.unit.update({
+      where: { id: unitId },
+      data: { icalExportToken: randomUUID() },
+    });
+  }
+
+  async removeChannelMapping(propertyId: string, organizationId: string, channelId: string) {
     // Verify ownership
     const property = await db.property.findFirst({
-      where: { id: propertyId, userId },
+      where: { id: propertyId, organizationId },
     });
 
     if (!property) {
@@ -172,6 +402,17 @@ class PropertyService {
       where: { id: channelId },
     });
   }
+
+  // Booking links are shared by all owners
+  private async assertSlugAvailable(slug: string) {
+    const taken = await db.property.findUnique({
+      where: { slug },
+    });
+
+    if (taken) {
+      throw new Error('That booking link is already taken');
+    }
+  }
 }
 
 export const propertyService = new PropertyService();
@@ -0,0 +1,97 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { config } from '../../lib/config.js';
+import { rateLimit } from '../../lib/rate-limit.js';
+import { success, error } from '../../lib/response.js';
+import { publicBookingService } from './public.service.js';
+import {
+  publicAvailabilityQuerySchema,
+  publicBookingRequestSchema,
+  quoteRequestSchema,
+} from '@unifiedstay/shared';
+
+// Direct-booking widget API - unauthenticated, so every route is rate limited
+// per client IP and only properties with a booking link are reachable
+export const publicRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.addHook(
+    'preHandler',
+    rateLimit({ name: 'public', max: config.publicRateLimitPerMinute, windowSeconds: 60 })
+  );
+
+  // Get property details
+  fastify.get('/properties/:slug', async (request, reply) => {
+    try {
+      const { slug } = request.params as { slug: string };
+      const property = await publicBookingService.getProperty(slug);
+      success(reply, property);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Get available nights
+  fastify.get('/properties/:slug/availability', async (request, reply) => {
+    try {
+      const { slug } = request.params as { slug: string };
+      const query = publicAvailabilityQuerySchema.parse(request.query);
+      const availability = await publicBookingService.getAvailability(slug, query);
+      success(reply, availability);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Price a stay
+  fastify.post('/properties/:slug/quote', async (request, reply) => {
+    try {
+      const { slug } = request.params as { slug: string };
+      const body = quoteRequestSchema.parse(request.body);
+      const quote = await publicBookingService.getQuote(slug, body);
+      success(reply, quote);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'QUOTE_ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Request a booking
+  fastify.post(
+    '/properties/:slug/booking-requests',
+    {
+      preHandler: rateLimit({
+        name: 'public-booking',
+        max: config.publicBookingLimitPerHour,
+        windowSeconds: 60 * 60,
+      }),
+    },
+    async (request, reply) => {
+      try {
+        const { slug } = request.params as { slug: string };
+        const body = publicBookingRequestSchema.parse(request.body);
+        const booking = await publicBookingService.requestBooking(slug, body);
+        success(reply, booking, 201);
+      } catch (err) {
+        if (err instanceof z.ZodError) {
+          error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+          return;
+        }
+        if (err instanceof Error) {
+          error(reply, 'BOOKING_ERROR', err.message, 400);
+        }
+      }
+    }
+  );
+};
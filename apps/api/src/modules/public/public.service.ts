@@ -0,0 +1,162 @@
+import { db } from '@unifiedstay/database';
+import type {
+  PublicAvailabilityQuery,
+  PublicBookingRequest,
+  PublicProperty,
+  PublicUnitAvailability,
+  QuoteRequest,
+} from '@unifiedstay/shared';
+import { config } from '../../lib/config.js';
+import { addCalendarDays, getLocalToday } from '../../lib/timezone.js';
+import { calendarService } from '../calendar/calendar.service.js';
+import { quoteService } from '../calendar/quote.service.js';
+
+const DEFAULT_AVAILABILITY_DAYS = 90;
+const MAX_AVAILABILITY_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Public pages are found by the property's booking link, never by id or owner
+class PublicBookingService {
+  async getProperty(slug: string): Promise<PublicProperty> {
+    const property = await this.findProperty(slug);
+
+    return {
+      name: property.name,
+      timezone: property.timezone,
+      checkInTime: property.checkInTime,
+      checkOutTime: property.checkOutTime,
+      units: property.units,
+    };
+  }
+
+  /**
+   * Free nights for each unit, from the property's today onwards. A night is
+   * taken when any active reservation or block covers it.
+   */
+  async getAvailability(slug: string, query: PublicAvailabilityQuery): Promise<PublicUnitAvailability[]> {
+    const property = await this.findProperty(slug);
+    const units = query.unitId ? property.units.filter((u) => u.id === query.unitId) : property.units;
+
+    if (units.length === 0) {
+      throw new Error('Unit not found');
+    }
+
+    // Past nights are never available
+    const today = getLocalToday(property.timezone);
+    const start = query.start && query.start > today ? query.start : today;
+    const end = query.end ?? addCalendarDays(start, DEFAULT_AVAILABILITY_DAYS);
+
+    if (end <= start) {
+      return units.map((u) => ({ unitId: u.id, unitName: u.name, availableDates: [] }));
+    }
+
+    if (end.getTime() - start.getTime() > MAX_AVAILABILITY_DAYS * DAY_MS) {
+      throw new Error(`Availability can be requested for at most ${MAX_AVAILABILITY_DAYS} days`);
+    }
+
+    const events = await calendarService.getUnitEvents(
+      units.map((u) => u.id),
+      { start, end }
+    );
+
+    return units.map((unit) => {
+      const taken = events.filter((e) => e.unitId === unit.id);
+      const availableDates: string[] = [];
+
+      for (let night = start; night < end; night = addCalendarDays(night, 1)) {
+        if (!taken.some((e) => new Date(e.checkIn) <= night && night < new Date(e.checkOut))) {
+          availableDates.push(night.toISOString().slice(0, 10));
+        }
+      }
+
+      return { unitId: unit.id, unitName: unit.name, availableDates };
+    });
+  }
+
+  async getQuote(slug: string, input: QuoteRequest) {
+    const property = await this.findProperty(slug);
+    this.findUnit(property.units, input.unitId);
+
+    return quoteService.quoteUnit(input.unitId, input, input.guests);
+  }
+
+  /**
+   * Ask to book a stay. The request is priced from the unit's rates, must
+   * follow the booking rules, and waits as a pending reservation until the
+   * owner confirms it. Unanswered requests are cancelled when their hold runs
+   * out, so nobody can block a calendar for long without the owner agreeing.
+   */
+  async requestBooking(slug: string, input: PublicBookingRequest) {
+    const property = await this.findProperty(slug);
+    this.findUnit(property.units, input.unitId);
+
+    const reservation = await calendarService.bookUnit(
+      property.organizationId,
+      {
+        unitId: input.unitId,
+        channel: 'direct',
+        guestName: input.guestName,
+        guestEmail: input.guestEmail,
+        guestPhone: input.guestPhone,
+        checkIn: input.checkIn,
+        checkOut: input.checkOut,
+        guests: input.guests,
+        useQuote: true,
+      },
+      {
+        status: 'pending',
+        notes: input.notes,
+        holdExpiresAt: new Date(Date.now() + config.publicBookingHoldHours * HOUR_MS),
+        unverifiedGuest: true,
+      }
+    );
+
+    return {
+      id: reservation.id,
+      status: reservation.status,
+      checkIn: reservation.checkIn,
+      checkOut: reservation.checkOut,
+      guestCount: reservation.guestCount,
+      totalAmount: reservation.totalAmount,
+      quoteLines: reservation.quoteLines.map((line) => ({
+        type: line.type,
+        description: line.description,
+        quantity: line.quantity,
+        unitAmount: line.unitAmount,
+        amount: line.amount,
+      })),
+    };
+  }
+
+  private async findProperty(slug: string) {
+    const property = await db.property.findUnique({
+      where: { slug },
+      include: {
+        units: {
+          select: { id: true, name: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    return property;
+  }
+
+  private findUnit(units: { id: string; name: string }[], unitId: string) {
+    const unit = units.find((u) => u.id === unitId);
+
+    if (!unit) {
+      throw new Error('Unit not found');
+    }
+
+    return unit;
+  }
+}
+
+export const publicBookingService = new PublicBookingService();
@@ -0,0 +1,186 @@
+import { db } from '@unifiedstay/database';
+import type { SetPreferredCleanersInput } from '@unifiedstay/shared';
+import { addCalendarDays, toLocalDate, zonedTimeToUtc } from '../../lib/timezone.js';
+
+// Property fields needed to place a task on a cleaner's day
+interface AssignmentProperty {
+  id: string;
+  organizationId: string;
+  timezone: string;
+}
+
+class AssignmentService {
+  async getPreferredCleaners(organizationId: string, propertyId: string) {
+    await this.findProperty(organizationId, propertyId);
+
+    const preferred = await db.preferredCleaner.findMany({
+      where: { propertyId },
+      include: {
+        member: {
+          include: {
+            user: { select: { id: true, name: true } },
+          },
+        },
+      },
+      orderBy: { priority: 'asc' },
+    });
+
+    return preferred.map((p) => ({
+      id: p.member.user.id,
+      name: p.member.user.name,
+      role: p.member.role,
+      maxTasksPerDay: p.member.maxTasksPerDay,
+    }));
+  }
+
+  /**
+   * Replace a property's preferred cleaners. The first in the list is offered
+   * each turnover first.
+   */
+  async setPreferredCleaners(
+    organizationId: string,
+    propertyId: string,
+    input: SetPreferredCleanersInput
+  ) {
+    await this.findProperty(organizationId, propertyId);
+
+    // Only people tasks can be assigned to
+    const members = await db.organizationMember.findMany({
+      where: { organizationId, userId: { in: input.userIds }, role: { not: 'bookkeeper' } },
+    });
+
+    if (members.length !== input.userIds.length) {
+      throw new Error('Assignee not found');
+    }
+
+    const memberIds = new Map(members.map((m) => [m.userId, m.id]));
+
+    await db.$transaction([
+      db.preferredCleaner.deleteMany({ where: { propertyId } }),
+      db.preferredCleaner.createMany({
+        data: input.userIds.map((userId, priority) => ({
+          propertyId,
+          memberId: memberIds.get(userId)!,
+          priority,
+        })),
+      }),
+    ]);
+
+    return this.getPreferredCleaners(organizationId, propertyId);
+  }
+
+  async hasPreferredCleaners(propertyId: string) {
+    const count = await db.preferredCleaner.count({ where: { propertyId } });
+    return count > 0;
+  }
+
+  /**
+   * The first preferred cleaner who isn't off on the task's day and is under
+   * their daily cap, or null when nobody is free
+   */
+  async pickAssignee(property: AssignmentProperty, dueAt: Date, excludeTaskId?: string) {
+    const preferred = await db.preferredCleaner.findMany({
+      where: { propertyId: property.id },
+      select: { member: { select: { userId: true } } },
+      orderBy: { priority: 'asc' },
+    });
+
+    for (const { member } of preferred) {
+      if (await this.isAvailable(property, member.userId, dueAt, excludeTaskId)) {
+        return member.userId;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether someone can take a task due at a given time: still a member, not
+   * on time off that day, and with room under their daily cap
+   */
+  async isAvailable(
+    property: AssignmentProperty,
+    userId: string,
+    dueAt: Date,
+    excludeTaskId?: string
+  ) {
+    // The task's day is its calendar date at the property
+    const day = toLocalDate(dueAt, property.timezone);
+
+    const member = await db.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId: property.organizationId, userId } },
+      include: {
+        timeOff: {
+          where: { startDate: { lte: day }, endDate: { gte: day } },
+          take: 1,
+        },
+      },
+    });
+
+    if (!member || member.role === 'bookkeeper' || member.timeOff.length > 0) {
+      return false;
+    }
+
+    const tasksThatDay = await db.task.count({
+      where: {
+        assigneeId: userId,
+        status: { not: 'cancelled' },
+        property: { organizationId: property.organizationId },
+        dueAt: {
+          gte: zonedTimeToUtc(day, '00:00', property.timezone),
+          lt: zonedTimeToUtc(addCalendarDays(day, 1), '00:00', property.timezone),
+        },
+        ...(excludeTaskId ? { id: { not: excludeTaskId } } : {}),
+      },
+    });
+
+    return tasksThatDay < member.maxTasksPerDay;
+  }
+
+  /**
+   * Hand a task that moved to someone else when its assignee can't take it at
+   * the new time. With nobody free it's left unassigned for a manager to pick up.
+   * Returns the task's assignee afterwards.
+   */
+  async reassignIfUnavailable(taskId: string) {
+    const task = await db.task.findUniqueOrThrow({
+      where: { id: taskId },
+      include: {
+        property: {
+          select: { id: true, organizationId: true, timezone: true },
+        },
+      },
+    });
+
+    if (!task.assigneeId || task.status !== 'pending') {
+      return task.assigneeId;
+    }
+
+    if (await this.isAvailable(task.property, task.assigneeId, task.dueAt, task.id)) {
+      return task.assigneeId;
+    }
+
+    const assigneeId = await this.pickAssignee(task.property, task.dueAt, task.id);
+
+    await db.task.update({
+      where: { id: taskId },
+      data: { assigneeId },
+    });
+
+    return assigneeId;
+  }
+
+  private async findProperty(organizationId: string, propertyId: string) {
+    const property = await db.property.findFirst({
+      where: { id: propertyId, organizationId },
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    return property;
+  }
+}
+
+export const assignmentService = new AssignmentService();
@@ -0,0 +1,233 @@
+import {
+  db,
+  type Property,
+  type TaskSchedule,
+  type TaskTemplate,
+  type TaskTemplateItem,
+} from '@unifiedstay/database';
+import type { CreateTaskScheduleInput, UpdateTaskScheduleInput } from '@unifiedstay/shared';
+import { getOccurrences, parseRecurrence } from '../../lib/recurrence.js';
+import { addCalendarDays, getLocalToday, zonedTimeToUtc } from '../../lib/timezone.js';
+import { copyChecklist } from './task.service.js';
+
+// How far ahead scheduled tasks are created
+const MATERIALIZE_DAYS = 90;
+
+const withTemplate = {
+  template: {
+    include: { checklist: { orderBy: { position: 'asc' as const } } },
+  },
+  property: { select: { timezone: true } },
+};
+
+type ScheduleWithTemplate = TaskSchedule & {
+  template: TaskTemplate & { checklist: TaskTemplateItem[] };
+  property: Pick<Property, 'timezone'>;
+};
+
+class TaskScheduleService {
+  async getAll(organizationId: string, filters: { propertyId?: string }) {
+    return db.taskSchedule.findMany({
+      where: {
+        property: { organizationId },
+        ...(filters.propertyId ? { propertyId: filters.propertyId } : {}),
+      },
+      include: {
+        template: {
+          select: { id: true, name: true, type: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async create(organizationId: string, input: CreateTaskScheduleInput) {
+    const template = await db.taskTemplate.findFirst({
+      where: {
+        id: input.templateId,
+        property: { organizationId },
+      },
+    });
+
+    if (!template) {
+      throw new Error('Task template not found');
+    }
+
+    parseRecurrence(input.rrule);
+
+    const schedule = await db.taskSchedule.create({
+      data: {
+        propertyId: template.propertyId,
+        templateId: template.id,
+        rrule: input.rrule,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        dueTime: input.dueTime,
+      },
+      include: withTemplate,
+    });
+
+    await this.materialize(schedule);
+
+    return schedule;
+  }
+
+  /**
+   * Update a schedule. Its pending tasks from today on are recreated to
+   * match, or removed if the schedule is paused.
+   */
+  async update(organizationId: string, scheduleId: string, input: UpdateTaskScheduleInput) {
+    const existing = await this.findSchedule(organizationId, scheduleId);
+
+    if (input.rrule !== undefined) {
+      parseRecurrence(input.rrule);
+    }
+
+    const endDate = input.endDate === undefined ? existing.endDate : input.endDate;
+    if (endDate && endDate < (input.startDate ?? existing.startDate)) {
+      throw new Error('End date must be on or after start date');
+    }
+
+    await this.removeUpcomingTasks(existing);
+
+    const schedule = await db.taskSchedule.update({
+      where: { id: scheduleId },
+      data: { ...input, materializedThrough: null },
+      include: withTemplate,
+    });
+
+    await this.materialize(schedule);
+
+    return schedule;
+  }
+
+  /**
+   * Delete a schedule along with its pending tasks from today on
+   */
+  async delete(organizationId: string, scheduleId: string) {
+    const schedule = await this.findSchedule(organizationId, scheduleId);
+
+    await this.removeUpcomingTasks(schedule);
+
+    await db.taskSchedule.delete({
+      where: { id: scheduleId },
+    });
+  }
+
+  /**
+   * Create tasks for a schedule's occurrences from today up to
+   * MATERIALIZE_DAYS ahead. Occurrences that already have a task are
+   * skipped, so this is safe to run repeatedly.
+   */
+  async materialize(schedule: ScheduleWithTemplate) {
+    if (!schedule.active) {
+      return { tasksCreated: 0 };
+    }
+
+    const timezone = schedule.property.timezone;
+    const today = getLocalToday(timezone);
+    const horizon = addCalendarDays(today, MATERIALIZE_DAYS);
+    const until = schedule.endDate && schedule.endDate < horizon ? schedule.endDate : horizon;
+
+    // Only look at dates not covered by an earlier run
+    const next = schedule.materializedThrough ? addCalendarDays(schedule.materializedThrough, 1) : today;
+    const from = next > today ? next : today;
+
+    const dueDates = getOccurrences(parseRecurrence(schedule.rrule), schedule.startDate, from, until).map(
+      (date) => zonedTimeToUtc(date, schedule.dueTime, timezone)
+    );
+
+    const existing = await db.task.findMany({
+      where: { scheduleId: schedule.id, dueAt: { in: dueDates } },
+      select: { dueAt: true },
+    });
+    const taken = new Set(existing.map((task) => task.dueAt.getTime()));
+
+    let tasksCreated = 0;
+
+    for (const dueAt of dueDates) {
+      if (taken.has(dueAt.getTime())) {
+        continue;
+      }
+
+      await db.task.create({
+        data: {
+          propertyId: schedule.propertyId,
+          templateId: schedule.templateId,
+          scheduleId: schedule.id,
+          type: schedule.template.type,
+          description: schedule.template.description ?? schedule.template.name,
+          assigneeId: schedule.template.defaultAssigneeId,
+          dueAt,
+          status: 'pending',
+          checklist: {
+            create: copyChecklist(schedule.template.checklist),
+          },
+        },
+      });
+
+      tasksCreated++;
+    }
+
+    await db.taskSchedule.update({
+      where: { id: schedule.id },
+      data: { materializedThrough: horizon },
+    });
+
+    return { tasksCreated };
+  }
+
+  /**
+   * Top up every active schedule. Runs from the worker's daily scheduled job.
+   */
+  async materializeAll() {
+    const schedules = await db.taskSchedule.findMany({
+      where: { active: true },
+      include: withTemplate,
+    });
+
+    let tasksCreated = 0;
+
+    for (const schedule of schedules) {
+      try {
+        const result = await this.materialize(schedule);
+        tasksCreated += result.tasksCreated;
+      } catch (err) {
+        // One bad rule shouldn't stop the other schedules
+        console.error(`[TaskSchedule] Failed to materialize ${schedule.id}:`, err);
+      }
+    }
+
+    return { tasksCreated };
+  }
+
+  private async removeUpcomingTasks(schedule: ScheduleWithTemplate) {
+    const timezone = schedule.property.timezone;
+
+    await db.task.deleteMany({
+      where: {
+        scheduleId: schedule.id,
+        status: 'pending',
+        dueAt: { gte: zonedTimeToUtc(getLocalToday(timezone), '00:00', timezone) },
+      },
+    });
+  }
+
+  private async findSchedule(organizationId: string, scheduleId: string) {
+    const schedule = await db.taskSchedule.findFirst({
+      where: {
+        id: scheduleId,
+        property: { organizationId },
+      },
+      include: withTemplate,
+    });
+
+    if (!schedule) {
+      throw new Error('Task schedule not found');
+    }
+
+    return schedule;
+  }
+}
+
+export const taskScheduleService = new TaskScheduleService();
@@ -0,0 +1,176 @@
+import { db } from '@unifiedstay/database';
+import type { TaskReportQuery } from '@unifiedstay/shared';
+import { addCalendarDays, formatLocalDateTime } from '../../lib/timezone.js';
+import { notificationService } from '../notifications/notification.service.js';
+import { taskService } from './task.service.js';
+
+// On-time completion for one assignee or property
+interface CompletionTally {
+  id: string | null;
+  name: string;
+  due: number;
+  onTime: number;
+  late: number;
+  // Share completed on time, or null when nothing was due
+  onTimeRate: number | null;
+}
+
+function tally(
+  rows: Map<string | null, CompletionTally>,
+  id: string | null,
+  name: string,
+  onTime: boolean
+) {
+  const row = rows.get(id) ?? { id, name, due: 0, onTime: 0, late: 0, onTimeRate: null };
+  row.due++;
+  if (onTime) {
+    row.onTime++;
+  } else {
+    row.late++;
+  }
+  row.onTimeRate = row.onTime / row.due;
+  rows.set(id, row);
+}
+
+class TaskSlaService {
+  /**
+   * Mark open tasks whose due time has passed as overdue, notifying the
+   * organization's owners, and flag the check-ins that follow them as at
+   * risk. Runs from the worker's scheduled job.
+   */
+  async checkOverdue() {
+    const now = new Date();
+
+    // A task whose due time was moved to later is back within its time, so
+    // it's checked again once the new time passes
+    await db.task.updateMany({
+      where: {
+        overdueAt: { not: null },
+        status: { in: ['pending', 'in_progress'] },
+        dueAt: { gte: now },
+      },
+      data: { overdueAt: null },
+    });
+
+    const tasks = await db.task.findMany({
+      where: {
+        overdueAt: null,
+        status: { in: ['pending', 'in_progress'] },
+        dueAt: { lt: now },
+      },
+      include: {
+        property: {
+          select: { name: true, timezone: true, organizationId: true },
+        },
+      },
+    });
+
+    for (const task of tasks) {
+      const dueBy = formatLocalDateTime(task.dueAt, task.property.timezone);
+
+      await db.task.update({
+        where: { id: task.id },
+        data: {
+          overdueAt: now,
+          events: {
+            create: {
+              type: 'overdue',
+              reason: `Not completed by ${dueBy}; escalated to the owners`,
+            },
+          },
+        },
+      });
+
+      await notificationService.notifyOwners(
+        task.property.organizationId,
+        `${task.property.name}: ${task.description || `${task.type} task`} wasn't completed by ${dueBy}`,
+        task.id
+      );
+    }
+
+    if (tasks.length > 0) {
+      console.log(`[TaskSla] ${tasks.length} tasks became overdue`);
+    }
+
+    await taskService.flagAtRiskCheckIns();
+
+    return { overdue: tasks.length };
+  }
+
+  /**
+   * Overdue tasks that are still open, for owners to follow up
+   */
+  async getEscalations(organizationId: string) {
+    return db.task.findMany({
+      where: {
+        property: { organizationId },
+        overdueAt: { not: null },
+        status: { in: ['pending', 'in_progress'] },
+      },
+      include: {
+        property: {
+          select: { id: true, name: true, timezone: true },
+        },
+        reservation: {
+          select: { id: true, guestName: true },
+        },
+        assignee: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { dueAt: 'asc' },
+    });
+  }
+
+  /**
+   * On-time completion rate per assignee and per property for tasks due in a
+   * date range. Tasks count once their due time has passed; they're on time
+   * if completed by then. Cancelled tasks don't count.
+   */
+  async getReport(organizationId: string, query: TaskReportQuery) {
+    const now = new Date();
+    const endOfRange = addCalendarDays(query.end, 1);
+
+    const tasks = await db.task.findMany({
+      where: {
+        property: { organizationId },
+        status: { not: 'cancelled' },
+        dueAt: { gte: query.start, lt: endOfRange < now ? endOfRange : now },
+      },
+      select: {
+        dueAt: true,
+        completedAt: true,
+        status: true,
+        property: { select: { id: true, name: true } },
+        assignee: { select: { id: true, name: true } },
+      },
+    });
+
+    const byAssignee = new Map<string | null, CompletionTally>();
+    const byProperty = new Map<string | null, CompletionTally>();
+    let onTimeCount = 0;
+
+    for (const task of tasks) {
+      const onTime =
+        task.status === 'completed' && !!task.completedAt && task.completedAt <= task.dueAt;
+      if (onTime) {
+        onTimeCount++;
+      }
+      tally(byAssignee, task.assignee?.id ?? null, task.assignee?.name ?? 'Unassigned', onTime);
+      tally(byProperty, task.property.id, task.property.name, onTime);
+    }
+
+    const sortByName = (a: CompletionTally, b: CompletionTally) => a.name.localeCompare(b.name);
+
+    return {
+      start: query.start,
+      end: query.end,
+      due: tasks.length,
+      onTime: onTimeCount,
+      byAssignee: [...byAssignee.values()].sort(sortByName),
+      byProperty: [...byProperty.values()].sort(sortByName),
+    };
+  }
+}
+
+export const taskSlaService = new TaskSlaService();
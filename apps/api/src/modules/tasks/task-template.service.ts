@@ -0,0 +1,191 @@
+import { db } from '@unifiedstay/database';
+import type { CreateTaskTemplateInput, UpdateTaskTemplateInput } from '@unifiedstay/shared';
+import { organizationService } from '../organizations/organization.service.js';
+import { copyChecklist } from './task.service.js';
+
+const checklistOrder = { orderBy: { position: 'asc' as const } };
+
+class TaskTemplateService {
+  async getAll(organizationId: string, filters: { propertyId?: string }) {
+    return db.taskTemplate.findMany({
+      where: {
+        property: { organizationId },
+        ...(filters.propertyId ? { propertyId: filters.propertyId } : {}),
+      },
+      include: {
+        defaultAssignee: {
+          select: { id: true, name: true },
+        },
+        checklist: checklistOrder,
+        schedules: {
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async create(organizationId: string, input: CreateTaskTemplateInput) {
+    const property = await db.property.findFirst({
+      where: { id: input.propertyId, organizationId },
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    if (input.defaultAssigneeId) {
+      await organizationService.assertAssignable(organizationId, input.defaultAssigneeId);
+    }
+
+    return db.$transaction(async (tx) => {
+      // Only one template drives turnover cleanings
+      if (input.forTurnovers) {
+        await tx.taskTemplate.updateMany({
+          where: { propertyId: input.propertyId, forTurnovers: true },
+          data: { forTurnovers: false },
+        });
+      }
+
+      return tx.taskTemplate.create({
+        data: {
+          propertyId: input.propertyId,
+          name: input.name,
+          type: input.type,
+          description: input.description,
+          defaultAssigneeId: input.defaultAssigneeId,
+          forTurnovers: input.forTurnovers,
+          checklist: {
+            create: copyChecklist(input.checklist),
+          },
+        },
+        include: { checklist: checklistOrder },
+      });
+    });
+  }
+
+  /**
+   * Update a template. A new checklist replaces the old one. With
+   * applyToFuture, pending tasks made from it that are due from now on pick
+   * up the changes too; tasks whose assignee was changed by hand keep their
+   * assignee, and tasks with checklist progress keep their checklist.
+   */
+  async update(organizationId: string, templateId: string, input: UpdateTaskTemplateInput) {
+    const existing = await this.findTemplate(organizationId, templateId);
+    const { applyToFuture, checklist, ...changes } = input;
+
+    if (changes.defaultAssigneeId) {
+      await organizationService.assertAssignable(organizationId, changes.defaultAssigneeId);
+    }
+
+    return db.$transaction(async (tx) => {
+      if (changes.forTurnovers) {
+        await tx.taskTemplate.updateMany({
+          where: { propertyId: existing.propertyId, forTurnovers: true, id: { not: templateId } },
+          data: { forTurnovers: false },
+        });
+      }
+
+      if (checklist) {
+        await tx.taskTemplateItem.deleteMany({
+          where: { templateId },
+        });
+      }
+
+      const template = await tx.taskTemplate.update({
+        where: { id: templateId },
+        data: {
+          ...changes,
+          ...(checklist ? { checklist: { create: copyChecklist(checklist) } } : {}),
+        },
+        include: { checklist: checklistOrder },
+      });
+
+      if (applyToFuture) {
+        const future = {
+          templateId,
+          status: 'pending' as const,
+          dueAt: { gte: new Date() },
+        };
+
+        await tx.task.updateMany({
+          where: future,
+          data: {
+            type: template.type,
+            description: template.description,
+          },
+        });
+
+        if (checklist) {
+          const untouched = await tx.task.findMany({
+            where: {
+              ...future,
+              checklist: {
+                none: { OR: [{ completedAt: { not: null } }, { photos: { isEmpty: false } }] },
+              },
+            },
+            select: { id: true },
+          });
+          const taskIds = untouched.map((t) => t.id);
+
+          await tx.taskChecklistItem.deleteMany({
+            where: { taskId: { in: taskIds } },
+          });
+          await tx.taskChecklistItem.createMany({
+            data: taskIds.flatMap((taskId) =>
+              copyChecklist(template.checklist).map((item) => ({ ...item, taskId }))
+            ),
+          });
+        }
+
+        if (changes.defaultAssigneeId !== undefined) {
+          await tx.task.updateMany({
+            where: { ...future, assigneeId: existing.defaultAssigneeId },
+            data: { assigneeId: template.defaultAssigneeId },
+          });
+        }
+      }
+
+      return template;
+    });
+  }
+
+  /**
+   * Delete a template and its schedules. Scheduled tasks still to come are
+   * removed; everything else made from the template is kept.
+   */
+  async delete(organizationId: string, templateId: string) {
+    await this.findTemplate(organizationId, templateId);
+
+    await db.$transaction([
+      db.task.deleteMany({
+        where: {
+          templateId,
+          scheduleId: { not: null },
+          status: 'pending',
+          dueAt: { gte: new Date() },
+        },
+      }),
+      db.taskTemplate.delete({
+        where: { id: templateId },
+      }),
+    ]);
+  }
+
+  private async findTemplate(organizationId: string, templateId: string) {
+    const template = await db.taskTemplate.findFirst({
+      where: {
+        id: templateId,
+        property: { organizationId },
+      },
+    });
+
+    if (!template) {
+      throw new Error('Task template not found');
+    }
+
+    return template;
+  }
+}
+
+export const taskTemplateService = new TaskTemplateService();
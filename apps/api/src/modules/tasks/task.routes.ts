@@ -1,29 +1,297 @@
 import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
-import { authenticate, getCurrentUserId } from '../../lib/auth.js';
+import {
+  authenticate,
+  getAssigneeScope,
+  getCurrentUserId,
+  getOrganizationId,
+  requireRole,
+} from '../../lib/auth.js';
 import { success, error } from '../../lib/response.js';
 import { taskService } from './task.service.js';
-import { createTaskSchema, updateTaskSchema } from '@unifiedstay/shared';
+import { taskTemplateService } from './task-template.service.js';
+import { taskScheduleService } from './task-schedule.service.js';
+import { assignmentService } from './assignment.service.js';
+import { timeOffService } from './time-off.service.js';
+import { taskSlaService } from './task-sla.service.js';
+import { jobQueue, waitForJob } from '../../lib/queue.js';
+import {
+  createTaskSchema,
+  updateTaskSchema,
+  createTaskTemplateSchema,
+  updateTaskTemplateSchema,
+  createTaskScheduleSchema,
+  updateTaskScheduleSchema,
+  setPreferredCleanersSchema,
+  createTimeOffSchema,
+  timeOffQuerySchema,
+  taskReportQuerySchema,
+  updateChecklistItemSchema,
+  uploadTaskPhotoSchema,
+} from '@unifiedstay/shared';
+
+// Photos arrive base64-encoded, so allow for that on top of the 10 MB photo limit
+const PHOTO_BODY_LIMIT = 15 * 1024 * 1024;
+
+// Cleaners and maintenance staff work the tasks they're given; setting tasks up is for managers
+const managersOnly = { preHandler: requireRole('owner', 'co_host') };
 
 export const taskRoutes: FastifyPluginAsync = async (fastify) => {
   // Apply auth to all routes
   fastify.addHook('preHandler', authenticate);
+  // Bookkeepers don't work with tasks
+  fastify.addHook('preHandler', requireRole('owner', 'co_host', 'cleaner', 'maintenance'));
 
   // Get all tasks
   fastify.get('/', async (request, reply) => {
-    const userId = getCurrentUserId(request);
-    const query = request.query as { status?: string; propertyId?: string; type?: string };
-    const tasks = await taskService.getAll(userId, query);
+    const organizationId = getOrganizationId(request);
+    const query = request.query as {
+      status?: string;
+      propertyId?: string;
+      type?: string;
+      assigneeId?: string;
+    };
+    const tasks = await taskService.getAll(organizationId, {
+      ...query,
+      assigneeId: getAssigneeScope(request) ?? query.assigneeId,
+    });
     success(reply, tasks);
   });
 
+  // Get task templates
+  fastify.get('/templates', managersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const query = request.query as { propertyId?: string };
+    const templates = await taskTemplateService.getAll(organizationId, query);
+    success(reply, templates);
+  });
+
+  // Create task template
+  fastify.post('/templates', managersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const body = createTaskTemplateSchema.parse(request.body);
+      const template = await taskTemplateService.create(organizationId, body);
+      success(reply, template, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Update task template, optionally carrying the changes to upcoming tasks
+  fastify.patch('/templates/:id', managersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const body = updateTaskTemplateSchema.parse(request.body);
+      const template = await taskTemplateService.update(organizationId, id, body);
+      success(reply, template);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Delete task template
+  fastify.delete('/templates/:id', managersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      await taskTemplateService.delete(organizationId, id);
+      success(reply, { message: 'Task template deleted successfully' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Get recurring task schedules
+  fastify.get('/schedules', managersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const query = request.query as { propertyId?: string };
+    const schedules = await taskScheduleService.getAll(organizationId, query);
+    success(reply, schedules);
+  });
+
+  // Create recurring task schedule
+  fastify.post('/schedules', managersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const body = createTaskScheduleSchema.parse(request.body);
+      const schedule = await taskScheduleService.create(organizationId, body);
+      success(reply, schedule, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Update recurring task schedule
+  fastify.patch('/schedules/:id', managersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id } = request.params as { id: string };
+      const body = updateTaskScheduleSchema.parse(request.body);
+      const schedule = await taskScheduleService.update(organizationId, id, body);
+      success(reply, schedule);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Delete recurring task schedule
+  fastify.delete('/schedules/:id', managersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      await taskScheduleService.delete(organizationId, id);
+      success(reply, { message: 'Task schedule deleted successfully' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Get a property's preferred cleaners, in priority order
+  fastify.get('/preferred-cleaners/:propertyId', managersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { propertyId } = request.params as { propertyId: string };
+
+    try {
+      const cleaners = await assignmentService.getPreferredCleaners(organizationId, propertyId);
+      success(reply, cleaners);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Replace a property's preferred cleaners
+  fastify.put('/preferred-cleaners/:propertyId', managersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { propertyId } = request.params as { propertyId: string };
+      const body = setPreferredCleanersSchema.parse(request.body);
+      const cleaners = await assignmentService.setPreferredCleaners(organizationId, propertyId, body);
+      success(reply, cleaners);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Get time off in a date range. Field staff only see their own
+  fastify.get('/time-off', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const query = timeOffQuerySchema.parse(request.query);
+      const entries = await timeOffService.getAll(organizationId, query, getAssigneeScope(request));
+      success(reply, entries);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      throw err;
+    }
+  });
+
+  // Add time off. Managers can add it for anyone; field staff for themselves
+  fastify.post('/time-off', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const body = createTimeOffSchema.parse(request.body);
+      const userId = getAssigneeScope(request) ?? body.userId ?? getCurrentUserId(request);
+      const entry = await timeOffService.create(organizationId, userId, body);
+      success(reply, entry, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Delete time off
+  fastify.delete('/time-off/:id', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      await timeOffService.delete(organizationId, id, getAssigneeScope(request));
+      success(reply, { message: 'Time off deleted successfully' });
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
+  // Overdue tasks still open. Escalations go to the organization's owners
+  fastify.get('/escalations', { preHandler: requireRole('owner') }, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const tasks = await taskSlaService.getEscalations(organizationId);
+    success(reply, tasks);
+  });
+
+  // On-time completion rate per assignee and per property
+  fastify.get('/report', managersOnly, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const query = taskReportQuerySchema.parse(request.query);
+      const report = await taskSlaService.getReport(organizationId, query);
+      success(reply, report);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      throw err;
+    }
+  });
+
   // Get single task
   fastify.get('/:id', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+    const organizationId = getOrganizationId(request);
     const { id } = request.params as { id: string };
 
     try {
-      const task = await taskService.getById(userId, id);
+      const task = await taskService.getById(organizationId, id, getAssigneeScope(request));
       success(reply, task);
     } catch (err) {
       if (err instanceof Error) {
@@ -32,12 +300,27 @@ export const taskRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
+  // Get a task's history
+  fastify.get('/:id/history', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id } = request.params as { id: string };
+
+    try {
+      const events = await taskService.getHistory(organizationId, id, getAssigneeScope(request));
+      success(reply, events);
+    } catch (err) {
+      if (err instanceof Error) {
+        error(reply, 'NOT_FOUND', err.message, 404);
+      }
+    }
+  });
+
   // Create task
-  fastify.post('/', async (request, reply) => {
+  fastify.post('/', managersOnly, async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const body = createTaskSchema.parse(request.body);
-      const task = await taskService.create(userId, body);
+      const task = await taskService.create(organizationId, body);
       success(reply, task, 201);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -53,16 +336,99 @@ export const taskRoutes: FastifyPluginAsync = async (fastify) => {
   // Update task
   fastify.patch('/:id', async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
+      const organizationId = getOrganizationId(request);
       const { id } = request.params as { id: string };
       const body = updateTaskSchema.parse(request.body);
-      const task = await taskService.update(userId, id, body);
+      const assigneeScope = getAssigneeScope(request);
+
+      if (assigneeScope && body.assigneeId !== undefined) {
+        error(reply, 'FORBIDDEN', 'Only owners and co-hosts can reassign tasks', 403);
+        return;
+      }
+
+      if (assigneeScope && body.status === 'cancelled') {
+        error(reply, 'FORBIDDEN', 'Only owners and co-hosts can cancel tasks', 403);
+        return;
+      }
+
+      const task = await taskService.update(organizationId, id, body, assigneeScope);
       success(reply, task);
     } catch (err) {
       if (err instanceof z.ZodError) {
         error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
         return;
       }
+      if (err instanceof Error) {
+        error(reply, 'TASK_ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Check off or reopen a checklist item
+  fastify.patch('/:id/checklist/:itemId', async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id, itemId } = request.params as { id: string; itemId: string };
+      const body = updateChecklistItemSchema.parse(request.body);
+      const item = await taskService.updateChecklistItem(
+        organizationId,
+        id,
+        itemId,
+        body,
+        getAssigneeScope(request)
+      );
+      success(reply, item);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'TASK_ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Upload a photo for a checklist item
+  fastify.post('/:id/checklist/:itemId/photos', { bodyLimit: PHOTO_BODY_LIMIT }, async (request, reply) => {
+    try {
+      const organizationId = getOrganizationId(request);
+      const { id, itemId } = request.params as { id: string; itemId: string };
+      const body = uploadTaskPhotoSchema.parse(request.body);
+      const item = await taskService.addPhoto(
+        organizationId,
+        id,
+        itemId,
+        body,
+        getAssigneeScope(request)
+      );
+      success(reply, item, 201);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        error(reply, 'VALIDATION_ERROR', err.errors[0].message, 400);
+        return;
+      }
+      if (err instanceof Error) {
+        error(reply, 'TASK_ERROR', err.message, 400);
+      }
+    }
+  });
+
+  // Delete a checklist item photo
+  fastify.delete('/:id/checklist/:itemId/photos/:photoId', async (request, reply) => {
+    const organizationId = getOrganizationId(request);
+    const { id, itemId, photoId } = request.params as { id: string; itemId: string; photoId: string };
+
+    try {
+      const item = await taskService.deletePhoto(
+        organizationId,
+        id,
+        itemId,
+        photoId,
+        getAssigneeScope(request)
+      );
+      success(reply, item);
+    } catch (err) {
       if (err instanceof Error) {
         error(reply, 'NOT_FOUND', err.message, 404);
       }
@@ -70,12 +436,12 @@ export const taskRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   // Delete task
-  fastify.delete('/:id', async (request, reply) => {
-    const userId = getCurrentUserId(request);
+  fastify.delete('/:id', managersOnly, async (request, reply) => {
+    const organizationId = getOrganizationId(request);
     const { id } = request.params as { id: string };
 
     try {
-      await taskService.delete(userId, id);
+      await taskService.delete(organizationId, id);
       success(reply, { message: 'Task deleted successfully' });
     } catch (err) {
       if (err instanceof Error) {
@@ -85,10 +451,16 @@ export const taskRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   // Generate tasks for upcoming checkouts
-  fastify.post('/generate', async (request, reply) => {
+  fastify.post('/generate', managersOnly, async (request, reply) => {
     try {
-      const userId = getCurrentUserId(request);
-      const result = await taskService.generateTurnoverTasks(userId);
+      const organizationId = getOrganizationId(request);
+      const job = await jobQueue.add(
+        'turnover-tasks',
+        { organizationId },
+        // One generation run per organization at a time
+        { jobId: `turnover-tasks-${organizationId}`, removeOnComplete: true, removeOnFail: true }
+      );
+      const result = await waitForJob<{ tasksCreated: number }>(job);
       success(reply, result);
     } catch (err) {
       if (err instanceof Error) {
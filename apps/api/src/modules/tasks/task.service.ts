@@ -1,15 +1,104 @@
-import { db } from '@unifiedstay/database';
+import { randomUUID } from 'node:crypto';
+import {
+  db,
+  type Property,
+  type Reservation,
+  type Task,
+  type TaskChecklistItem,
+  type TaskEventType,
+} from '@unifiedstay/database';
 import { addHours } from 'date-fns';
-import type { CreateTaskInput, UpdateTaskInput } from '@unifiedstay/shared';
+import {
+  addCalendarDays,
+  formatLocalDateTime,
+  getCheckInAt,
+  getCheckOutAt,
+  getLocalToday,
+} from '../../lib/timezone.js';
+import { storage } from '../../lib/storage.js';
+import { organizationService } from '../organizations/organization.service.js';
+import { assignmentService } from './assignment.service.js';
+import type {
+  ChecklistItemInput,
+  CreateTaskInput,
+  UpdateChecklistItemInput,
+  UpdateTaskInput,
+  UploadTaskPhotoInput,
+} from '@unifiedstay/shared';
+
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+const MAX_PHOTOS_PER_ITEM = 10;
+
+const photoExtensions: Record<UploadTaskPhotoInput['contentType'], string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+};
+
+const checklistOrder = { orderBy: { position: 'asc' as const } };
+
+/**
+ * Checklist rows for a new task, from the request or a template's items
+ */
+export function copyChecklist(items: ChecklistItemInput[]) {
+  return items.map((item, position) => ({
+    position,
+    label: item.label,
+    required: item.required,
+    photoRequired: item.photoRequired,
+  }));
+}
+
+// Photo ids are the file name in the storage key: tasks/<taskId>/<itemId>/<photoId>.<ext>
+const getPhotoId = (key: string) => key.slice(key.lastIndexOf('/') + 1).split('.')[0];
+
+// Swap stored photo keys for links the client can load
+function withPhotoUrls<T extends { checklist: TaskChecklistItem[] }>(task: T) {
+  return {
+    ...task,
+    checklist: task.checklist.map((item) => ({
+      ...item,
+      photos: item.photos.map((key) => ({ id: getPhotoId(key), url: storage.getUrl(key) })),
+    })),
+  };
+}
+
+// Turnover cleanings are due a buffer after the guest leaves
+function getTurnoverDueAt(checkOut: Date, property: Property) {
+  return addHours(getCheckOutAt(checkOut, property), property.cleaningBufferHours);
+}
+
+// The stay that follows a reservation in its unit, if anyone is booked
+function findNextReservation(reservation: { id: string; unitId: string; checkOut: Date }) {
+  return db.reservation.findFirst({
+    where: {
+      id: { not: reservation.id },
+      unitId: reservation.unitId,
+      status: { in: ['confirmed', 'pending'] },
+      checkIn: { gte: reservation.checkOut },
+    },
+    orderBy: { checkIn: 'asc' },
+  });
+}
+
+// When the unit's next guest arrives after a stay
+async function getNextCheckInAt(
+  reservation: { id: string; unitId: string; checkOut: Date },
+  property: Property
+) {
+  const next = await findNextReservation(reservation);
+  return next ? getCheckInAt(next.checkIn, property) : null;
+}
 
 class TaskService {
   async getAll(
-    userId: string,
-    filters: { status?: string; propertyId?: string; type?: string }
+    organizationId: string,
+    filters: { status?: string; propertyId?: string; type?: string; assigneeId?: string }
   ) {
     const properties = await db.property.findMany({
       where: {
-        userId,
+        organizationId,
         ...(filters.propertyId ? { id: filters.propertyId } : {}),
       },
       select: { id: true },
@@ -17,15 +106,16 @@ class TaskService {
 
     const propertyIds = properties.map((p) => p.id);
 
-    return db.task.findMany({
+    const tasks = await db.task.findMany({
       where: {
         propertyId: { in: propertyIds },
         ...(filters.status ? { status: filters.status as any } : {}),
         ...(filters.type ? { type: filters.type as any } : {}),
+        ...(filters.assigneeId ? { assigneeId: filters.assigneeId } : {}),
       },
       include: {
         property: {
-          select: { id: true, name: true },
+          select: { id: true, name: true, timezone: true, address: true, accessNotes: true },
         },
         reservation: {
           select: { id: true, guestName: true, checkIn: true, checkOut: true },
@@ -33,21 +123,39 @@ class TaskService {
         assignee: {
           select: { id: true, name: true },
         },
+        template: {
+          select: { id: true, name: true },
+        },
+        checklist: checklistOrder,
       },
       orderBy: [{ status: 'asc' }, { dueAt: 'asc' }],
     });
+
+    return tasks.map(withPhotoUrls);
   }
 
-  async getById(userId: string, taskId: string) {
+  async getById(organizationId: string, taskId: string, assigneeId?: string) {
     const task = await db.task.findFirst({
       where: {
         id: taskId,
-        property: { userId },
+        property: { organizationId },
+        ...(assigneeId ? { assigneeId } : {}),
       },
+      // Field staff can read tasks, so leave out guest contact details, amounts and credentials
       include: {
-        property: true,
-        reservation: true,
-        assignee: true,
+        property: {
+          select: { id: true, name: true, timezone: true, address: true, accessNotes: true },
+        },
+        reservation: {
+          select: { id: true, guestName: true, checkIn: true, checkOut: true },
+        },
+        assignee: {
+          select: { id: true, name: true },
+        },
+        template: {
+          select: { id: true, name: true },
+        },
+        checklist: checklistOrder,
       },
     });
 
@@ -55,58 +163,136 @@ class TaskService {
       throw new Error('Task not found');
     }
 
-    return task;
+    return withPhotoUrls(task);
   }
 
-  async create(userId: string, input: CreateTaskInput) {
+  /**
+   * Automatic changes to a task, newest first
+   */
+  async getHistory(organizationId: string, taskId: string, assigneeId?: string) {
+    const task = await db.task.findFirst({
+      where: {
+        id: taskId,
+        property: { organizationId },
+        ...(assigneeId ? { assigneeId } : {}),
+      },
+      include: {
+        events: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    return task.events;
+  }
+
+  async create(organizationId: string, input: CreateTaskInput) {
     // Verify property ownership
     const property = await db.property.findFirst({
-      where: { id: input.propertyId, userId },
+      where: { id: input.propertyId, organizationId },
     });
 
     if (!property) {
       throw new Error('Property not found');
     }
 
+    // Fill in whatever the task doesn't set from its template
+    const template = input.templateId
+      ? await db.taskTemplate.findFirst({
+          where: { id: input.templateId, propertyId: input.propertyId },
+          include: { checklist: checklistOrder },
+        })
+      : null;
+
+    if (input.templateId && !template) {
+      throw new Error('Task template not found');
+    }
+
+    const type = input.type ?? template?.type;
+    if (!type) {
+      throw new Error('Task type is required');
+    }
+
+    if (input.assigneeId) {
+      await organizationService.assertAssignable(organizationId, input.assigneeId);
+    }
+
     return db.task.create({
       data: {
         propertyId: input.propertyId,
-        type: input.type,
-        description: input.description,
+        templateId: template?.id,
+        type,
+        description: input.description ?? template?.description,
         dueAt: input.dueAt,
-        assigneeId: input.assigneeId,
+        assigneeId: input.assigneeId ?? template?.defaultAssigneeId,
+        checklist: {
+          create: copyChecklist(input.checklist ?? template?.checklist ?? []),
+        },
       },
       include: {
         property: {
           select: { id: true, name: true },
         },
+        checklist: checklistOrder,
       },
     });
   }
 
-  async update(userId: string, taskId: string, input: UpdateTaskInput) {
+  async update(
+    organizationId: string,
+    taskId: string,
+    input: UpdateTaskInput,
+    assigneeId?: string
+  ) {
     // Verify ownership
     const existing = await db.task.findFirst({
       where: {
         id: taskId,
-        property: { userId },
+        property: { organizationId },
+        ...(assigneeId ? { assigneeId } : {}),
       },
+      include: { checklist: checklistOrder },
     });
 
     if (!existing) {
       throw new Error('Task not found');
     }
 
+    // Field staff work their tasks; bringing back a cancelled one is for managers
+    if (assigneeId && existing.status === 'cancelled' && input.status !== undefined) {
+      throw new Error('Only owners and co-hosts can reopen cancelled tasks');
+    }
+
+    // Required checklist items gate completion
+    if (input.status === 'completed' && existing.status !== 'completed') {
+      const remaining = existing.checklist.filter((item) => item.required && !item.completedAt);
+      if (remaining.length > 0) {
+        throw new Error(
+          `Finish the required checklist items first: ${remaining.map((item) => item.label).join(', ')}`
+        );
+      }
+    }
+
     const updateData: any = {};
 
     if (input.status !== undefined) {
       updateData.status = input.status;
       if (input.status === 'completed') {
-        updateData.completedAt = new Date();
+        if (existing.status !== 'completed') {
+          updateData.completedAt = new Date();
+        }
+      } else {
+        // Reopened tasks aren't done any more
+        updateData.completedAt = null;
       }
     }
 
     if (input.assigneeId !== undefined) {
+      if (input.assigneeId) {
+        await organizationService.assertAssignable(organizationId, input.assigneeId);
+      }
       updateData.assigneeId = input.assigneeId;
     }
 
@@ -114,7 +300,7 @@ class TaskService {
       updateData.completionNotes = input.completionNotes;
     }
 
-    return db.task.update({
+    const task = await db.task.update({
       where: { id: taskId },
       data: updateData,
       include: {
@@ -122,21 +308,29 @@ class TaskService {
           select: { id: true, name: true },
         },
         reservation: {
-          select: { id: true, guestName: true },
+          select: { id: true, guestName: true, unitId: true },
         },
         assignee: {
           select: { id: true, name: true },
         },
       },
     });
+
+    // Finishing an overdue cleaning takes the next stay off the at-risk list
+    if (existing.overdueAt && task.reservation && input.status !== undefined) {
+      await this.flagAtRiskCheckIns([task.reservation.unitId]);
+    }
+
+    return task;
   }
 
-  async delete(userId: string, taskId: string) {
+  async delete(organizationId: string, taskId: string) {
     const task = await db.task.findFirst({
       where: {
         id: taskId,
-        property: { userId },
+        property: { organizationId },
       },
+      include: { checklist: true },
     });
 
     if (!task) {
@@ -146,67 +340,403 @@ class TaskService {
     await db.task.delete({
       where: { id: taskId },
     });
+
+    // Stored files aren't part of the database transaction, so a failed
+    // delete only leaves an orphaned file behind
+    await Promise.allSettled(task.checklist.flatMap((item) => item.photos).map((key) => storage.delete(key)));
   }
 
-  async generateTurnoverTasks(userId: string) {
-    // Get all properties with their settings
+  /**
+   * Check off or reopen a checklist item. Items that need a photo can't be
+   * checked off until one is uploaded.
+   */
+  async updateChecklistItem(
+    organizationId: string,
+    taskId: string,
+    itemId: string,
+    input: UpdateChecklistItemInput,
+    assigneeId?: string
+  ) {
+    const item = await this.findChecklistItem(organizationId, taskId, itemId, assigneeId);
+
+    if (input.completed && item.photoRequired && item.photos.length === 0) {
+      throw new Error(`Add a photo before checking off "${item.label}"`);
+    }
+
+    const updated = await db.taskChecklistItem.update({
+      where: { id: itemId },
+      data: { completedAt: input.completed ? item.completedAt ?? new Date() : null },
+    });
+
+    return withPhotoUrls({ checklist: [updated] }).checklist[0];
+  }
+
+  async addPhoto(
+    organizationId: string,
+    taskId: string,
+    itemId: string,
+    input: UploadTaskPhotoInput,
+    assigneeId?: string
+  ) {
+    const item = await this.findChecklistItem(organizationId, taskId, itemId, assigneeId);
+
+    if (item.photos.length >= MAX_PHOTOS_PER_ITEM) {
+      throw new Error(`Each checklist item can have at most ${MAX_PHOTOS_PER_ITEM} photos`);
+    }
+
+    const body = Buffer.from(input.dataBase64, 'base64');
+    if (body.length === 0) {
+      throw new Error('Photo is empty');
+    }
+    if (body.length > MAX_PHOTO_BYTES) {
+      throw new Error('Photos can be at most 10 MB');
+    }
+
+    const key = `tasks/${taskId}/${itemId}/${randomUUID()}.${photoExtensions[input.contentType]}`;
+    await storage.put(key, body, input.contentType);
+
+    const updated = await db.taskChecklistItem.update({
+      where: { id: itemId },
+      data: { photos: { push: key } },
+    });
+
+    return withPhotoUrls({ checklist: [updated] }).checklist[0];
+  }
+
+  /**
+   * Remove a photo. An item that needs a photo is reopened when its last one goes.
+   */
+  async deletePhoto(
+    organizationId: string,
+    taskId: string,
+    itemId: string,
+    photoId: string,
+    assigneeId?: string
+  ) {
+    const item = await this.findChecklistItem(organizationId, taskId, itemId, assigneeId);
+    const key = item.photos.find((k) => getPhotoId(k) === photoId);
+
+    if (!key) {
+      throw new Error('Photo not found');
+    }
+
+    const photos = item.photos.filter((k) => k !== key);
+    const updated = await db.taskChecklistItem.update({
+      where: { id: itemId },
+      data: {
+        photos,
+        ...(item.photoRequired && photos.length === 0 ? { completedAt: null } : {}),
+      },
+    });
+
+    await storage.delete(key);
+
+    return withPhotoUrls({ checklist: [updated] }).checklist[0];
+  }
+
+  async generateTurnoverTasks(organizationId: string) {
     const properties = await db.property.findMany({
-      where: { userId },
+      where: { organizationId },
+    });
+
+    let tasksCreated = 0;
+
+    for (const property of properties) {
+      tasksCreated += await this.generatePropertyTurnovers(property);
+    }
+
+    return { tasksCreated };
+  }
+
+  /**
+   * Bring units' turnover cleanings in line with their reservations after stays
+   * are added, moved or cancelled. Pending cleanings follow their check-out and
+   * the next arrival, cleanings for cancelled stays are cancelled, and missing
+   * ones are generated. Each change is recorded in the task's history along
+   * with what caused it.
+   */
+  async refreshUnits(unitIds: string[], cause: string) {
+    if (unitIds.length === 0) {
+      return;
+    }
+
+    const tasks = await db.task.findMany({
+      where: {
+        type: 'cleaning',
+        status: 'pending',
+        reservation: { unitId: { in: unitIds } },
+      },
       include: {
-        units: true,
+        reservation: {
+          include: {
+            unit: {
+              include: { property: true },
+            },
+          },
+        },
+        assignee: {
+          select: { name: true },
+        },
       },
     });
 
-    let tasksCreated = 0;
+    for (const task of tasks) {
+      if (task.reservation) {
+        await this.reconcileTurnover(task, task.reservation, cause);
+      }
+    }
+
+    const properties = await db.property.findMany({
+      where: { units: { some: { id: { in: unitIds } } } },
+    });
 
     for (const property of properties) {
-      const unitIds = property.units.map((u) => u.id);
+      await this.generatePropertyTurnovers(property);
+    }
 
-      // Get upcoming checkouts without existing cleaning tasks
-      const upcomingReservations = await db.reservation.findMany({
+    // Stays may now follow a different cleaning
+    await this.flagAtRiskCheckIns(unitIds);
+  }
+
+  /**
+   * Flag stays whose check-in follows an overdue cleaning as at risk, and clear
+   * the flag once the cleaning is done or no longer comes before them. Limited
+   * to some units when given.
+   */
+  async flagAtRiskCheckIns(unitIds?: string[]) {
+    const overdueTasks = await db.task.findMany({
+      where: {
+        overdueAt: { not: null },
+        status: { in: ['pending', 'in_progress'] },
+        reservation: unitIds ? { unitId: { in: unitIds } } : { isNot: null },
+      },
+      select: {
+        reservation: {
+          select: { id: true, unitId: true, checkOut: true },
+        },
+      },
+    });
+
+    const atRiskIds: string[] = [];
+    for (const { reservation } of overdueTasks) {
+      const next = reservation ? await findNextReservation(reservation) : null;
+      if (next) {
+        atRiskIds.push(next.id);
+      }
+    }
+
+    await db.$transaction([
+      db.reservation.updateMany({
         where: {
-          unitId: { in: unitIds },
-          status: { in: ['confirmed', 'pending'] },
-          checkOut: {
-            gte: new Date(),
-            lte: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Next 7 days
-          },
+          checkInAtRisk: true,
+          id: { notIn: atRiskIds },
+          ...(unitIds ? { unitId: { in: unitIds } } : {}),
+        },
+        data: { checkInAtRisk: false },
+      }),
+      db.reservation.updateMany({
+        where: { id: { in: atRiskIds }, checkInAtRisk: false },
+        data: { checkInAtRisk: true },
+      }),
+    ]);
+  }
+
+  /**
+   * Generate turnover tasks for every organization with properties.
+   * Runs from the worker's hourly scheduled job.
+   */
+  async generateAllTurnoverTasks() {
+    const organizations = await db.organization.findMany({
+      where: { properties: { some: {} } },
+      select: { id: true },
+    });
+
+    let tasksCreated = 0;
+
+    for (const organization of organizations) {
+      const result = await this.generateTurnoverTasks(organization.id);
+      tasksCreated += result.tasksCreated;
+    }
+
+    return { tasksCreated };
+  }
+
+  /**
+   * Create cleaning tasks for a property's check-outs in the next 7 days that
+   * don't have one yet. Returns how many were created.
+   */
+  private async generatePropertyTurnovers(property: Property) {
+    const today = getLocalToday(property.timezone);
+
+    // The property's cleaning template, if it has one, supplies the checklist
+    const template = await db.taskTemplate.findFirst({
+      where: { propertyId: property.id, forTurnovers: true },
+      include: { checklist: checklistOrder },
+    });
+
+    // Preferred cleaners take turnovers when the property has them; otherwise
+    // the template's default assignee does
+    const usePreferredCleaners = await assignmentService.hasPreferredCleaners(property.id);
+
+    // Get upcoming checkouts without existing cleaning tasks. Cleanings cancelled
+    // with their stay don't count, so a reinstated stay gets a new one
+    const upcomingReservations = await db.reservation.findMany({
+      where: {
+        unit: { propertyId: property.id },
+        status: { in: ['confirmed', 'pending'] },
+        checkOut: {
+          gte: today,
+          lte: addCalendarDays(today, 7), // Next 7 days
         },
-        include: {
-          tasks: {
-            where: { type: 'cleaning' },
+      },
+      include: {
+        tasks: {
+          where: { type: 'cleaning', status: { not: 'cancelled' } },
+        },
+      },
+    });
+
+    let tasksCreated = 0;
+
+    for (const reservation of upcomingReservations) {
+      // Skip if cleaning task already exists
+      if (reservation.tasks.length > 0) {
+        continue;
+      }
+
+      const dueAt = getTurnoverDueAt(reservation.checkOut, property);
+      const assigneeId = usePreferredCleaners
+        ? await assignmentService.pickAssignee(property, dueAt)
+        : template?.defaultAssigneeId;
+
+      await db.task.create({
+        data: {
+          propertyId: property.id,
+          reservationId: reservation.id,
+          templateId: template?.id,
+          type: 'cleaning',
+          description: `Cleaning after ${reservation.guestName}'s checkout`,
+          dueAt,
+          nextCheckInAt: await getNextCheckInAt(reservation, property),
+          status: 'pending',
+          assigneeId,
+          checklist: {
+            create: copyChecklist(template?.checklist ?? []),
+          },
+          events: {
+            create: { type: 'created', reason: `${reservation.guestName} checks out` },
           },
         },
       });
 
-      for (const reservation of upcomingReservations) {
-        // Skip if cleaning task already exists
-        if (reservation.tasks.length > 0) {
-          continue;
-        }
+      tasksCreated++;
+    }
 
-        // Create cleaning task
-        const dueAt = addHours(
-          new Date(reservation.checkOut),
-          property.cleaningBufferHours
-        );
+    return tasksCreated;
+  }
 
-        await db.task.create({
-          data: {
-            propertyId: property.id,
-            reservationId: reservation.id,
-            type: 'cleaning',
-            description: `Cleaning after ${reservation.guestName}'s checkout`,
-            dueAt,
-            status: 'pending',
+  private async reconcileTurnover(
+    task: Task & { assignee: { name: string } | null },
+    reservation: Reservation & { unit: { property: Property } },
+    cause: string
+  ) {
+    const { property } = reservation.unit;
+
+    if (reservation.status === 'cancelled') {
+      await db.task.update({
+        where: { id: task.id },
+        data: {
+          status: 'cancelled',
+          events: {
+            create: {
+              type: 'cancelled',
+              reason: `${reservation.guestName}'s stay was cancelled (${cause})`,
+            },
           },
-        });
+        },
+      });
+      return;
+    }
 
-        tasksCreated++;
-      }
+    const dueAt = getTurnoverDueAt(reservation.checkOut, property);
+    const nextCheckInAt = await getNextCheckInAt(reservation, property);
+    const moved = dueAt.getTime() !== task.dueAt.getTime();
+    const events: { type: TaskEventType; reason: string }[] = [];
+
+    if (moved) {
+      const checkOutAt = getCheckOutAt(reservation.checkOut, property);
+      events.push({
+        type: 'rescheduled',
+        reason: `Check-out moved to ${formatLocalDateTime(checkOutAt, property.timezone)} (${cause})`,
+      });
     }
 
-    return { tasksCreated };
+    if (nextCheckInAt?.getTime() !== task.nextCheckInAt?.getTime()) {
+      events.push({
+        type: 'deadline_changed',
+        reason: nextCheckInAt
+          ? `Next check-in is ${formatLocalDateTime(nextCheckInAt, property.timezone)} (${cause})`
+          : `No check-in follows any more (${cause})`,
+      });
+    }
+
+    if (events.length === 0) {
+      return;
+    }
+
+    await db.task.update({
+      where: { id: task.id },
+      data: {
+        dueAt,
+        nextCheckInAt,
+        // A cleaning moved to later is back within its time
+        ...(moved && dueAt > new Date() ? { overdueAt: null } : {}),
+        events: { createMany: { data: events } },
+      },
+    });
+
+    if (!moved || !task.assigneeId) {
+      return;
+    }
+
+    const assigneeId = await assignmentService.reassignIfUnavailable(task.id);
+    if (assigneeId === task.assigneeId) {
+      return;
+    }
+
+    const assignee = assigneeId
+      ? await db.user.findUnique({ where: { id: assigneeId }, select: { name: true } })
+      : null;
+
+    await db.taskEvent.create({
+      data: {
+        taskId: task.id,
+        type: 'reassigned',
+        reason: assignee
+          ? `${task.assignee?.name} can't take it on the new day; assigned to ${assignee.name}`
+          : `${task.assignee?.name} can't take it on the new day and no preferred cleaner is free`,
+      },
+    });
+  }
+
+  private async findChecklistItem(
+    organizationId: string,
+    taskId: string,
+    itemId: string,
+    assigneeId?: string
+  ) {
+    const item = await db.taskChecklistItem.findFirst({
+      where: {
+        id: itemId,
+        task: { id: taskId, property: { organizationId }, ...(assigneeId ? { assigneeId } : {}) },
+      },
+    });
+
+    if (!item) {
+      throw new Error('Checklist item not found');
+    }
+
+    return item;
   }
 }
 
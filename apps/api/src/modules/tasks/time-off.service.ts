@@ -0,0 +1,65 @@
+import { db } from '@unifiedstay/database';
+import type { CreateTimeOffInput, TimeOffQuery } from '@unifiedstay/shared';
+import { organizationService } from '../organizations/organization.service.js';
+
+class TimeOffService {
+  /**
+   * Time off overlapping a date range, optionally for one person only
+   */
+  async getAll(organizationId: string, query: TimeOffQuery, userId?: string) {
+    const entries = await db.timeOff.findMany({
+      where: {
+        member: { organizationId, ...(userId ? { userId } : {}) },
+        startDate: { lte: query.end },
+        endDate: { gte: query.start },
+      },
+      include: {
+        member: {
+          include: {
+            user: { select: { id: true, name: true } },
+          },
+        },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    return entries.map(({ member, ...entry }) => ({
+      ...entry,
+      userId: member.user.id,
+      name: member.user.name,
+    }));
+  }
+
+  async create(organizationId: string, userId: string, input: CreateTimeOffInput) {
+    await organizationService.assertAssignable(organizationId, userId);
+    const member = await organizationService.getMembership(userId, organizationId);
+
+    return db.timeOff.create({
+      data: {
+        memberId: member.id,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        notes: input.notes,
+      },
+    });
+  }
+
+  async delete(organizationId: string, timeOffId: string, userId?: string) {
+    const entry = await db.timeOff.findFirst({
+      where: {
+        id: timeOffId,
+        member: { organizationId, ...(userId ? { userId } : {}) },
+      },
+    });
+
+    if (!entry) {
+      throw new Error('Time off not found');
+    }
+
+    await db.timeOff.delete({
+      where: { id: timeOffId },
+    });
+  }
+}
+
+export const timeOffService = new TimeOffService();
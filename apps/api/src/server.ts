@@ -7,12 +7,21 @@ import { config } from './lib/config.js';
 import { authRoutes } from './modules/auth/auth.routes.js';
 import { propertyRoutes } from './modules/property/property.routes.js';
 import { calendarRoutes } from './modules/calendar/calendar.routes.js';
+import { icalFeedRoutes } from './modules/calendar/ical-feed.routes.js';
 import { taskRoutes } from './modules/tasks/task.routes.js';
 import { financeRoutes } from './modules/finance/finance.routes.js';
 import { dashboardRoutes } from './modules/dashboard/dashboard.routes.js';
-import { syncScheduler } from './services/sync-scheduler.js';
+import { guestRoutes } from './modules/guests/guest.routes.js';
+import { publicRoutes } from './modules/public/public.routes.js';
+import { fileRoutes } from './modules/files/file.routes.js';
+import { organizationRoutes } from './modules/organizations/organization.routes.js';
+import { notificationRoutes } from './modules/notifications/notification.routes.js';
+import { closeQueue } from './lib/queue.js';
+import { closeRateLimit } from './lib/rate-limit.js';
 
 const app = Fastify({
+  // Needed behind a load balancer so rate limits see the client's IP
+  trustProxy: config.trustProxy,
   logger: {
     level: config.nodeEnv === 'development' ? 'info' : 'warn',
     transport:
@@ -29,8 +38,11 @@ const app = Fastify({
 
 // Register plugins
 await app.register(cors, {
-  origin: config.frontendUrl,
-  credentials: true,
+  delegator: async (request) =>
+    // Booking widgets call the public API from owners' own websites
+    request.url.startsWith('/api/public/')
+      ? { origin: true }
+      : { origin: config.frontendUrl, credentials: true },
 });
 
 await app.register(cookie);
@@ -53,9 +65,15 @@ app.get('/api/health', async () => {
 await app.register(authRoutes, { prefix: '/api/auth' });
 await app.register(propertyRoutes, { prefix: '/api/properties' });
 await app.register(calendarRoutes, { prefix: '/api/calendar' });
+await app.register(icalFeedRoutes, { prefix: '/api/calendar' });
 await app.register(taskRoutes, { prefix: '/api/tasks' });
 await app.register(financeRoutes, { prefix: '/api/finance' });
 await app.register(dashboardRoutes, { prefix: '/api/dashboard' });
+await app.register(guestRoutes, { prefix: '/api/guests' });
+await app.register(organizationRoutes, { prefix: '/api/organizations' });
+await app.register(notificationRoutes, { prefix: '/api/notifications' });
+await app.register(publicRoutes, { prefix: '/api/public' });
+await app.register(fileRoutes, { prefix: '/api/files' });
 
 // Global error handler
 app.setErrorHandler((error, request, reply) => {
@@ -79,9 +97,7 @@ const start = async () => {
     await app.listen({ port: config.port, host: config.host });
     app.log.info(`Server running at http://${config.host}:${config.port}`);
 
-    // Start automatic calendar sync (every 30 minutes)
-    syncScheduler.start();
-    app.log.info('Calendar sync scheduler started (every 30 minutes)');
+    // Background jobs (calendar sync, task generation, imports) run in the worker process
   } catch (err) {
     app.log.error(err);
     process.exit(1);
@@ -90,13 +106,15 @@ const start = async () => {
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  syncScheduler.stop();
   app.close();
+  closeQueue();
+  closeRateLimit();
 });
 
 process.on('SIGINT', () => {
-  syncScheduler.stop();
   app.close();
+  closeQueue();
+  closeRateLimit();
 });
 
 start();
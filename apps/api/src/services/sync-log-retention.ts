@@ -0,0 +1,24 @@
+import { db } from '@unifiedstay/database';
+import { config } from '../lib/config.js';
+
+class SyncLogRetention {
+  /**
+   * Delete sync logs older than the retention window.
+   * Runs from the worker's daily scheduled job.
+   */
+  async prune(): Promise<number> {
+    const cutoff = new Date(Date.now() - config.syncLogRetentionDays * 24 * 60 * 60 * 1000);
+
+    const { count } = await db.syncLog.deleteMany({
+      where: { startedAt: { lt: cutoff } },
+    });
+
+    if (count > 0) {
+      console.log(`[SyncLogRetention] Deleted ${count} sync logs older than ${cutoff.toISOString()}`);
+    }
+
+    return count;
+  }
+}
+
+export const syncLogRetention = new SyncLogRetention();
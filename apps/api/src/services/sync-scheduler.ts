@@ -1,187 +1,277 @@
-import cron from 'node-cron';
 import { db } from '@unifiedstay/database';
-import { iCalAdapter, type CalendarSyncResult } from '../adapters/ical.adapter.js';
+import { iCalAdapter } from '../adapters/ical.adapter.js';
+import { enqueueChannelSync, jobQueue, waitForJob } from '../lib/queue.js';
+import { conflictService } from '../modules/calendar/conflict.service.js';
+import { bookingRuleService } from '../modules/calendar/booking-rule.service.js';
+import { guestService } from '../modules/guests/guest.service.js';
+import { taskService } from '../modules/tasks/task.service.js';
 
-interface SyncResult {
+export interface SyncResult {
   channelId: string;
   propertyName: string;
+  unitName: string;
   channel: string;
   success: boolean;
+  eventsFound: number;
   eventsAdded: number;
   eventsUpdated: number;
+  eventsCancelled: number;
+  unchanged: boolean;
   error?: string;
 }
 
-import type { ScheduledTask } from 'node-cron';
+// Mapping shape needed to reschedule a sync
+interface ScheduledMapping {
+  id: string;
+  syncIntervalMinutes: number;
+  consecutiveFailures: number;
+}
 
-class SyncScheduler {
-  private task: ScheduledTask | null = null;
-  private isRunning = false;
-  private lastRunAt: Date | null = null;
-  private lastResults: SyncResult[] = [];
+// Mapping shape needed to run and reschedule a sync
+type SyncableMapping = Parameters<typeof iCalAdapter.syncCalendar>[0] &
+  ScheduledMapping & {
+    unitId: string;
+    property: { name: string };
+    unit: { name: string };
+  };
+
+// Failing feeds back off exponentially, but are always retried at least daily
+const MAX_BACKOFF_MINUTES = 24 * 60;
+
+/**
+ * Work out when a mapping should next sync. Each consecutive failure doubles the wait.
+ */
+export function getNextSyncAt(
+  syncIntervalMinutes: number,
+  consecutiveFailures: number,
+  from = new Date()
+): Date {
+  const delayMinutes =
+    consecutiveFailures > 0
+      ? Math.min(syncIntervalMinutes * 2 ** consecutiveFailures, MAX_BACKOFF_MINUTES)
+      : syncIntervalMinutes;
+  return new Date(from.getTime() + delayMinutes * 60 * 1000);
+}
 
+class SyncScheduler {
   /**
-   * Start the automatic sync scheduler
-   * Runs every 30 minutes by default
+   * Queue a sync for each channel mapping whose next sync time has passed.
+   * Runs from the worker's every-minute scheduled job.
    */
-  start(cronExpression = '*/30 * * * *') {
-    if (this.task) {
-      console.log('[SyncScheduler] Already running');
-      return;
+  async enqueueDueSyncs(): Promise<number> {
+    const dueMappings = await db.channelMapping.findMany({
+      where: {
+        iCalUrl: { not: null },
+        OR: [{ nextSyncAt: null }, { nextSyncAt: { lte: new Date() } }],
+      },
+      select: { id: true },
+    });
+
+    await Promise.all(dueMappings.map((m) => enqueueChannelSync(m.id)));
+
+    if (dueMappings.length > 0) {
+      console.log(`[SyncScheduler] Queued ${dueMappings.length} channels to sync`);
     }
 
-    console.log('[SyncScheduler] Starting automatic sync (every 30 minutes)');
+    return dueMappings.length;
+  }
 
-    this.task = cron.schedule(cronExpression, async () => {
-      await this.runSync();
+  /**
+   * Sync all of a user's channel mappings, regardless of schedule, and wait for the results
+   */
+  async runSync(organizationId: string): Promise<SyncResult[]> {
+    const mappings = await db.channelMapping.findMany({
+      where: {
+        iCalUrl: { not: null },
+        property: { organizationId },
+      },
+      select: { id: true },
     });
 
-    // Run initial sync after 10 seconds (give server time to fully start)
-    setTimeout(() => {
-      console.log('[SyncScheduler] Running initial sync...');
-      this.runSync();
-    }, 10000);
+    const settled = await Promise.allSettled(
+      mappings.map(async (m) => waitForJob<SyncResult | null>(await enqueueChannelSync(m.id)))
+    );
+
+    const results = settled
+      .filter((r): r is PromiseFulfilledResult<SyncResult> => r.status === 'fulfilled' && !!r.value)
+      .map((r) => r.value);
+
+    const successCount = results.filter((r) => r.success).length;
+    console.log(
+      `[SyncScheduler] Sync complete: ${successCount}/${mappings.length} channels synced successfully`
+    );
+
+    return results;
   }
 
   /**
-   * Stop the scheduler
+   * Load a channel mapping and sync it. Runs in the worker for channel-sync jobs.
    */
-  stop() {
-    if (this.task) {
-      this.task.stop();
-      this.task = null;
-      console.log('[SyncScheduler] Stopped');
+  async syncMappingById(channelMappingId: string): Promise<SyncResult | null> {
+    const mapping = await db.channelMapping.findUnique({
+      where: { id: channelMappingId },
+      include: {
+        property: true,
+        unit: true,
+      },
+    });
+
+    // The mapping may have been deleted or disconnected since the job was queued
+    if (!mapping || !mapping.iCalUrl) {
+      return null;
     }
+
+    return this.syncMapping(mapping);
   }
 
   /**
-   * Run sync for all channel mappings
+   * Sync one channel mapping and record the outcome on its schedule.
+   * Feed errors are reported in the result; unexpected errors are rethrown
+   * so the queue can retry the job.
    */
-  async runSync(): Promise<SyncResult[]> {
-    if (this.isRunning) {
-      console.log('[SyncScheduler] Sync already in progress, skipping');
-      return this.lastResults;
-    }
+  async syncMapping(mapping: SyncableMapping): Promise<SyncResult> {
+    try {
+      const syncResult = await iCalAdapter.syncCalendar(mapping, mapping.unitId);
+      await this.recordOutcome(mapping, { error: syncResult.error, attempted: true });
 
-    this.isRunning = true;
-    this.lastRunAt = new Date();
-    const results: SyncResult[] = [];
+      // Only a sync that applied changes can affect the unit's calendar; failed
+      // retries while backing off must not redo this work each time
+      const changed =
+        syncResult.success &&
+        syncResult.eventsCreated + syncResult.eventsUpdated + syncResult.eventsCancelled > 0;
 
-    try {
-      console.log('[SyncScheduler] Starting sync for all channels...');
-
-      // Get all channel mappings with iCal URLs
-      const channelMappings = await db.channelMapping.findMany({
-        where: {
-          iCalUrl: { not: null },
-        },
-        include: {
-          property: {
-            include: {
-              units: true,
-            },
-          },
-        },
-      });
-
-      console.log(`[SyncScheduler] Found ${channelMappings.length} channels to sync`);
-
-      for (const mapping of channelMappings) {
-        const unit = mapping.property.units[0];
-        if (!unit) {
-          results.push({
-            channelId: mapping.id,
-            propertyName: mapping.property.name,
-            channel: mapping.channel,
-            success: false,
-            eventsAdded: 0,
-            eventsUpdated: 0,
-            error: 'No unit found for property',
-          });
-          continue;
-        }
-
-        try {
-          const syncResult = await iCalAdapter.syncCalendar(mapping, unit.id);
-
-          // Update last sync time
-          await db.channelMapping.update({
-            where: { id: mapping.id },
-            data: {
-              lastSyncAt: new Date(),
-              lastSyncError: syncResult.error || null,
-            },
-          });
-
-          results.push({
-            channelId: mapping.id,
-            propertyName: mapping.property.name,
-            channel: mapping.channel,
-            success: !syncResult.error,
-            eventsAdded: syncResult.added,
-            eventsUpdated: syncResult.updated,
-            error: syncResult.error,
-          });
-
-          console.log(
-            `[SyncScheduler] Synced ${mapping.property.name} (${mapping.channel}): +${syncResult.added} events`
-          );
-        } catch (err) {
-          const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-          
-          await db.channelMapping.update({
-            where: { id: mapping.id },
-            data: {
-              lastSyncError: errorMessage,
-            },
-          });
-
-          results.push({
-            channelId: mapping.id,
-            propertyName: mapping.property.name,
-            channel: mapping.channel,
-            success: false,
-            eventsAdded: 0,
-            eventsUpdated: 0,
-            error: errorMessage,
-          });
-
-          console.error(`[SyncScheduler] Error syncing ${mapping.property.name}:`, errorMessage);
-        }
+      if (changed) {
+        await conflictService.refreshUnits([mapping.unitId]);
+        await bookingRuleService.flagUnits([mapping.unitId]);
+        await guestService.linkUnits([mapping.unitId]);
+        // Cleanings follow moved and cancelled stays, and new stays get theirs
+        await taskService.refreshUnits([mapping.unitId], `${mapping.channel} calendar sync`);
       }
 
-      const successCount = results.filter((r) => r.success).length;
       console.log(
-        `[SyncScheduler] Sync complete: ${successCount}/${results.length} channels synced successfully`
+        syncResult.unchanged
+          ? `[SyncScheduler] Skipped ${mapping.property.name} / ${mapping.unit.name} (${mapping.channel}): feed unchanged`
+          : `[SyncScheduler] Synced ${mapping.property.name} / ${mapping.unit.name} (${mapping.channel}): +${syncResult.added} events, -${syncResult.eventsCancelled} cancelled`
       );
+
+      return {
+        channelId: mapping.id,
+        propertyName: mapping.property.name,
+        unitName: mapping.unit.name,
+        channel: mapping.channel,
+        success: !syncResult.error,
+        eventsFound: syncResult.eventsFound,
+        eventsAdded: syncResult.added,
+        eventsUpdated: syncResult.updated,
+        eventsCancelled: syncResult.eventsCancelled,
+        unchanged: !!syncResult.unchanged,
+        error: syncResult.error,
+      };
     } catch (err) {
-      console.error('[SyncScheduler] Fatal error during sync:', err);
-    } finally {
-      this.isRunning = false;
-      this.lastResults = results;
-    }
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      console.error(`[SyncScheduler] Error syncing ${mapping.property.name}:`, errorMessage);
 
-    return results;
+      await this.recordOutcome(mapping, { error: errorMessage, attempted: false });
+      throw err;
+    }
   }
 
   /**
-   * Get sync status
+   * Get sync status and per-channel schedule for a user's channels
    */
-  getStatus() {
+  async getStatus(organizationId: string) {
+    const mappings = await db.channelMapping.findMany({
+      where: {
+        iCalUrl: { not: null },
+        property: { organizationId },
+      },
+      select: {
+        id: true,
+        channel: true,
+        syncIntervalMinutes: true,
+        consecutiveFailures: true,
+        lastSyncAt: true,
+        lastSyncError: true,
+        nextSyncAt: true,
+        property: { select: { name: true } },
+        unit: { select: { name: true } },
+      },
+      orderBy: { nextSyncAt: 'asc' },
+    });
+
+    const [jobStates, latestLogs] = await Promise.all([
+      Promise.all(mappings.map((m) => jobQueue.getJobState(`channel-sync-${m.id}`))),
+      db.syncLog.findMany({
+        where: { channelMappingId: { in: mappings.map((m) => m.id) } },
+        orderBy: { startedAt: 'desc' },
+        distinct: ['channelMappingId'],
+      }),
+    ]);
+
+    const channels = mappings.map((m, i) => ({
+      channelId: m.id,
+      propertyName: m.property.name,
+      unitName: m.unit.name,
+      channel: m.channel,
+      syncIntervalMinutes: m.syncIntervalMinutes,
+      consecutiveFailures: m.consecutiveFailures,
+      lastSyncAt: m.lastSyncAt,
+      lastSyncError: m.lastSyncError,
+      isQueued: ['waiting', 'active', 'delayed', 'prioritized'].includes(jobStates[i]),
+      // Never-synced mappings are picked up on the next tick
+      nextRunAt: m.nextSyncAt ?? new Date(),
+    }));
+
+    const lastResults: SyncResult[] = latestLogs.map((log) => {
+      const mapping = mappings.find((m) => m.id === log.channelMappingId)!;
+      return {
+        channelId: mapping.id,
+        propertyName: mapping.property.name,
+        unitName: mapping.unit.name,
+        channel: mapping.channel,
+        success: log.status === 'success' || log.status === 'unchanged',
+        eventsFound: log.eventsFound,
+        eventsAdded: log.eventsCreated,
+        eventsUpdated: log.eventsUpdated,
+        eventsCancelled: log.eventsCancelled,
+        unchanged: log.status === 'unchanged',
+        error: log.error ?? undefined,
+      };
+    });
+
     return {
-      isRunning: this.isRunning,
-      lastRunAt: this.lastRunAt,
-      lastResults: this.lastResults,
-      nextRunAt: this.task ? this.getNextRunTime() : null,
+      isRunning: channels.some((c) => c.isQueued),
+      lastRunAt: channels.reduce<Date | null>(
+        (latest, c) => (c.lastSyncAt && (!latest || c.lastSyncAt > latest) ? c.lastSyncAt : latest),
+        null
+      ),
+      lastResults,
+      nextRunAt: channels.reduce<Date | null>(
+        (earliest, c) => (!earliest || c.nextRunAt < earliest ? c.nextRunAt : earliest),
+        null
+      ),
+      channels,
     };
   }
 
-  private getNextRunTime(): Date | null {
-    if (!this.lastRunAt) return null;
-    // Next run is 30 minutes after last run
-    return new Date(this.lastRunAt.getTime() + 30 * 60 * 1000);
+  /**
+   * Store the result of a sync attempt and schedule the next one
+   */
+  async recordOutcome(mapping: ScheduledMapping, outcome: { error?: string; attempted: boolean }) {
+    const now = new Date();
+    const consecutiveFailures = outcome.error ? mapping.consecutiveFailures + 1 : 0;
+
+    await db.channelMapping.update({
+      where: { id: mapping.id },
+      data: {
+        // Only count the sync as run if the adapter got far enough to report back
+        ...(outcome.attempted ? { lastSyncAt: now } : {}),
+        lastSyncError: outcome.error || null,
+        consecutiveFailures,
+        nextSyncAt: getNextSyncAt(mapping.syncIntervalMinutes, consecutiveFailures, now),
+      },
+    });
   }
 }
 
 export const syncScheduler = new SyncScheduler();
-
@@ -0,0 +1,96 @@
+import { Worker, type Job } from 'bullmq';
+import { config } from './lib/config.js';
+import {
+  QUEUE_NAME,
+  jobQueue,
+  closeQueue,
+  createRedisConnection,
+  type JobName,
+  type JobPayloads,
+} from './lib/queue.js';
+import { syncScheduler } from './services/sync-scheduler.js';
+import { syncLogRetention } from './services/sync-log-retention.js';
+import { calendarService } from './modules/calendar/calendar.service.js';
+import { taskService } from './modules/tasks/task.service.js';
+import { taskScheduleService } from './modules/tasks/task-schedule.service.js';
+import { taskSlaService } from './modules/tasks/task-sla.service.js';
+import { financeService } from './modules/finance/finance.service.js';
+import { parsePayoutCSV } from './modules/finance/payout-parser.js';
+
+type Processors = { [K in JobName]: (data: JobPayloads[K]) => Promise<unknown> };
+
+const processors: Processors = {
+  'sync-due': () => syncScheduler.enqueueDueSyncs(),
+  'channel-sync': (data) => syncScheduler.syncMappingById(data.channelMappingId),
+  'turnover-tasks': (data) =>
+    data.organizationId
+      ? taskService.generateTurnoverTasks(data.organizationId)
+      : taskService.generateAllTurnoverTasks(),
+  'payout-import': (data) =>
+    financeService.importPayouts(
+      data.organizationId,
+      data.propertyId,
+      parsePayoutCSV(data.csvContent, data.channel)
+    ),
+  'sync-log-prune': () => syncLogRetention.prune(),
+  'reservation-complete': () => calendarService.completePastReservations(),
+  'task-schedules': () => taskScheduleService.materializeAll(),
+  'task-overdue': () => taskSlaService.checkOverdue(),
+  'booking-request-expire': () => calendarService.expireBookingRequests(),
+};
+
+// Job schedulers live in Redis, so however many workers are running,
+// each tick produces exactly one job
+const schedules: { name: JobName; pattern: string }[] = [
+  { name: 'sync-due', pattern: '* * * * *' },
+  { name: 'turnover-tasks', pattern: '0 * * * *' },
+  { name: 'sync-log-prune', pattern: '30 3 * * *' },
+  { name: 'reservation-complete', pattern: '0 2 * * *' },
+  { name: 'task-schedules', pattern: '15 1 * * *' },
+  { name: 'task-overdue', pattern: '*/5 * * * *' },
+  { name: 'booking-request-expire', pattern: '*/5 * * * *' },
+];
+
+const worker = new Worker<JobPayloads[JobName], unknown, JobName>(
+  QUEUE_NAME,
+  (job) => (processors[job.name] as (data: JobPayloads[JobName]) => Promise<unknown>)(job.data),
+  {
+    connection: createRedisConnection(),
+    concurrency: config.syncConcurrency,
+  }
+);
+
+worker.on('failed', (job: Job | undefined, err) => {
+  console.error(`[Worker] ${job?.name} (${job?.id}) failed:`, err.message);
+});
+
+worker.on('error', (err) => {
+  console.error('[Worker] Error:', err);
+});
+
+const start = async () => {
+  for (const schedule of schedules) {
+    await jobQueue.upsertJobScheduler(
+      schedule.name,
+      { pattern: schedule.pattern },
+      { name: schedule.name, data: {} }
+    );
+  }
+
+  console.log(`[Worker] Processing ${QUEUE_NAME} jobs (concurrency ${config.syncConcurrency})`);
+};
+
+// Graceful shutdown: let in-flight jobs finish before exiting
+const shutdown = async () => {
+  await worker.close();
+  await closeQueue();
+  process.exit(0);
+};
+
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
+
+start().catch((err) => {
+  console.error('[Worker] Failed to start:', err);
+  process.exit(1);
+});
@@ -1,5 +1,6 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import { useAuthStore } from './stores/auth';
+import { BrowserRouter, Routes, Route, Navigate, Outlet } from 'react-router-dom';
+import { getHomePath, getUserRole, useAuthStore } from './stores/auth';
+import type { UserRole } from '@unifiedstay/shared';
 
 // Layouts
 import { DashboardLayout } from './components/layout/DashboardLayout';
@@ -8,12 +9,18 @@ import { AuthLayout } from './components/layout/AuthLayout';
 // Pages
 import { LoginPage } from './pages/auth/LoginPage';
 import { RegisterPage } from './pages/auth/RegisterPage';
+import { InvitePage } from './pages/auth/InvitePage';
 import { DashboardPage } from './pages/DashboardPage';
 import { PropertiesPage } from './pages/properties/PropertiesPage';
 import { PropertyDetailPage } from './pages/properties/PropertyDetailPage';
 import { CalendarPage } from './pages/CalendarPage';
 import { TasksPage } from './pages/TasksPage';
+import { TaskReportPage } from './pages/TaskReportPage';
 import { FinancePage } from './pages/FinancePage';
+import { GuestsPage } from './pages/guests/GuestsPage';
+import { GuestDetailPage } from './pages/guests/GuestDetailPage';
+import { TeamPage } from './pages/TeamPage';
+import { AvailabilityPage } from './pages/AvailabilityPage';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
@@ -25,6 +32,17 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+// Sends users without one of the roles to their role's home page
+function RoleRoute({ roles }: { roles: UserRole[] }) {
+  const role = useAuthStore((state) => getUserRole(state.user));
+
+  if (!roles.includes(role)) {
+    return <Navigate to={getHomePath(role)} replace />;
+  }
+
+  return <Outlet />;
+}
+
 function App() {
   return (
     <BrowserRouter>
@@ -33,6 +51,7 @@ function App() {
         <Route element={<AuthLayout />}>
           <Route path="/login" element={<LoginPage />} />
           <Route path="/register" element={<RegisterPage />} />
+          <Route path="/invite/:token" element={<InvitePage />} />
         </Route>
 
         {/* Protected dashboard routes */}
@@ -43,12 +62,25 @@ function App() {
             </ProtectedRoute>
           }
         >
-          <Route path="/" element={<DashboardPage />} />
-          <Route path="/properties" element={<PropertiesPage />} />
-          <Route path="/properties/:id" element={<PropertyDetailPage />} />
-          <Route path="/calendar" element={<CalendarPage />} />
-          <Route path="/tasks" element={<TasksPage />} />
-          <Route path="/finance" element={<FinancePage />} />
+          <Route element={<RoleRoute roles={['owner', 'co_host']} />}>
+            <Route path="/" element={<DashboardPage />} />
+            <Route path="/properties" element={<PropertiesPage />} />
+            <Route path="/properties/:id" element={<PropertyDetailPage />} />
+            <Route path="/calendar" element={<CalendarPage />} />
+            <Route path="/guests" element={<GuestsPage />} />
+            <Route path="/guests/:id" element={<GuestDetailPage />} />
+            <Route path="/tasks/report" element={<TaskReportPage />} />
+          </Route>
+          <Route element={<RoleRoute roles={['owner', 'co_host', 'bookkeeper']} />}>
+            <Route path="/finance" element={<FinancePage />} />
+          </Route>
+          <Route element={<RoleRoute roles={['owner', 'co_host', 'cleaner', 'maintenance']} />}>
+            <Route path="/tasks" element={<TasksPage />} />
+            <Route path="/availability" element={<AvailabilityPage />} />
+          </Route>
+          <Route element={<RoleRoute roles={['owner']} />}>
+            <Route path="/team" element={<TeamPage />} />
+          </Route>
         </Route>
 
         {/* Fallback */}
@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Check, X, ArrowRight, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn, formatDate, getChannelName } from '@/lib/utils';
+import type { CalendarEvent, ConflictRecord, ResolveConflictInput } from '@unifiedstay/shared';
+
+interface ConflictsPanelProps {
+  propertyId?: string;
+}
+
+function describeEvent(event: CalendarEvent) {
+  const name = event.type === 'booked' ? event.guestName || 'Guest' : `Block (${event.type})`;
+  const channel = event.channel ? ` · ${getChannelName(event.channel)}` : '';
+  return `${name}${channel}`;
+}
+
+function formatStay(event: CalendarEvent) {
+  // Stay dates are stored as UTC midnight
+  return `${formatDate(event.checkIn, { timeZone: 'UTC' })} – ${formatDate(event.checkOut, { timeZone: 'UTC' })}`;
+}
+
+export function ConflictsPanel({ propertyId }: ConflictsPanelProps) {
+  const queryClient = useQueryClient();
+  const [moveTargets, setMoveTargets] = useState<Record<string, string>>({});
+
+  const { data: conflicts } = useQuery({
+    queryKey: ['conflicts', propertyId],
+    queryFn: () =>
+      api.get<ConflictRecord[]>(`/calendar/conflicts${propertyId ? `?propertyId=${propertyId}` : ''}`),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['conflicts'] });
+    queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+    queryClient.invalidateQueries({ queryKey: ['upcoming-reservations'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-summary'] });
+  };
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: (id: string) => api.patch(`/calendar/conflicts/${id}`, { status: 'acknowledged' }),
+    onSuccess: invalidate,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: ResolveConflictInput }) =>
+      api.post(`/calendar/conflicts/${id}/resolve`, input),
+    onSuccess: invalidate,
+    onError: (err) => {
+      alert(`Could not resolve conflict: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    },
+  });
+
+  if (!conflicts || conflicts.length === 0) {
+    return null;
+  }
+
+  const isBusy = acknowledgeMutation.isPending || resolveMutation.isPending;
+  const overlapCount = conflicts.filter((c) => c.severity === 'overlap').length;
+  const warningCount = conflicts.length - overlapCount;
+
+  return (
+    <div
+      className={cn(
+        'p-4 rounded-lg border mb-6',
+        overlapCount > 0 ? 'bg-destructive/10 border-destructive/20' : 'bg-amber-500/10 border-amber-500/20'
+      )}
+    >
+      <div className="flex items-center gap-3 mb-4">
+        <AlertTriangle
+          className={cn('w-5 h-5 flex-shrink-0', overlapCount > 0 ? 'text-destructive' : 'text-amber-600')}
+        />
+        <div>
+          <p className={cn('font-medium', overlapCount > 0 ? 'text-destructive' : 'text-amber-700')}>
+            {[
+              overlapCount > 0 && `${overlapCount} booking conflict${overlapCount > 1 ? 's' : ''}`,
+              warningCount > 0 && `${warningCount} tight turnover${warningCount > 1 ? 's' : ''}`,
+            ]
+              .filter(Boolean)
+              .join(' and ')}{' '}
+            to review
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Cancel or move one of the reservations, or dismiss the warning if it isn't a problem
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {conflicts.map((conflict) => {
+          const reservations = [conflict.eventA, conflict.eventB].filter((e) => e.type === 'booked');
+          const moveTarget = moveTargets[conflict.id] ?? conflict.alternativeUnits[0]?.id ?? '';
+
+          return (
+            <div key={conflict.id} className="p-3 rounded-lg bg-card border border-border">
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {conflict.propertyName} · {conflict.unitName}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {conflict.severity === 'overlap' ? (
+                      <>
+                        Overlap {formatDate(conflict.overlapStart, { timeZone: 'UTC' })} –{' '}
+                        {formatDate(conflict.overlapEnd, { timeZone: 'UTC' })}
+                      </>
+                    ) : (
+                      <>
+                        Turnover on {formatDate(conflict.overlapEnd, { timeZone: 'UTC' })} leaves{' '}
+                        {conflict.gapHours}h to clean
+                      </>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1.5">
+                  <span
+                    className={cn(
+                      'px-2 py-0.5 rounded-full text-xs',
+                      conflict.severity === 'overlap' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                    )}
+                  >
+                    {conflict.severity === 'overlap' ? 'Double booking' : 'Tight turnover'}
+                  </span>
+                  {conflict.status === 'acknowledged' && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-muted text-muted-foreground">
+                      acknowledged
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <ul className="text-sm mb-3 space-y-1">
+                {[conflict.eventA, conflict.eventB].map((event) => (
+                  <li key={event.id} className="flex justify-between gap-3">
+                    <span>{describeEvent(event)}</span>
+                    <span className="text-muted-foreground">{formatStay(event)}</span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {reservations.map((event) => (
+                  <button
+                    key={`cancel-${event.id}`}
+                    disabled={isBusy}
+                    onClick={() => {
+                      if (confirm(`Cancel ${event.guestName || 'this reservation'}?`)) {
+                        resolveMutation.mutate({
+                          id: conflict.id,
+                          input: { action: 'cancel_reservation', reservationId: event.id },
+                        });
+                      }
+                    }}
+                    className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs bg-destructive/10 text-destructive hover:bg-destructive/20 transition-colors disabled:opacity-50"
+                  >
+                    <X size={12} />
+                    Cancel {event.guestName || 'reservation'}
+                  </button>
+                ))}
+
+                {conflict.alternativeUnits.length > 0 &&
+                  reservations.map((event) => (
+                    <div key={`move-${event.id}`} className="inline-flex items-center gap-1">
+                      <button
+                        disabled={isBusy || !moveTarget}
+                        onClick={() =>
+                          resolveMutation.mutate({
+                            id: conflict.id,
+                            input: {
+                              action: 'move_reservation',
+                              reservationId: event.id,
+                              targetUnitId: moveTarget,
+                            },
+                          })
+                        }
+                        className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs bg-primary/10 text-primary hover:bg-primary/20 transition-colors disabled:opacity-50"
+                      >
+                        <ArrowRight size={12} />
+                        Move {event.guestName || 'reservation'} to
+                      </button>
+                      <select
+                        value={moveTarget}
+                        onChange={(e) => setMoveTargets((prev) => ({ ...prev, [conflict.id]: e.target.value }))}
+                        className="px-2 py-1 rounded border border-input bg-background text-xs"
+                      >
+                        {conflict.alternativeUnits.map((unit) => (
+                          <option key={unit.id} value={unit.id}>
+                            {unit.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+
+                <button
+                  disabled={isBusy}
+                  onClick={() =>
+                    resolveMutation.mutate({ id: conflict.id, input: { action: 'false_positive' } })
+                  }
+                  className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs hover:bg-accent transition-colors disabled:opacity-50"
+                >
+                  <Check size={12} />
+                  {conflict.severity === 'overlap' ? 'Not a conflict' : 'Dismiss warning'}
+                </button>
+
+                {conflict.status === 'open' && (
+                  <button
+                    disabled={isBusy}
+                    onClick={() => acknowledgeMutation.mutate(conflict.id)}
+                    className="inline-flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs text-muted-foreground hover:bg-accent transition-colors disabled:opacity-50"
+                  >
+                    {acknowledgeMutation.isPending && acknowledgeMutation.variables === conflict.id && (
+                      <Loader2 size={12} className="animate-spin" />
+                    )}
+                    Acknowledge
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -27,6 +27,23 @@ interface PDFParseResponse {
   report: PDFReport;
 }
 
+interface ImportResult {
+  imported: number;
+  skipped: number;
+  total: number;
+}
+
+// Large CSV files are imported in the background and polled until done
+type CSVImportResponse =
+  | ({ queued: false } & ImportResult)
+  | { queued: true; jobId: string; total: number };
+
+interface ImportJob {
+  state: string;
+  result: ImportResult | null;
+  error: string | null;
+}
+
 export function ImportPayoutsModal({ open, onClose }: ImportPayoutsModalProps) {
   const [step, setStep] = useState<'upload' | 'mapping' | 'success'>('upload');
   const [propertyId, setPropertyId] = useState('');
@@ -38,7 +55,8 @@ export function ImportPayoutsModal({ open, onClose }: ImportPayoutsModalProps) {
   const [error, setError] = useState('');
   const [pdfReport, setPdfReport] = useState<PDFReport | null>(null);
   const [propertyMappings, setPropertyMappings] = useState<{ pdfPropertyName: string; propertyId: string }[]>([]);
-  const [importResult, setImportResult] = useState<{ imported: number; skipped: number; total: number } | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [importJobId, setImportJobId] = useState<string | null>(null);
 
   const queryClient = useQueryClient();
 
@@ -47,14 +65,39 @@ export function ImportPayoutsModal({ open, onClose }: ImportPayoutsModalProps) {
     queryFn: () => api.get<{ id: string; name: string }[]>('/properties'),
   });
 
+  const invalidateFinance = () => {
+    queryClient.invalidateQueries({ queryKey: ['revenues'] });
+    queryClient.invalidateQueries({ queryKey: ['finance-summary'] });
+    queryClient.invalidateQueries({ queryKey: ['import-status'] });
+  };
+
+  // Poll a background import until the worker finishes it
+  const { data: importJob } = useQuery({
+    queryKey: ['import-job', importJobId],
+    queryFn: async () => {
+      const job = await api.get<ImportJob>(`/finance/import/jobs/${importJobId}`);
+      if (job.state === 'completed' && job.result) {
+        invalidateFinance();
+        setImportResult(job.result);
+      }
+      return job;
+    },
+    enabled: !!importJobId && !importResult,
+    refetchInterval: (query) =>
+      query.state.data?.state === 'completed' || query.state.data?.state === 'failed' ? false : 2000,
+  });
+
   // CSV import mutation
   const csvMutation = useMutation({
     mutationFn: (data: { csvContent: string; propertyId: string; channel?: 'airbnb' | 'vrbo' }) =>
-      api.post<{ imported: number; skipped: number; total: number }>('/finance/import', data),
+      api.post<CSVImportResponse>('/finance/import', data),
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['revenues'] });
-      queryClient.invalidateQueries({ queryKey: ['finance-summary'] });
-      queryClient.invalidateQueries({ queryKey: ['import-status'] });
+      if (data.queued) {
+        setImportJobId(data.jobId);
+        setStep('success');
+        return;
+      }
+      invalidateFinance();
       setImportResult(data);
       setStep('success');
     },
@@ -87,9 +130,7 @@ export function ImportPayoutsModal({ open, onClose }: ImportPayoutsModalProps) {
     mutationFn: (data: { pdfBase64: string; propertyMappings: { pdfPropertyName: string; propertyId: string }[] }) =>
       api.post<{ imported: number; skipped: number; total: number }>('/finance/import/pdf', data),
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['revenues'] });
-      queryClient.invalidateQueries({ queryKey: ['finance-summary'] });
-      queryClient.invalidateQueries({ queryKey: ['import-status'] });
+      invalidateFinance();
       setImportResult(data);
       setStep('success');
     },
@@ -111,6 +152,7 @@ export function ImportPayoutsModal({ open, onClose }: ImportPayoutsModalProps) {
     setPdfReport(null);
     setPropertyMappings([]);
     setImportResult(null);
+    setImportJobId(null);
     csvMutation.reset();
     pdfParseMutation.reset();
     pdfImportMutation.reset();
@@ -251,7 +293,31 @@ export function ImportPayoutsModal({ open, onClose }: ImportPayoutsModalProps) {
           Upload your earnings PDF or payout CSV from Airbnb or Vrbo
         </p>
 
-        {step === 'success' && importResult ? (
+        {step === 'success' && importJobId && !importResult ? (
+          <div className="text-center py-8">
+            {importJob?.state === 'failed' ? (
+              <>
+                <AlertCircle className="w-16 h-16 mx-auto text-destructive mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Import Failed</h3>
+                <p className="text-muted-foreground mb-4">{importJob.error || 'The import could not be completed'}</p>
+              </>
+            ) : (
+              <>
+                <Loader2 className="w-16 h-16 mx-auto text-primary animate-spin mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Importing in the background</h3>
+                <p className="text-muted-foreground mb-4">
+                  This is a large file. You can close this window; your payouts will appear once the import finishes.
+                </p>
+              </>
+            )}
+            <button
+              onClick={handleClose}
+              className="px-6 py-2.5 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        ) : step === 'success' && importResult ? (
           <div className="text-center py-8">
             <CheckCircle className="w-16 h-16 mx-auto text-green-500 mb-4" />
             <h3 className="text-lg font-semibold mb-2">Import Complete!</h3>
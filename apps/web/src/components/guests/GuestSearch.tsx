@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Search, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { GuestTag } from './GuestTag';
+
+interface GuestResult {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  tags: string[];
+  _count: { reservations: number };
+}
+
+// Find a guest by name, email or phone and jump to their profile
+export function GuestSearch() {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const search = query.trim();
+
+  const { data, isFetching } = useQuery({
+    queryKey: ['guests', 'search', search],
+    queryFn: () => api.getPaginated<GuestResult>(`/guests?limit=8&search=${encodeURIComponent(search)}`),
+    enabled: search.length >= 2,
+  });
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so clicking a result registers before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder="Find a guest..."
+        className="w-56 pl-9 pr-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+      />
+
+      {open && search.length >= 2 && (
+        <div className="absolute right-0 z-20 mt-1 w-80 bg-card rounded-lg border border-border shadow-lg overflow-hidden">
+          {isFetching && !data ? (
+            <div className="flex justify-center py-3">
+              <Loader2 className="animate-spin text-muted-foreground" size={16} />
+            </div>
+          ) : !data || data.items.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-muted-foreground">No guests found</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {data.items.map((guest) => (
+                <Link key={guest.id} to={`/guests/${guest.id}`} className="block px-3 py-2 hover:bg-accent transition-colors">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{guest.name}</span>
+                    {guest.tags.map((tag) => (
+                      <GuestTag key={tag} tag={tag} />
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[guest.email, guest.phone].filter(Boolean).join(' · ') || 'No contact details'} ·{' '}
+                    {guest._count.reservations} {guest._count.reservations === 1 ? 'booking' : 'bookings'}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { cn } from '@/lib/utils';
+
+export function GuestTag({ tag }: { tag: string }) {
+  return (
+    <span
+      className={cn(
+        'px-2 py-0.5 rounded-full text-xs',
+        tag === 'do not rebook' ? 'bg-red-100 text-red-700' : 'bg-muted text-muted-foreground'
+      )}
+    >
+      {tag}
+    </span>
+  );
+}
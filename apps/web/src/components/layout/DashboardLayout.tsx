@@ -3,28 +3,67 @@ import {
   LayoutDashboard,
   Building2,
   Calendar,
+  CalendarOff,
+  Users,
   ClipboardList,
   DollarSign,
+  UserCog,
   LogOut,
   Menu,
   X,
+  type LucideIcon,
 } from 'lucide-react';
 import { useState } from 'react';
-import { useAuthStore } from '@/stores/auth';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getHomePath, getUserRole, useAuthStore, type User } from '@/stores/auth';
+import { api } from '@/lib/api';
 import { cn } from '@/lib/utils';
+import { NotificationsMenu } from './NotificationsMenu';
+import type { UserRole } from '@unifiedstay/shared';
 
-const navItems = [
-  { to: '/', icon: LayoutDashboard, label: 'Dashboard' },
-  { to: '/properties', icon: Building2, label: 'Properties' },
-  { to: '/calendar', icon: Calendar, label: 'Calendar' },
-  { to: '/tasks', icon: ClipboardList, label: 'Tasks' },
-  { to: '/finance', icon: DollarSign, label: 'Finance' },
+const managers: UserRole[] = ['owner', 'co_host'];
+
+const navItems: { to: string; icon: LucideIcon; label: string; roles: UserRole[] }[] = [
+  { to: '/', icon: LayoutDashboard, label: 'Dashboard', roles: managers },
+  { to: '/properties', icon: Building2, label: 'Properties', roles: managers },
+  { to: '/calendar', icon: Calendar, label: 'Calendar', roles: managers },
+  { to: '/guests', icon: Users, label: 'Guests', roles: managers },
+  { to: '/tasks', icon: ClipboardList, label: 'Tasks', roles: [...managers, 'cleaner', 'maintenance'] },
+  {
+    to: '/availability',
+    icon: CalendarOff,
+    label: 'Availability',
+    roles: [...managers, 'cleaner', 'maintenance'],
+  },
+  { to: '/finance', icon: DollarSign, label: 'Finance', roles: [...managers, 'bookkeeper'] },
+  { to: '/team', icon: UserCog, label: 'Team', roles: ['owner'] },
 ];
 
 export function DashboardLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const { user, logout } = useAuthStore();
+  const { user, logout, setAuth } = useAuthStore();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const role = getUserRole(user);
+
+  const { data: organizations } = useQuery({
+    queryKey: ['organizations'],
+    queryFn: () => api.get<{ id: string; name: string; role: UserRole }[]>('/organizations'),
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: (organizationId: string) =>
+      api.post<{ user: User; accessToken: string }>(`/organizations/${organizationId}/switch`),
+    onSuccess: (result) => {
+      setAuth(result.user, result.accessToken);
+      // Everything cached belongs to the previous organization
+      queryClient.clear();
+      navigate(getHomePath(result.user.role));
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to switch organization');
+    },
+  });
 
   const handleLogout = () => {
     logout();
@@ -67,13 +106,31 @@ export function DashboardLayout() {
             </div>
             <div>
               <h1 className="font-display font-bold text-lg">UnifiedStay</h1>
-              <p className="text-xs text-muted-foreground">Property Manager</p>
+              <p className="text-xs text-muted-foreground">{user?.organization?.name ?? 'Property Manager'}</p>
             </div>
           </div>
 
+          {/* Organization switcher */}
+          {organizations && organizations.length > 1 && (
+            <div className="px-4 pt-4">
+              <select
+                value={user?.organization?.id}
+                onChange={(e) => switchMutation.mutate(e.target.value)}
+                disabled={switchMutation.isPending}
+                className="w-full px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                {organizations.map((organization) => (
+                  <option key={organization.id} value={organization.id}>
+                    {organization.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Navigation */}
           <nav className="flex-1 px-4 py-6 space-y-1">
-            {navItems.map((item) => (
+            {navItems.filter((item) => item.roles.includes(role)).map((item) => (
               <NavLink
                 key={item.to}
                 to={item.to}
@@ -95,7 +152,7 @@ export function DashboardLayout() {
           </nav>
 
           {/* User section */}
-          <div className="p-4 border-t border-border">
+          <div className="relative p-4 border-t border-border">
             <div className="flex items-center justify-between px-4 py-2">
               <div className="flex items-center gap-3">
                 <div className="w-8 h-8 rounded-full bg-gradient-to-br from-primary/20 to-purple-500/20 flex items-center justify-center">
@@ -108,12 +165,15 @@ export function DashboardLayout() {
                   <p className="text-xs text-muted-foreground truncate">{user?.email}</p>
                 </div>
               </div>
-              <button
-                onClick={handleLogout}
-                className="p-2 rounded-lg text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-colors"
-              >
-                <LogOut size={16} />
-              </button>
+              <div className="flex items-center">
+                <NotificationsMenu />
+                <button
+                  onClick={handleLogout}
+                  className="p-2 rounded-lg text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-colors"
+                >
+                  <LogOut size={16} />
+                </button>
+              </div>
             </div>
           </div>
         </div>
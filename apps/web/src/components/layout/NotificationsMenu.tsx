@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell } from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn, formatRelativeDate, formatTime } from '@/lib/utils';
+
+interface Notification {
+  id: string;
+  taskId: string | null;
+  message: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Bell with the member's notifications, e.g. overdue tasks escalated to owners
+export function NotificationsMenu() {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: () => api.get<{ notifications: Notification[]; unread: number }>('/notifications'),
+    // New escalations show up without reloading the page
+    refetchInterval: 60000,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: (id: string) => api.post(`/notifications/${id}/read`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+  });
+
+  const readAllMutation = useMutation({
+    mutationFn: () => api.post('/notifications/read-all'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to mark notifications read');
+    },
+  });
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.readAt) {
+      readMutation.mutate(notification.id);
+    }
+    setOpen(false);
+    if (notification.taskId) {
+      navigate('/tasks');
+    }
+  };
+
+  const unread = data?.unread ?? 0;
+
+  // Opens above the sidebar's user section, which positions it
+  return (
+    <div>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-lg text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-colors"
+      >
+        <Bell size={16} />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-[10px] font-medium leading-4 text-white text-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full inset-x-4 mb-2 bg-card rounded-xl border border-border shadow-lg">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <h3 className="text-sm font-semibold">Notifications</h3>
+            {unread > 0 && (
+              <button
+                onClick={() => readAllMutation.mutate()}
+                disabled={readAllMutation.isPending}
+                className="text-xs text-primary hover:underline"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          {!data || data.notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-muted-foreground text-center">No notifications</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y divide-border">
+              {data.notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={cn(
+                    'block w-full px-4 py-3 text-left hover:bg-accent transition-colors',
+                    !notification.readAt && 'bg-primary/5'
+                  )}
+                >
+                  <p className={cn('text-sm', !notification.readAt && 'font-medium')}>
+                    {notification.message}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatRelativeDate(notification.createdAt)} at{' '}
+                    {formatTime(notification.createdAt)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+
+interface AccessNotesProps {
+  propertyId: string;
+  accessNotes: string | null;
+}
+
+export function AccessNotes({ propertyId, accessNotes }: AccessNotesProps) {
+  const [value, setValue] = useState(accessNotes ?? '');
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setValue(accessNotes ?? '');
+  }, [accessNotes]);
+
+  const saveMutation = useMutation({
+    mutationFn: (notes: string | null) => api.put(`/properties/${propertyId}`, { accessNotes: notes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['property', propertyId] });
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to save access notes');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(value.trim() || null);
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 mb-8">
+      <div className="flex items-center gap-2 mb-1">
+        <KeyRound size={18} className="text-muted-foreground" />
+        <h2 className="text-lg font-semibold">Access Notes</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Door codes, parking and wifi details. Cleaners and maintenance staff see these on their tasks.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <textarea
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          rows={3}
+          maxLength={2000}
+          className="w-full px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring resize-none"
+          placeholder="e.g. Lockbox code 4821, park in bay 3"
+        />
+        <button
+          type="submit"
+          disabled={saveMutation.isPending || value.trim() === (accessNotes ?? '')}
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {saveMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+          Save
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -7,13 +7,15 @@ import type { ChannelType } from '@unifiedstay/shared';
 
 interface AddChannelModalProps {
   propertyId: string;
+  units: { id: string; name: string }[];
   open: boolean;
   onClose: () => void;
 }
 
 const channels: ChannelType[] = ['airbnb', 'vrbo', 'booking', 'direct', 'other'];
 
-export function AddChannelModal({ propertyId, open, onClose }: AddChannelModalProps) {
+export function AddChannelModal({ propertyId, units, open, onClose }: AddChannelModalProps) {
+  const [unitId, setUnitId] = useState('');
   const [channel, setChannel] = useState<ChannelType>('airbnb');
   const [iCalUrl, setICalUrl] = useState('');
   const [externalId, setExternalId] = useState('');
@@ -22,7 +24,7 @@ export function AddChannelModal({ propertyId, open, onClose }: AddChannelModalPr
   const queryClient = useQueryClient();
 
   const mutation = useMutation({
-    mutationFn: (data: { channel: ChannelType; iCalUrl?: string; externalId?: string }) =>
+    mutationFn: (data: { unitId?: string; channel: ChannelType; iCalUrl?: string; externalId?: string }) =>
       api.post(`/properties/${propertyId}/channels`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['property', propertyId] });
@@ -34,6 +36,7 @@ export function AddChannelModal({ propertyId, open, onClose }: AddChannelModalPr
   });
 
   const handleClose = () => {
+    setUnitId('');
     setChannel('airbnb');
     setICalUrl('');
     setExternalId('');
@@ -45,6 +48,7 @@ export function AddChannelModal({ propertyId, open, onClose }: AddChannelModalPr
     e.preventDefault();
     setError('');
     mutation.mutate({
+      unitId: units.length > 1 ? unitId || undefined : units[0]?.id,
       channel,
       iCalUrl: iCalUrl || undefined,
       externalId: externalId || undefined,
@@ -73,6 +77,25 @@ export function AddChannelModal({ propertyId, open, onClose }: AddChannelModalPr
             </div>
           )}
 
+          {units.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Unit</label>
+              <select
+                value={unitId}
+                onChange={(e) => setUnitId(e.target.value)}
+                required
+                className="w-full px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <option value="">Select the unit this listing is for</option>
+                {units.map((unit) => (
+                  <option key={unit.id} value={unit.id}>
+                    {unit.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium mb-2">Channel</label>
             <div className="grid grid-cols-2 gap-2">
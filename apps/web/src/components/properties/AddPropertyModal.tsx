@@ -24,6 +24,8 @@ export function AddPropertyModal({ open, onClose }: AddPropertyModalProps) {
   const [timezone, setTimezone] = useState('America/New_York');
   const [defaultMinNights, setDefaultMinNights] = useState(1);
   const [cleaningBufferHours, setCleaningBufferHours] = useState(4);
+  const [checkInTime, setCheckInTime] = useState('16:00');
+  const [checkOutTime, setCheckOutTime] = useState('11:00');
   const [channelInputs, setChannelInputs] = useState<ChannelInput[]>([]);
   const [error, setError] = useState('');
 
@@ -36,6 +38,8 @@ export function AddPropertyModal({ open, onClose }: AddPropertyModalProps) {
       timezone: string;
       defaultMinNights: number;
       cleaningBufferHours: number;
+      checkInTime: string;
+      checkOutTime: string;
       channels: { channel: ChannelType; iCalUrl?: string }[];
     }) => {
       // Create property first
@@ -45,6 +49,8 @@ export function AddPropertyModal({ open, onClose }: AddPropertyModalProps) {
         timezone: data.timezone,
         defaultMinNights: data.defaultMinNights,
         cleaningBufferHours: data.cleaningBufferHours,
+        checkInTime: data.checkInTime,
+        checkOutTime: data.checkOutTime,
       });
 
       // Add channels if any
@@ -74,6 +80,8 @@ export function AddPropertyModal({ open, onClose }: AddPropertyModalProps) {
     setTimezone('America/New_York');
     setDefaultMinNights(1);
     setCleaningBufferHours(4);
+    setCheckInTime('16:00');
+    setCheckOutTime('11:00');
     setChannelInputs([]);
     setError('');
     onClose();
@@ -107,6 +115,8 @@ export function AddPropertyModal({ open, onClose }: AddPropertyModalProps) {
       timezone,
       defaultMinNights,
       cleaningBufferHours,
+      checkInTime,
+      checkOutTime,
       channels: channelInputs.filter((c) => c.iCalUrl),
     });
   };
@@ -196,6 +206,29 @@ export function AddPropertyModal({ open, onClose }: AddPropertyModalProps) {
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Check-in Time</label>
+              <input
+                type="time"
+                value={checkInTime}
+                onChange={(e) => setCheckInTime(e.target.value)}
+                className="w-full px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Check-out Time</label>
+              <input
+                type="time"
+                value={checkOutTime}
+                onChange={(e) => setCheckOutTime(e.target.value)}
+                className="w-full px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+                required
+              />
+            </div>
+          </div>
+
           {/* Calendar Sync Section */}
           <div className="border-t border-border pt-4 mt-4">
             <div className="flex items-center justify-between mb-3">
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Check, Copy, Globe, Loader2 } from 'lucide-react';
+import { api, getPublicApiUrl } from '@/lib/api';
+
+interface BookingLinkProps {
+  propertyId: string;
+  slug: string | null;
+}
+
+export function BookingLink({ propertyId, slug }: BookingLinkProps) {
+  const [value, setValue] = useState(slug ?? '');
+  const [copied, setCopied] = useState(false);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setValue(slug ?? '');
+  }, [slug]);
+
+  const saveMutation = useMutation({
+    mutationFn: (newSlug: string | null) => api.put(`/properties/${propertyId}`, { slug: newSlug }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['property', propertyId] });
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to save booking link');
+    },
+  });
+
+  const widgetUrl = slug ? getPublicApiUrl(`/public/properties/${slug}`) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(value.trim() || null);
+  };
+
+  const handleCopy = async () => {
+    if (!widgetUrl) return;
+    await navigator.clipboard.writeText(widgetUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 mb-8">
+      <div className="flex items-center gap-2 mb-1">
+        <Globe size={18} className="text-muted-foreground" />
+        <h2 className="text-lg font-semibold">Direct Booking Link</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Set a link name to let your website's booking widget show availability and send booking requests.
+        Requests arrive as pending reservations for you to confirm.
+      </p>
+
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 mb-3">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value.toLowerCase())}
+          className="flex-1 px-3 py-1.5 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          placeholder="e.g. seaside-cottage"
+        />
+        <button
+          type="submit"
+          disabled={saveMutation.isPending || value.trim() === (slug ?? '')}
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {saveMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+          {value.trim() ? 'Save' : 'Turn Off'}
+        </button>
+      </form>
+
+      {widgetUrl && (
+        <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50">
+          <code className="text-xs text-muted-foreground truncate">{widgetUrl}</code>
+          <button
+            onClick={handleCopy}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary/10 text-primary hover:bg-primary/20 transition-colors flex-shrink-0"
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />}
+            {copied ? 'Copied' : 'Copy API URL'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn, formatDate } from '@/lib/utils';
+import type { CreateBookingRuleInput } from '@unifiedstay/shared';
+
+interface BookingRule {
+  id: string;
+  name: string | null;
+  unit: { id: string; name: string } | null;
+  startDate: string | null;
+  endDate: string | null;
+  minNights: number | null;
+  maxNights: number | null;
+  minNoticeDays: number | null;
+  allowSameDayTurnover: boolean | null;
+  checkInDays: number[];
+}
+
+interface BookingRulesProps {
+  propertyId: string;
+  units: { id: string; name: string }[];
+}
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function describeRule(rule: BookingRule) {
+  const parts: string[] = [];
+  if (rule.minNights !== null) parts.push(`Min ${rule.minNights} nights`);
+  if (rule.maxNights !== null) parts.push(`Max ${rule.maxNights} nights`);
+  if (rule.minNoticeDays !== null) parts.push(`${rule.minNoticeDays} days' notice`);
+  if (rule.allowSameDayTurnover === false) parts.push('No same-day turnover');
+  if (rule.allowSameDayTurnover === true) parts.push('Same-day turnover allowed');
+  if (rule.checkInDays.length > 0) {
+    parts.push(`Check-in ${[...rule.checkInDays].sort().map((d) => weekdays[d]).join('/')}`);
+  }
+  return parts.join(' · ') || 'No limits set';
+}
+
+const optionalNumber = (value: string) => (value === '' ? null : parseInt(value));
+
+export function BookingRules({ propertyId, units }: BookingRulesProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [unitId, setUnitId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [minNights, setMinNights] = useState('');
+  const [maxNights, setMaxNights] = useState('');
+  const [minNoticeDays, setMinNoticeDays] = useState('');
+  const [sameDayTurnover, setSameDayTurnover] = useState('');
+  const [checkInDays, setCheckInDays] = useState<number[]>([]);
+  const queryClient = useQueryClient();
+
+  const { data: rules, isLoading } = useQuery({
+    queryKey: ['booking-rules', propertyId],
+    queryFn: () => api.get<BookingRule[]>(`/properties/${propertyId}/booking-rules`),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['booking-rules', propertyId] });
+    queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+    queryClient.invalidateQueries({ queryKey: ['upcoming-reservations'] });
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setName('');
+    setUnitId('');
+    setStartDate('');
+    setEndDate('');
+    setMinNights('');
+    setMaxNights('');
+    setMinNoticeDays('');
+    setSameDayTurnover('');
+    setCheckInDays([]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (input: CreateBookingRuleInput) =>
+      api.post(`/properties/${propertyId}/booking-rules`, input),
+    onSuccess: () => {
+      invalidate();
+      resetForm();
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to add booking rule');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: string) => api.delete(`/properties/${propertyId}/booking-rules/${ruleId}`),
+    onSuccess: invalidate,
+  });
+
+  const toggleDay = (day: number) => {
+    setCheckInDays((days) => (days.includes(day) ? days.filter((d) => d !== day) : [...days, day]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      name: name.trim() || null,
+      unitId: unitId || null,
+      startDate: startDate ? new Date(startDate) : null,
+      endDate: endDate ? new Date(endDate) : null,
+      minNights: optionalNumber(minNights),
+      maxNights: optionalNumber(maxNights),
+      minNoticeDays: optionalNumber(minNoticeDays),
+      allowSameDayTurnover: sameDayTurnover === '' ? null : sameDayTurnover === 'yes',
+      checkInDays,
+    });
+  };
+
+  const inputClass =
+    'w-full px-3 py-1.5 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold">Booking Rules</h2>
+          <p className="text-sm text-muted-foreground">
+            Direct bookings that break a rule are refused. Channel bookings are flagged on the calendar.
+            Dated rules override the others for check-ins in their range.
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors flex-shrink-0"
+          >
+            <Plus size={16} />
+            Add Rule
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="animate-spin text-muted-foreground" size={20} />
+        </div>
+      ) : !rules || rules.length === 0 ? (
+        !showForm && (
+          <p className="text-sm text-muted-foreground">No rules yet. Stays must be at least the default minimum nights.</p>
+        )
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50">
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {rule.name || 'Rule'}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {' '}
+                    · {rule.unit ? rule.unit.name : 'All units'}
+                    {rule.startDate &&
+                      rule.endDate &&
+                      ` · ${formatDate(rule.startDate, { timeZone: 'UTC' })} – ${formatDate(rule.endDate, { timeZone: 'UTC' })}`}
+                  </span>
+                </p>
+                <p className="text-sm text-muted-foreground">{describeRule(rule)}</p>
+              </div>
+              <button
+                onClick={() => deleteMutation.mutate(rule.id)}
+                disabled={deleteMutation.isPending}
+                className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                title="Delete rule"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mt-4 p-4 rounded-lg border border-border space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              placeholder="Name, e.g. Christmas"
+            />
+            <select value={unitId} onChange={(e) => setUnitId(e.target.value)} className={inputClass}>
+              <option value="">All units</option>
+              {units.map((unit) => (
+                <option key={unit.id} value={unit.id}>
+                  {unit.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Check-ins from (optional)</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Until</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClass}
+                required={!!startDate}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-3">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Min nights</label>
+              <input type="number" min={1} value={minNights} onChange={(e) => setMinNights(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Max nights</label>
+              <input type="number" min={1} value={maxNights} onChange={(e) => setMaxNights(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Notice (days)</label>
+              <input
+                type="number"
+                min={0}
+                value={minNoticeDays}
+                onChange={(e) => setMinNoticeDays(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Same-day turnover</label>
+              <select value={sameDayTurnover} onChange={(e) => setSameDayTurnover(e.target.value)} className={inputClass}>
+                <option value="">Inherit</option>
+                <option value="yes">Allowed</option>
+                <option value="no">Not allowed</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">Check-in days (none selected = any day)</label>
+            <div className="flex gap-1">
+              {weekdays.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={cn(
+                    'px-2.5 py-1 rounded-full text-xs transition-colors',
+                    checkInDays.includes(day)
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-background border border-border text-muted-foreground hover:bg-accent'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-accent transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {createMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+              Save Rule
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,425 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import type { CreateTaxRateInput, UpsertRatePlanInput } from '@unifiedstay/shared';
+
+// Decimal columns come back from the API as strings
+interface RateSeason {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  nightlyRate: string;
+  weekendNightlyRate: string | null;
+}
+
+interface RatePlan {
+  currency: string;
+  baseNightlyRate: string;
+  weekendNightlyRate: string | null;
+  cleaningFee: string;
+  extraGuestFee: string;
+  includedGuests: number;
+  maxGuests: number | null;
+  seasons: RateSeason[];
+}
+
+interface TaxRate {
+  id: string;
+  name: string;
+  percent: string;
+  appliesToCleaningFee: boolean;
+}
+
+interface RatesAndTaxesProps {
+  propertyId: string;
+  units: { id: string; name: string }[];
+}
+
+const optionalAmount = (value: string) => (value === '' ? null : parseFloat(value));
+
+function toSeasonInput(season: RateSeason): UpsertRatePlanInput['seasons'][number] {
+  return {
+    name: season.name,
+    startDate: new Date(season.startDate),
+    endDate: new Date(season.endDate),
+    nightlyRate: parseFloat(season.nightlyRate),
+    weekendNightlyRate: season.weekendNightlyRate === null ? null : parseFloat(season.weekendNightlyRate),
+  };
+}
+
+export function RatesAndTaxes({ propertyId, units }: RatesAndTaxesProps) {
+  const [unitId, setUnitId] = useState(units[0]?.id ?? '');
+  const [baseNightlyRate, setBaseNightlyRate] = useState('');
+  const [weekendNightlyRate, setWeekendNightlyRate] = useState('');
+  const [cleaningFee, setCleaningFee] = useState('');
+  const [extraGuestFee, setExtraGuestFee] = useState('');
+  const [includedGuests, setIncludedGuests] = useState('2');
+  const [maxGuests, setMaxGuests] = useState('');
+  const [season, setSeason] = useState({ name: '', startDate: '', endDate: '', nightlyRate: '', weekendNightlyRate: '' });
+  const [tax, setTax] = useState({ name: '', percent: '', appliesToCleaningFee: true });
+  const queryClient = useQueryClient();
+
+  const { data: ratePlan, isLoading } = useQuery({
+    queryKey: ['rate-plan', propertyId, unitId],
+    queryFn: () => api.get<RatePlan | null>(`/properties/${propertyId}/units/${unitId}/rates`),
+    enabled: !!unitId,
+  });
+
+  const { data: taxRates } = useQuery({
+    queryKey: ['tax-rates', propertyId],
+    queryFn: () => api.get<TaxRate[]>(`/properties/${propertyId}/tax-rates`),
+  });
+
+  // Load the selected unit's rates into the form
+  useEffect(() => {
+    setBaseNightlyRate(ratePlan ? ratePlan.baseNightlyRate : '');
+    setWeekendNightlyRate(ratePlan?.weekendNightlyRate ?? '');
+    setCleaningFee(ratePlan ? ratePlan.cleaningFee : '');
+    setExtraGuestFee(ratePlan ? ratePlan.extraGuestFee : '');
+    setIncludedGuests(ratePlan ? String(ratePlan.includedGuests) : '2');
+    setMaxGuests(ratePlan?.maxGuests ? String(ratePlan.maxGuests) : '');
+  }, [ratePlan]);
+
+  const saveMutation = useMutation({
+    mutationFn: (input: UpsertRatePlanInput) =>
+      api.put(`/properties/${propertyId}/units/${unitId}/rates`, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rate-plan', propertyId, unitId] });
+      setSeason({ name: '', startDate: '', endDate: '', nightlyRate: '', weekendNightlyRate: '' });
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to save rates');
+    },
+  });
+
+  const addTaxMutation = useMutation({
+    mutationFn: (input: CreateTaxRateInput) => api.post(`/properties/${propertyId}/tax-rates`, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tax-rates', propertyId] });
+      setTax({ name: '', percent: '', appliesToCleaningFee: true });
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to add tax rate');
+    },
+  });
+
+  const deleteTaxMutation = useMutation({
+    mutationFn: (taxRateId: string) => api.delete(`/properties/${propertyId}/tax-rates/${taxRateId}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['tax-rates', propertyId] }),
+  });
+
+  const saveRates = (seasons: UpsertRatePlanInput['seasons']) => {
+    saveMutation.mutate({
+      currency: ratePlan?.currency ?? 'USD',
+      baseNightlyRate: parseFloat(baseNightlyRate),
+      weekendNightlyRate: optionalAmount(weekendNightlyRate),
+      cleaningFee: optionalAmount(cleaningFee) ?? 0,
+      extraGuestFee: optionalAmount(extraGuestFee) ?? 0,
+      includedGuests: parseInt(includedGuests) || 1,
+      maxGuests: maxGuests ? parseInt(maxGuests) : null,
+      seasons,
+    });
+  };
+
+  const existingSeasons = (ratePlan?.seasons ?? []).map(toSeasonInput);
+
+  const handleSaveRates = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveRates(existingSeasons);
+  };
+
+  const handleAddSeason = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveRates([
+      ...existingSeasons,
+      {
+        name: season.name.trim(),
+        startDate: new Date(season.startDate),
+        endDate: new Date(season.endDate),
+        nightlyRate: parseFloat(season.nightlyRate),
+        weekendNightlyRate: optionalAmount(season.weekendNightlyRate),
+      },
+    ]);
+  };
+
+  const handleRemoveSeason = (seasonId: string) => {
+    saveRates((ratePlan?.seasons ?? []).filter((s) => s.id !== seasonId).map(toSeasonInput));
+  };
+
+  const handleAddTax = (e: React.FormEvent) => {
+    e.preventDefault();
+    addTaxMutation.mutate({
+      name: tax.name.trim(),
+      percent: parseFloat(tax.percent),
+      appliesToCleaningFee: tax.appliesToCleaningFee,
+    });
+  };
+
+  const inputClass =
+    'w-full px-3 py-1.5 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+  const currency = ratePlan?.currency ?? 'USD';
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold">Rates & Taxes</h2>
+          <p className="text-sm text-muted-foreground">
+            Used to quote direct bookings. Weekend rates apply to Friday and Saturday nights.
+          </p>
+        </div>
+        {units.length > 1 && (
+          <select
+            value={unitId}
+            onChange={(e) => setUnitId(e.target.value)}
+            className="px-3 py-1.5 rounded-lg border border-input bg-background text-sm flex-shrink-0"
+          >
+            {units.map((unit) => (
+              <option key={unit.id} value={unit.id}>
+                {unit.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="animate-spin text-muted-foreground" size={20} />
+        </div>
+      ) : (
+        <>
+          <form onSubmit={handleSaveRates} className="space-y-3 mb-6">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Nightly rate</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={baseNightlyRate}
+                  onChange={(e) => setBaseNightlyRate(e.target.value)}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Weekend rate (optional)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={weekendNightlyRate}
+                  onChange={(e) => setWeekendNightlyRate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Cleaning fee</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={cleaningFee}
+                  onChange={(e) => setCleaningFee(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Extra guest fee (per night)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={extraGuestFee}
+                  onChange={(e) => setExtraGuestFee(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Guests included</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={includedGuests}
+                  onChange={(e) => setIncludedGuests(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Max guests (optional)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={maxGuests}
+                  onChange={(e) => setMaxGuests(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saveMutation.isPending}
+                className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {saveMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+                Save Rates
+              </button>
+            </div>
+          </form>
+
+          {ratePlan && (
+            <div className="mb-6">
+              <h3 className="text-sm font-medium mb-2">Seasons</h3>
+              {ratePlan.seasons.length > 0 && (
+                <div className="space-y-2 mb-3">
+                  {ratePlan.seasons.map((s) => (
+                    <div key={s.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50">
+                      <p className="text-sm">
+                        <span className="font-medium">{s.name}</span>
+                        <span className="text-muted-foreground">
+                          {' '}
+                          · {formatDate(s.startDate, { timeZone: 'UTC' })} – {formatDate(s.endDate, { timeZone: 'UTC' })} ·{' '}
+                          {formatCurrency(parseFloat(s.nightlyRate), currency)}
+                          {s.weekendNightlyRate &&
+                            ` (weekends ${formatCurrency(parseFloat(s.weekendNightlyRate), currency)})`}
+                        </span>
+                      </p>
+                      <button
+                        onClick={() => handleRemoveSeason(s.id)}
+                        disabled={saveMutation.isPending}
+                        className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                        title="Remove season"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <form onSubmit={handleAddSeason} className="grid grid-cols-6 gap-2">
+                <input
+                  type="text"
+                  value={season.name}
+                  onChange={(e) => setSeason({ ...season, name: e.target.value })}
+                  className={inputClass}
+                  placeholder="Name"
+                  required
+                />
+                <input
+                  type="date"
+                  value={season.startDate}
+                  onChange={(e) => setSeason({ ...season, startDate: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="date"
+                  value={season.endDate}
+                  onChange={(e) => setSeason({ ...season, endDate: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={season.nightlyRate}
+                  onChange={(e) => setSeason({ ...season, nightlyRate: e.target.value })}
+                  className={inputClass}
+                  placeholder="Nightly"
+                  required
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={season.weekendNightlyRate}
+                  onChange={(e) => setSeason({ ...season, weekendNightlyRate: e.target.value })}
+                  className={inputClass}
+                  placeholder="Weekend"
+                />
+                <button
+                  type="submit"
+                  disabled={saveMutation.isPending}
+                  className="inline-flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-accent transition-colors disabled:opacity-50"
+                >
+                  <Plus size={14} />
+                  Season
+                </button>
+              </form>
+            </div>
+          )}
+        </>
+      )}
+
+      <h3 className="text-sm font-medium mb-2">Taxes</h3>
+      {taxRates && taxRates.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {taxRates.map((rate) => (
+            <div key={rate.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50">
+              <p className="text-sm">
+                <span className="font-medium">{rate.name}</span>
+                <span className="text-muted-foreground">
+                  {' '}
+                  · {parseFloat(rate.percent)}%{rate.appliesToCleaningFee ? '' : ' · not on cleaning fee'}
+                </span>
+              </p>
+              <button
+                onClick={() => deleteTaxMutation.mutate(rate.id)}
+                disabled={deleteTaxMutation.isPending}
+                className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                title="Delete tax rate"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={handleAddTax} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={tax.name}
+          onChange={(e) => setTax({ ...tax, name: e.target.value })}
+          className={inputClass}
+          placeholder="Name, e.g. Occupancy tax"
+          required
+        />
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step="0.01"
+          value={tax.percent}
+          onChange={(e) => setTax({ ...tax, percent: e.target.value })}
+          className={`${inputClass} max-w-[7rem]`}
+          placeholder="%"
+          required
+        />
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={tax.appliesToCleaningFee}
+            onChange={(e) => setTax({ ...tax, appliesToCleaningFee: e.target.checked })}
+          />
+          On cleaning fee
+        </label>
+        <button
+          type="submit"
+          disabled={addTaxMutation.isPending}
+          className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-accent transition-colors disabled:opacity-50 flex-shrink-0"
+        >
+          <Plus size={14} />
+          Add Tax
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { SyncLogStatus } from '@unifiedstay/shared';
+
+interface SyncLog {
+  id: string;
+  status: SyncLogStatus;
+  eventsFound: number;
+  eventsCreated: number;
+  eventsUpdated: number;
+  eventsCancelled: number;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface SyncHistoryProps {
+  propertyId: string;
+  channelId: string;
+}
+
+const PAGE_SIZE = 10;
+
+const statusFilters: { label: string; value: string }[] = [
+  { label: 'All', value: '' },
+  { label: 'Failed', value: 'failed,partial' },
+  { label: 'Changes', value: 'success' },
+  { label: 'Unchanged', value: 'unchanged' },
+];
+
+const statusStyles: Record<SyncLogStatus, string> = {
+  success: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  partial: 'bg-amber-100 text-amber-700',
+  unchanged: 'bg-muted text-muted-foreground',
+};
+
+export function SyncHistory({ propertyId, channelId }: SyncHistoryProps) {
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['sync-logs', channelId, page, status],
+    queryFn: () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (status) params.set('status', status);
+      return api.getPaginated<SyncLog>(
+        `/properties/${propertyId}/channels/${channelId}/sync-logs?${params}`
+      );
+    },
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="flex items-center gap-2 mb-3">
+        {statusFilters.map((filter) => (
+          <button
+            key={filter.value}
+            onClick={() => {
+              setStatus(filter.value);
+              setPage(1);
+            }}
+            className={cn(
+              'px-2.5 py-1 rounded-full text-xs transition-colors',
+              status === filter.value
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-background text-muted-foreground hover:bg-accent'
+            )}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="animate-spin text-muted-foreground" size={20} />
+        </div>
+      ) : !data || data.items.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-2">No syncs recorded yet.</p>
+      ) : (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 font-medium">Started</th>
+                <th className="py-1 font-medium">Status</th>
+                <th className="py-1 font-medium">Found</th>
+                <th className="py-1 font-medium">Added</th>
+                <th className="py-1 font-medium">Updated</th>
+                <th className="py-1 font-medium">Cancelled</th>
+                <th className="py-1 font-medium">Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.items.map((log) => (
+                <tr key={log.id} className="border-t border-border align-top">
+                  <td className="py-1.5">{new Date(log.startedAt).toLocaleString()}</td>
+                  <td className="py-1.5">
+                    <span className={cn('px-2 py-0.5 rounded-full text-xs', statusStyles[log.status])}>
+                      {log.status}
+                    </span>
+                    {log.error && <p className="text-xs text-destructive mt-1">{log.error}</p>}
+                  </td>
+                  <td className="py-1.5">{log.eventsFound}</td>
+                  <td className="py-1.5">{log.eventsCreated}</td>
+                  <td className="py-1.5">{log.eventsUpdated}</td>
+                  <td className="py-1.5">{log.eventsCancelled}</td>
+                  <td className="py-1.5">
+                    {log.completedAt
+                      ? `${((new Date(log.completedAt).getTime() - new Date(log.startedAt).getTime()) / 1000).toFixed(1)}s`
+                      : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-between mt-3 text-sm text-muted-foreground">
+            <span>
+              Page {data.page} of {totalPages} · {data.total} syncs
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={page <= 1}
+                className="p-1 rounded hover:bg-accent disabled:opacity-50"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page >= totalPages}
+                className="p-1 rounded hover:bg-accent disabled:opacity-50"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
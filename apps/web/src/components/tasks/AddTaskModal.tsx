@@ -2,7 +2,7 @@ import { useState } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { X, Loader2, Calendar, ClipboardList } from 'lucide-react';
 import { api } from '@/lib/api';
-import type { TaskType } from '@unifiedstay/shared';
+import type { CreateTaskInput, TaskType } from '@unifiedstay/shared';
 
 interface AddTaskModalProps {
   open: boolean;
@@ -19,9 +19,11 @@ const taskTypes: { value: TaskType; label: string; description: string }[] = [
 
 export function AddTaskModal({ open, onClose }: AddTaskModalProps) {
   const [propertyId, setPropertyId] = useState('');
+  const [templateId, setTemplateId] = useState('');
   const [type, setType] = useState<TaskType>('cleaning');
   const [description, setDescription] = useState('');
   const [dueAt, setDueAt] = useState('');
+  const [assigneeId, setAssigneeId] = useState('');
   const [error, setError] = useState('');
 
   const queryClient = useQueryClient();
@@ -31,9 +33,19 @@ export function AddTaskModal({ open, onClose }: AddTaskModalProps) {
     queryFn: () => api.get<{ id: string; name: string }[]>('/properties'),
   });
 
+  const { data: templates } = useQuery({
+    queryKey: ['task-templates', propertyId],
+    queryFn: () => api.get<{ id: string; name: string }[]>(`/tasks/templates?propertyId=${propertyId}`),
+    enabled: !!propertyId,
+  });
+
+  const { data: assignees } = useQuery({
+    queryKey: ['organization-assignees'],
+    queryFn: () => api.get<{ id: string; name: string }[]>('/organizations/assignees'),
+  });
+
   const mutation = useMutation({
-    mutationFn: (data: { propertyId: string; type: TaskType; description?: string; dueAt: Date }) =>
-      api.post('/tasks', data),
+    mutationFn: (data: CreateTaskInput) => api.post('/tasks', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard'] });
@@ -46,9 +58,11 @@ export function AddTaskModal({ open, onClose }: AddTaskModalProps) {
 
   const handleClose = () => {
     setPropertyId('');
+    setTemplateId('');
     setType('cleaning');
     setDescription('');
     setDueAt('');
+    setAssigneeId('');
     setError('');
     mutation.reset();
     onClose();
@@ -70,9 +84,12 @@ export function AddTaskModal({ open, onClose }: AddTaskModalProps) {
 
     mutation.mutate({
       propertyId,
-      type,
+      // A template brings its own type and checklist
+      ...(templateId ? { templateId } : { type }),
       description: description || undefined,
       dueAt: new Date(dueAt),
+      // Left empty, the template's default assignee applies
+      assigneeId: assigneeId || undefined,
     });
   };
 
@@ -111,7 +128,10 @@ export function AddTaskModal({ open, onClose }: AddTaskModalProps) {
             <label className="block text-sm font-medium mb-2">Property</label>
             <select
               value={propertyId}
-              onChange={(e) => setPropertyId(e.target.value)}
+              onChange={(e) => {
+                setPropertyId(e.target.value);
+                setTemplateId('');
+              }}
               className="w-full px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
               required
             >
@@ -124,27 +144,48 @@ export function AddTaskModal({ open, onClose }: AddTaskModalProps) {
             </select>
           </div>
 
+          {/* Template */}
+          {templates && templates.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Template (optional)</label>
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className="w-full px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <option value="">No template</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Task Type */}
-          <div>
-            <label className="block text-sm font-medium mb-2">Task Type</label>
-            <div className="grid grid-cols-2 gap-2">
-              {taskTypes.map((t) => (
-                <button
-                  key={t.value}
-                  type="button"
-                  onClick={() => setType(t.value)}
-                  className={`p-3 rounded-lg border-2 text-left transition-colors ${
-                    type === t.value
-                      ? 'border-primary bg-primary/5'
-                      : 'border-border hover:border-primary/50'
-                  }`}
-                >
-                  <p className="font-medium text-sm">{t.label}</p>
-                  <p className="text-xs text-muted-foreground">{t.description}</p>
-                </button>
-              ))}
+          {!templateId && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Task Type</label>
+              <div className="grid grid-cols-2 gap-2">
+                {taskTypes.map((t) => (
+                  <button
+                    key={t.value}
+                    type="button"
+                    onClick={() => setType(t.value)}
+                    className={`p-3 rounded-lg border-2 text-left transition-colors ${
+                      type === t.value
+                        ? 'border-primary bg-primary/5'
+                        : 'border-border hover:border-primary/50'
+                    }`}
+                  >
+                    <p className="font-medium text-sm">{t.label}</p>
+                    <p className="text-xs text-muted-foreground">{t.description}</p>
+                  </button>
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Description */}
           <div>
@@ -173,6 +214,25 @@ export function AddTaskModal({ open, onClose }: AddTaskModalProps) {
             </div>
           </div>
 
+          {/* Assignee */}
+          {assignees && assignees.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium mb-2">Assign to (optional)</label>
+              <select
+                value={assigneeId}
+                onChange={(e) => setAssigneeId(e.target.value)}
+                className="w-full px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <option value="">{templateId ? "Template's default" : 'Unassigned'}</option>
+                {assignees.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -0,0 +1,61 @@
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle } from 'lucide-react';
+import { api } from '@/lib/api';
+import { formatRelativeDate, formatTime } from '@/lib/utils';
+import type { TaskType } from '@unifiedstay/shared';
+
+interface EscalatedTask {
+  id: string;
+  type: TaskType;
+  description: string | null;
+  dueAt: string;
+  nextCheckInAt: string | null;
+  property: { id: string; name: string; timezone: string };
+  reservation: { id: string; guestName: string } | null;
+  assignee: { id: string; name: string } | null;
+}
+
+// Overdue tasks escalated to owners. Hidden when nothing is overdue
+export function OverdueEscalations() {
+  const { data: tasks } = useQuery({
+    queryKey: ['task-escalations'],
+    queryFn: () => api.get<EscalatedTask[]>('/tasks/escalations'),
+  });
+
+  if (!tasks || tasks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card rounded-xl border border-destructive/30 p-6 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <AlertTriangle className="w-5 h-5 text-destructive" />
+        <h3 className="font-semibold">Overdue Tasks</h3>
+      </div>
+      <div className="divide-y divide-border">
+        {tasks.map((task) => (
+          <div key={task.id} className="py-3 first:pt-0 last:pb-0">
+            <p className="font-medium">
+              {task.property.name}: {task.description || `${task.type} task`}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Due {formatRelativeDate(task.dueAt)} at {formatTime(task.dueAt, task.property.timezone)}
+              {' · '}
+              {task.assignee ? task.assignee.name : 'Unassigned'}
+            </p>
+            {task.nextCheckInAt && (
+              <p className="text-sm text-destructive">
+                Next check-in {formatRelativeDate(task.nextCheckInAt)} at{' '}
+                {formatTime(task.nextCheckInAt, task.property.timezone)} is at risk
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+      <Link to="/tasks" className="inline-block mt-4 text-sm text-primary hover:underline">
+        View tasks
+      </Link>
+    </div>
+  );
+}
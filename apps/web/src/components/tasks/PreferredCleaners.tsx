@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, Loader2, Plus, X } from 'lucide-react';
+import { api } from '@/lib/api';
+import type { UserRole } from '@unifiedstay/shared';
+
+interface Cleaner {
+  id: string;
+  name: string;
+  role: UserRole;
+  maxTasksPerDay: number;
+}
+
+interface Assignee {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+interface PreferredCleanersProps {
+  propertyId: string;
+}
+
+export function PreferredCleaners({ propertyId }: PreferredCleanersProps) {
+  const [adding, setAdding] = useState('');
+  const queryClient = useQueryClient();
+
+  const { data: cleaners, isLoading } = useQuery({
+    queryKey: ['preferred-cleaners', propertyId],
+    queryFn: () => api.get<Cleaner[]>(`/tasks/preferred-cleaners/${propertyId}`),
+  });
+
+  const { data: assignees } = useQuery({
+    queryKey: ['organization-assignees'],
+    queryFn: () => api.get<Assignee[]>('/organizations/assignees'),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (userIds: string[]) =>
+      api.put<Cleaner[]>(`/tasks/preferred-cleaners/${propertyId}`, { userIds }),
+    onSuccess: (result) => {
+      queryClient.setQueryData(['preferred-cleaners', propertyId], result);
+      setAdding('');
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to save preferred cleaners');
+    },
+  });
+
+  const ids = cleaners?.map((c) => c.id) ?? [];
+  const available = assignees?.filter((a) => !ids.includes(a.id)) ?? [];
+
+  const move = (index: number, offset: number) => {
+    const next = [...ids];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    saveMutation.mutate(next);
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 mb-8">
+      <h2 className="text-lg font-semibold">Preferred Cleaners</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Turnover cleanings go to the first cleaner on the list who isn't off that day and has room
+        under their daily limit.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="animate-spin text-muted-foreground" size={20} />
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {cleaners && cleaners.length > 0 ? (
+            <ol className="divide-y divide-border rounded-lg border border-border">
+              {cleaners.map((cleaner, index) => (
+                <li key={cleaner.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {index + 1}. {cleaner.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground">Up to {cleaner.maxTasksPerDay} tasks a day</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0 || saveMutation.isPending}
+                      className="p-1.5 rounded text-muted-foreground hover:bg-accent disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp size={14} />
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === cleaners.length - 1 || saveMutation.isPending}
+                      className="p-1.5 rounded text-muted-foreground hover:bg-accent disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown size={14} />
+                    </button>
+                    <button
+                      onClick={() => saveMutation.mutate(ids.filter((id) => id !== cleaner.id))}
+                      disabled={saveMutation.isPending}
+                      className="p-1.5 rounded text-muted-foreground hover:text-destructive hover:bg-accent"
+                      title="Remove"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No preferred cleaners. Turnover cleanings go to the cleaning template's default assignee.
+            </p>
+          )}
+
+          {available.length > 0 && (
+            <div className="flex items-center gap-2">
+              <select
+                value={adding}
+                onChange={(e) => setAdding(e.target.value)}
+                className="flex-1 px-3 py-1.5 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <option value="">Add a cleaner...</option>
+                {available.map((assignee) => (
+                  <option key={assignee.id} value={assignee.id}>
+                    {assignee.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => saveMutation.mutate([...ids, adding])}
+                disabled={!adding || saveMutation.isPending}
+                className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {saveMutation.isPending ? <Loader2 size={14} className="animate-spin" /> : <Plus size={14} />}
+                Add
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
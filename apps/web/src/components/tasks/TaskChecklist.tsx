@@ -0,0 +1,177 @@
+import { useRef } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Camera, Check, Loader2, X } from 'lucide-react';
+import { api, getPublicApiUrl } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { UploadTaskPhotoInput } from '@unifiedstay/shared';
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  required: boolean;
+  photoRequired: boolean;
+  completedAt: string | null;
+  photos: { id: string; url: string }[];
+}
+
+interface TaskChecklistProps {
+  taskId: string;
+  items: ChecklistItem[];
+}
+
+const photoTypes: UploadTaskPhotoInput['contentType'][] = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+// Local-disk photo links are relative to the API; S3 links are absolute
+const photoUrl = (url: string) => (url.startsWith('http') ? url : getPublicApiUrl(url));
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function TaskChecklist({ taskId, items }: TaskChecklistProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const uploadItemId = useRef<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const onError = (err: Error) => {
+    alert(err.message || 'Failed to update checklist');
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ itemId, completed }: { itemId: string; completed: boolean }) =>
+      api.patch(`/tasks/${taskId}/checklist/${itemId}`, { completed }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: ({ itemId, input }: { itemId: string; input: UploadTaskPhotoInput }) =>
+      api.post(`/tasks/${taskId}/checklist/${itemId}/photos`, input),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: ({ itemId, photoId }: { itemId: string; photoId: string }) =>
+      api.delete(`/tasks/${taskId}/checklist/${itemId}/photos/${photoId}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const itemId = uploadItemId.current;
+    e.target.value = '';
+    if (!file || !itemId) return;
+
+    if (!(photoTypes as string[]).includes(file.type)) {
+      alert('Photos must be JPEG, PNG, WebP or HEIC');
+      return;
+    }
+
+    uploadMutation.mutate({
+      itemId,
+      input: {
+        contentType: file.type as UploadTaskPhotoInput['contentType'],
+        dataBase64: await readAsBase64(file),
+      },
+    });
+  };
+
+  const pickPhoto = (itemId: string) => {
+    uploadItemId.current = itemId;
+    fileInput.current?.click();
+  };
+
+  const done = items.filter((item) => item.completedAt).length;
+
+  return (
+    <div className="mt-3">
+      <p className="text-xs text-muted-foreground mb-1">
+        Checklist · {done}/{items.length} done
+      </p>
+      <input
+        ref={fileInput}
+        type="file"
+        accept={photoTypes.join(',')}
+        capture="environment"
+        className="hidden"
+        onChange={handleFile}
+      />
+      <ul className="space-y-1.5">
+        {items.map((item) => (
+          <li key={item.id}>
+            <div className="flex items-center gap-2 text-sm">
+              <button
+                onClick={() => toggleMutation.mutate({ itemId: item.id, completed: !item.completedAt })}
+                disabled={toggleMutation.isPending}
+                className={cn(
+                  'w-4 h-4 rounded border flex items-center justify-center flex-shrink-0 transition-colors',
+                  item.completedAt
+                    ? 'bg-green-500 border-green-500 text-white'
+                    : 'border-muted-foreground/40 hover:border-primary'
+                )}
+              >
+                {item.completedAt && <Check size={10} />}
+              </button>
+              <span className={cn(item.completedAt && 'line-through text-muted-foreground')}>
+                {item.label}
+                {!item.required && <span className="text-muted-foreground"> (optional)</span>}
+              </span>
+              <button
+                onClick={() => pickPhoto(item.id)}
+                disabled={uploadMutation.isPending}
+                className={cn(
+                  'inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs transition-colors disabled:opacity-50',
+                  item.photoRequired && item.photos.length === 0
+                    ? 'bg-amber-500/10 text-amber-600 hover:bg-amber-500/20'
+                    : 'text-muted-foreground hover:bg-accent'
+                )}
+                title={item.photoRequired ? 'Photo required' : 'Add photo'}
+              >
+                {uploadMutation.isPending && uploadMutation.variables?.itemId === item.id ? (
+                  <Loader2 size={12} className="animate-spin" />
+                ) : (
+                  <Camera size={12} />
+                )}
+                {item.photoRequired && item.photos.length === 0 && 'Photo needed'}
+              </button>
+            </div>
+
+            {item.photos.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-1 ml-6">
+                {item.photos.map((photo) => (
+                  <div key={photo.id} className="relative group">
+                    <a href={photoUrl(photo.url)} target="_blank" rel="noreferrer">
+                      <img
+                        src={photoUrl(photo.url)}
+                        alt={item.label}
+                        className="w-14 h-14 rounded-md object-cover border border-border"
+                      />
+                    </a>
+                    <button
+                      onClick={() => deletePhotoMutation.mutate({ itemId: item.id, photoId: photo.id })}
+                      className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-card border border-border text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove photo"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { api } from '@/lib/api';
+import { formatRelativeDate } from '@/lib/utils';
+import type { TaskEventType } from '@unifiedstay/shared';
+
+interface TaskEvent {
+  id: string;
+  type: TaskEventType;
+  reason: string;
+  createdAt: string;
+}
+
+interface TaskHistoryProps {
+  taskId: string;
+}
+
+const eventLabels: Record<TaskEventType, string> = {
+  created: 'Created',
+  rescheduled: 'Rescheduled',
+  deadline_changed: 'Deadline changed',
+  reassigned: 'Reassigned',
+  cancelled: 'Cancelled',
+  overdue: 'Overdue',
+};
+
+export function TaskHistory({ taskId }: TaskHistoryProps) {
+  const { data: events, isLoading } = useQuery({
+    queryKey: ['task-history', taskId],
+    queryFn: () => api.get<TaskEvent[]>(`/tasks/${taskId}/history`),
+  });
+
+  if (isLoading) {
+    return <Loader2 size={14} className="animate-spin text-muted-foreground mt-2" />;
+  }
+
+  if (!events || events.length === 0) {
+    return <p className="mt-2 text-xs text-muted-foreground">No automatic changes</p>;
+  }
+
+  return (
+    <ul className="mt-2 space-y-1 border-l border-border pl-3">
+      {events.map((event) => (
+        <li key={event.id} className="text-xs">
+          <span className="font-medium">{eventLabels[event.type]}</span>
+          <span className="text-muted-foreground"> · {formatRelativeDate(event.createdAt)}</span>
+          <p className="text-muted-foreground">{event.reason}</p>
+        </li>
+      ))}
+    </ul>
+  );
+}
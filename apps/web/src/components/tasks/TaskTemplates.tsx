@@ -0,0 +1,523 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, Trash2, Pencil, Repeat, Pause, Play, Camera, Sparkles, X } from 'lucide-react';
+import { api } from '@/lib/api';
+import { cn, formatDate } from '@/lib/utils';
+import type {
+  ChecklistItemInput,
+  CreateTaskScheduleInput,
+  CreateTaskTemplateInput,
+  TaskType,
+  UpdateTaskScheduleInput,
+  UpdateTaskTemplateInput,
+} from '@unifiedstay/shared';
+
+interface TaskSchedule {
+  id: string;
+  rrule: string;
+  startDate: string;
+  endDate: string | null;
+  dueTime: string;
+  active: boolean;
+}
+
+interface TaskTemplate {
+  id: string;
+  name: string;
+  type: TaskType;
+  description: string | null;
+  forTurnovers: boolean;
+  checklist: ChecklistItemInput[];
+  schedules: TaskSchedule[];
+}
+
+interface TaskTemplatesProps {
+  propertyId: string;
+}
+
+const typeLabels: Record<TaskType, string> = {
+  cleaning: 'Cleaning',
+  maintenance: 'Maintenance',
+  inspection: 'Inspection',
+  restock: 'Restock',
+  other: 'Other',
+};
+
+const recurrencePresets = [
+  { label: 'Every week', rrule: 'FREQ=WEEKLY' },
+  { label: 'Every month', rrule: 'FREQ=MONTHLY' },
+  { label: 'Every 3 months', rrule: 'FREQ=MONTHLY;INTERVAL=3' },
+  { label: 'Every 6 months', rrule: 'FREQ=MONTHLY;INTERVAL=6' },
+  { label: 'Every year', rrule: 'FREQ=YEARLY' },
+];
+
+function describeRecurrence(rrule: string) {
+  return recurrencePresets.find((preset) => preset.rrule === rrule)?.label ?? rrule;
+}
+
+// Drop rows left blank in the editor
+const cleanChecklist = (items: ChecklistItemInput[]) =>
+  items.map((item) => ({ ...item, label: item.label.trim() })).filter((item) => item.label);
+
+export function TaskTemplates({ propertyId }: TaskTemplatesProps) {
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<TaskType>('maintenance');
+  const [description, setDescription] = useState('');
+  const [checklist, setChecklist] = useState<ChecklistItemInput[]>([]);
+  const [forTurnovers, setForTurnovers] = useState(false);
+  const [applyToFuture, setApplyToFuture] = useState(true);
+  const [schedulingId, setSchedulingId] = useState<string | null>(null);
+  const [rrule, setRrule] = useState(recurrencePresets[1].rrule);
+  const [startDate, setStartDate] = useState('');
+  const [dueTime, setDueTime] = useState('10:00');
+  const queryClient = useQueryClient();
+
+  const { data: templates, isLoading } = useQuery({
+    queryKey: ['task-templates', propertyId],
+    queryFn: () => api.get<TaskTemplate[]>(`/tasks/templates?propertyId=${propertyId}`),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['task-templates', propertyId] });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+
+  const resetTemplateForm = () => {
+    setEditingId(null);
+    setName('');
+    setType('maintenance');
+    setDescription('');
+    setChecklist([]);
+    setForTurnovers(false);
+    setApplyToFuture(true);
+  };
+
+  const resetScheduleForm = () => {
+    setSchedulingId(null);
+    setRrule(recurrencePresets[1].rrule);
+    setStartDate('');
+    setDueTime('10:00');
+  };
+
+  const onError = (fallback: string) => (err: Error) => {
+    alert(err.message || fallback);
+  };
+
+  const createTemplateMutation = useMutation({
+    mutationFn: (input: CreateTaskTemplateInput) => api.post('/tasks/templates', input),
+    onSuccess: () => {
+      invalidate();
+      resetTemplateForm();
+    },
+    onError: onError('Failed to add template'),
+  });
+
+  const updateTemplateMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateTaskTemplateInput }) =>
+      api.patch(`/tasks/templates/${id}`, input),
+    onSuccess: () => {
+      invalidate();
+      resetTemplateForm();
+    },
+    onError: onError('Failed to update template'),
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/tasks/templates/${id}`),
+    onSuccess: invalidate,
+  });
+
+  const createScheduleMutation = useMutation({
+    mutationFn: (input: CreateTaskScheduleInput) => api.post('/tasks/schedules', input),
+    onSuccess: () => {
+      invalidate();
+      resetScheduleForm();
+    },
+    onError: onError('Failed to add schedule'),
+  });
+
+  const updateScheduleMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateTaskScheduleInput }) =>
+      api.patch(`/tasks/schedules/${id}`, input),
+    onSuccess: invalidate,
+    onError: onError('Failed to update schedule'),
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/tasks/schedules/${id}`),
+    onSuccess: invalidate,
+  });
+
+  const startEditing = (template: TaskTemplate) => {
+    setEditingId(template.id);
+    setName(template.name);
+    setType(template.type);
+    setDescription(template.description ?? '');
+    setChecklist(
+      template.checklist.map(({ label, required, photoRequired }) => ({ label, required, photoRequired }))
+    );
+    setForTurnovers(template.forTurnovers);
+    setApplyToFuture(true);
+  };
+
+  const updateItem = (index: number, changes: Partial<ChecklistItemInput>) => {
+    setChecklist((items) => items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleTemplateSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId === 'new') {
+      createTemplateMutation.mutate({
+        propertyId,
+        name: name.trim(),
+        type,
+        description: description.trim() || undefined,
+        checklist: cleanChecklist(checklist),
+        forTurnovers: type === 'cleaning' && forTurnovers,
+      });
+    } else if (editingId) {
+      updateTemplateMutation.mutate({
+        id: editingId,
+        input: {
+          name: name.trim(),
+          type,
+          description: description.trim() || null,
+          checklist: cleanChecklist(checklist),
+          forTurnovers: type === 'cleaning' && forTurnovers,
+          applyToFuture,
+        },
+      });
+    }
+  };
+
+  const handleScheduleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!schedulingId) return;
+    createScheduleMutation.mutate({
+      templateId: schedulingId,
+      rrule: rrule.trim(),
+      startDate: new Date(startDate),
+      dueTime,
+    });
+  };
+
+  const inputClass =
+    'w-full px-3 py-1.5 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+  const templateForm = (
+    <form onSubmit={handleTemplateSubmit} className="mt-4 p-4 rounded-lg border border-border space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClass}
+          placeholder="Name, e.g. Replace HVAC filter"
+          required
+        />
+        <select value={type} onChange={(e) => setType(e.target.value as TaskType)} className={inputClass}>
+          {Object.entries(typeLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        className={inputClass}
+        placeholder="Description (optional)"
+      />
+      <div>
+        <label className="block text-xs text-muted-foreground mb-1">Checklist</label>
+        <div className="space-y-2">
+          {checklist.map((item, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={item.label}
+                onChange={(e) => updateItem(index, { label: e.target.value })}
+                className={inputClass}
+                placeholder="e.g. Photo of the kitchen"
+              />
+              <label className="flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0">
+                <input
+                  type="checkbox"
+                  checked={item.required}
+                  onChange={(e) => updateItem(index, { required: e.target.checked })}
+                />
+                Required
+              </label>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground flex-shrink-0">
+                <input
+                  type="checkbox"
+                  checked={item.photoRequired}
+                  onChange={(e) => updateItem(index, { photoRequired: e.target.checked })}
+                />
+                Photo
+              </label>
+              <button
+                type="button"
+                onClick={() => setChecklist((items) => items.filter((_, i) => i !== index))}
+                className="p-1 rounded text-muted-foreground hover:text-destructive"
+                title="Remove item"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setChecklist((items) => [...items, { label: '', required: true, photoRequired: false }])}
+            className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+          >
+            <Plus size={14} />
+            Add item
+          </button>
+        </div>
+      </div>
+      {type === 'cleaning' && (
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={forTurnovers} onChange={(e) => setForTurnovers(e.target.checked)} />
+          Use for turnover cleanings generated after checkouts
+        </label>
+      )}
+      {editingId !== 'new' && (
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={applyToFuture} onChange={(e) => setApplyToFuture(e.target.checked)} />
+          Also update upcoming tasks from this template
+        </label>
+      )}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={resetTemplateForm}
+          className="px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-accent transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={createTemplateMutation.isPending || updateTemplateMutation.isPending}
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {(createTemplateMutation.isPending || updateTemplateMutation.isPending) && (
+            <Loader2 size={14} className="animate-spin" />
+          )}
+          {editingId === 'new' ? 'Add Template' : 'Save Template'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold">Task Templates</h2>
+          <p className="text-sm text-muted-foreground">
+            Reusable tasks with checklists. Schedule one to create its tasks automatically, up to 90 days ahead.
+          </p>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => setEditingId('new')}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors flex-shrink-0"
+          >
+            <Plus size={16} />
+            Add Template
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="animate-spin text-muted-foreground" size={20} />
+        </div>
+      ) : !templates || templates.length === 0 ? (
+        editingId === null && (
+          <p className="text-sm text-muted-foreground">
+            No templates yet. Add one for recurring work like filter changes or pest control.
+          </p>
+        )
+      ) : (
+        <div className="space-y-3">
+          {templates.map((template) =>
+            editingId === template.id ? (
+              <div key={template.id}>{templateForm}</div>
+            ) : (
+              <div key={template.id} className="p-4 rounded-lg bg-muted/50">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {template.name}
+                      <span className="text-sm font-normal text-muted-foreground"> · {typeLabels[template.type]}</span>
+                    </p>
+                    {template.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+                    {template.forTurnovers && (
+                      <p className="flex items-center gap-1 text-sm text-primary">
+                        <Sparkles size={12} />
+                        Used for turnover cleanings
+                      </p>
+                    )}
+                    {template.checklist.length > 0 && (
+                      <ul className="mt-1 text-sm text-muted-foreground">
+                        {template.checklist.map((item, index) => (
+                          <li key={index} className="flex items-center gap-1">
+                            · {item.label}
+                            {!item.required && ' (optional)'}
+                            {item.photoRequired && <Camera size={12} />}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => setSchedulingId(template.id)}
+                      className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                      title="Repeat on a schedule"
+                    >
+                      <Repeat size={14} />
+                    </button>
+                    <button
+                      onClick={() => startEditing(template)}
+                      className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                      title="Edit template"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => deleteTemplateMutation.mutate(template.id)}
+                      disabled={deleteTemplateMutation.isPending}
+                      className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                      title="Delete template and its schedules"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+
+                {template.schedules.length > 0 && (
+                  <div className="mt-3 space-y-1">
+                    {template.schedules.map((schedule) => (
+                      <div
+                        key={schedule.id}
+                        className={cn(
+                          'flex items-center justify-between gap-2 text-sm',
+                          !schedule.active && 'text-muted-foreground'
+                        )}
+                      >
+                        <span className="flex items-center gap-2">
+                          <Repeat size={12} />
+                          {describeRecurrence(schedule.rrule)} at {schedule.dueTime}, from{' '}
+                          {formatDate(schedule.startDate, { timeZone: 'UTC' })}
+                          {schedule.endDate && ` until ${formatDate(schedule.endDate, { timeZone: 'UTC' })}`}
+                          {!schedule.active && ' (paused)'}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <button
+                            onClick={() =>
+                              updateScheduleMutation.mutate({ id: schedule.id, input: { active: !schedule.active } })
+                            }
+                            disabled={updateScheduleMutation.isPending}
+                            className="p-1 rounded text-muted-foreground hover:text-foreground disabled:opacity-50"
+                            title={schedule.active ? 'Pause' : 'Resume'}
+                          >
+                            {schedule.active ? <Pause size={12} /> : <Play size={12} />}
+                          </button>
+                          <button
+                            onClick={() => deleteScheduleMutation.mutate(schedule.id)}
+                            disabled={deleteScheduleMutation.isPending}
+                            className="p-1 rounded text-muted-foreground hover:text-destructive disabled:opacity-50"
+                            title="Delete schedule"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {schedulingId === template.id && (
+                  <form onSubmit={handleScheduleSubmit} className="mt-3 pt-3 border-t border-border space-y-3">
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">Repeats</label>
+                        <select
+                          value={recurrencePresets.some((p) => p.rrule === rrule) ? rrule : ''}
+                          onChange={(e) => setRrule(e.target.value)}
+                          className={inputClass}
+                        >
+                          {recurrencePresets.map((preset) => (
+                            <option key={preset.rrule} value={preset.rrule}>
+                              {preset.label}
+                            </option>
+                          ))}
+                          <option value="">Custom rule...</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">Starting</label>
+                        <input
+                          type="date"
+                          value={startDate}
+                          onChange={(e) => setStartDate(e.target.value)}
+                          className={inputClass}
+                          required
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-muted-foreground mb-1">Due at</label>
+                        <input
+                          type="time"
+                          value={dueTime}
+                          onChange={(e) => setDueTime(e.target.value)}
+                          className={inputClass}
+                          required
+                        />
+                      </div>
+                    </div>
+                    {!recurrencePresets.some((p) => p.rrule === rrule) && (
+                      <input
+                        type="text"
+                        value={rrule}
+                        onChange={(e) => setRrule(e.target.value)}
+                        className={inputClass}
+                        placeholder="RRULE, e.g. FREQ=YEARLY;BYMONTH=3,9;BYMONTHDAY=1"
+                        required
+                      />
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={resetScheduleForm}
+                        className="px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-accent transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={createScheduleMutation.isPending}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+                      >
+                        {createScheduleMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+                        Add Schedule
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {editingId === 'new' && templateForm}
+    </div>
+  );
+}
@@ -5,6 +5,13 @@ import type { ApiResponse } from '@unifiedstay/shared';
 // In production, use the full backend URL from environment variable
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
+export interface PaginatedResult<T> {
+  items: T[];
+  page: number;
+  limit: number;
+  total: number;
+}
+
 class ApiClient {
   private getHeaders(): HeadersInit {
     const headers: HeadersInit = {
@@ -19,7 +26,7 @@ class ApiClient {
     return headers;
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
+  private async parseResponse<T>(response: Response): Promise<ApiResponse<T>> {
     if (response.status === 401) {
       useAuthStore.getState().logout();
       window.location.href = '/login';
@@ -32,6 +39,11 @@ class ApiClient {
       throw new Error(data.error?.message || 'An error occurred');
     }
 
+    return data;
+  }
+
+  private async handleResponse<T>(response: Response): Promise<T> {
+    const data = await this.parseResponse<T>(response);
     return data.data as T;
   }
 
@@ -43,6 +55,21 @@ class ApiClient {
     return this.handleResponse<T>(response);
   }
 
+  // For list endpoints that return page/limit/total alongside the data
+  async getPaginated<T>(path: string): Promise<PaginatedResult<T>> {
+    const response = await fetch(`${API_BASE}${path}`, {
+      method: 'GET',
+      headers: this.getHeaders(),
+    });
+    const data = await this.parseResponse<T[]>(response);
+    return {
+      items: data.data ?? [],
+      page: data.meta?.page ?? 1,
+      limit: data.meta?.limit ?? data.data?.length ?? 0,
+      total: data.meta?.total ?? data.data?.length ?? 0,
+    };
+  }
+
   async post<T>(path: string, body?: unknown): Promise<T> {
     const headers = this.getHeaders();
     // If no body, don't send Content-Type to avoid Fastify error
@@ -86,3 +113,9 @@ class ApiClient {
 
 export const api = new ApiClient();
 
+// Absolute URL for links handed to third parties (e.g. iCal export feeds)
+export function getPublicApiUrl(path: string): string {
+  const base = API_BASE.startsWith('http') ? API_BASE : `${window.location.origin}${API_BASE}`;
+  return `${base}${path}`;
+}
+
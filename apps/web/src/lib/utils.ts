@@ -22,6 +22,19 @@ export function formatDate(date: Date | string, options?: Intl.DateTimeFormatOpt
   });
 }
 
+export function formatTime(date: Date | string, timeZone?: string): string {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+}
+
+// Stay dates are calendar days at the property, sent as UTC midnight.
+// Read the date part only so they don't shift a day in the browser's timezone.
+export function parseStayDate(date: Date | string): Date {
+  const iso = typeof date === 'string' ? date : date.toISOString();
+  const [year, month, day] = iso.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
 export function formatRelativeDate(date: Date | string): string {
   const d = typeof date === 'string' ? new Date(date) : date;
   const now = new Date();
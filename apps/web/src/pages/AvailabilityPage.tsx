@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarOff, ChevronLeft, ChevronRight, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  isWithinInterval,
+  startOfMonth,
+  subMonths,
+} from 'date-fns';
+import { api } from '@/lib/api';
+import { cn, formatDate, parseStayDate } from '@/lib/utils';
+import { isManager, useAuthStore } from '@/stores/auth';
+import type { CreateTimeOffInput, UserRole } from '@unifiedstay/shared';
+
+interface TimeOff {
+  id: string;
+  userId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  notes: string | null;
+}
+
+interface Assignee {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+export function AvailabilityPage() {
+  const { user } = useAuthStore();
+  const manager = isManager(user);
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [showForm, setShowForm] = useState(false);
+  const [userId, setUserId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const queryClient = useQueryClient();
+
+  const monthStart = startOfMonth(currentDate);
+  const monthEnd = endOfMonth(currentDate);
+  const days = eachDayOfInterval({ start: monthStart, end: monthEnd });
+
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ['time-off', format(monthStart, 'yyyy-MM-dd')],
+    queryFn: () =>
+      api.get<TimeOff[]>(
+        `/tasks/time-off?start=${format(monthStart, 'yyyy-MM-dd')}&end=${format(monthEnd, 'yyyy-MM-dd')}`
+      ),
+  });
+
+  // Managers see everyone who takes tasks; field staff just themselves
+  const { data: assignees } = useQuery({
+    queryKey: ['organization-assignees'],
+    queryFn: () => api.get<Assignee[]>('/organizations/assignees'),
+    enabled: manager,
+  });
+
+  const people = manager ? assignees ?? [] : user ? [{ id: user.id, name: user.name }] : [];
+
+  const resetForm = () => {
+    setShowForm(false);
+    setUserId('');
+    setStartDate('');
+    setEndDate('');
+    setNotes('');
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (input: CreateTimeOffInput) => api.post('/tasks/time-off', input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['time-off'] });
+      resetForm();
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to add time off');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/tasks/time-off/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['time-off'] });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      userId: manager ? userId : undefined,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate || startDate),
+      notes: notes || undefined,
+    });
+  };
+
+  const isOff = (personId: string, day: Date) =>
+    entries?.some(
+      (entry) =>
+        entry.userId === personId &&
+        isWithinInterval(day, {
+          start: parseStayDate(entry.startDate),
+          end: parseStayDate(entry.endDate),
+        })
+    );
+
+  return (
+    <div className="p-6 lg:p-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-display font-bold">Availability</h1>
+          <p className="text-muted-foreground">
+            Days off. Tasks aren't assigned automatically to anyone who's off that day.
+          </p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors"
+          >
+            <Plus size={18} />
+            Add Time Off
+          </button>
+        )}
+      </div>
+
+      {/* Add form */}
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-card rounded-xl border border-border p-4 mb-6 grid gap-3 sm:grid-cols-2 lg:grid-cols-4"
+        >
+          {manager && (
+            <select
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              className="px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              required
+            >
+              <option value="">Who's off?</option>
+              {assignees?.map((assignee) => (
+                <option key={assignee.id} value={assignee.id}>
+                  {assignee.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            required
+          />
+          <input
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            title="Last day off; leave empty for a single day"
+          />
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Notes (optional)"
+            className="px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <div className="flex gap-2 sm:col-span-2 lg:col-span-4">
+            <button
+              type="submit"
+              disabled={createMutation.isPending}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {createMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-accent transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Month grid */}
+      <div className="bg-card rounded-xl border border-border overflow-hidden mb-6">
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <button
+            onClick={() => setCurrentDate(subMonths(currentDate, 1))}
+            className="p-2 rounded-lg hover:bg-accent transition-colors"
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <h2 className="text-lg font-semibold">{format(currentDate, 'MMMM yyyy')}</h2>
+          <button
+            onClick={() => setCurrentDate(addMonths(currentDate, 1))}
+            className="p-2 rounded-lg hover:bg-accent transition-colors"
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-card text-left font-medium p-2 min-w-[140px]" />
+                  {days.map((day) => (
+                    <th key={day.toISOString()} className="p-1 font-medium text-muted-foreground text-center">
+                      {format(day, 'd')}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {people.map((person) => (
+                  <tr key={person.id}>
+                    <td className="sticky left-0 bg-card p-2 font-medium truncate">{person.name}</td>
+                    {days.map((day) => (
+                      <td key={day.toISOString()} className="p-0.5">
+                        <div
+                          className={cn(
+                            'h-6 rounded',
+                            isOff(person.id, day) ? 'bg-amber-400/70' : 'bg-muted/40'
+                          )}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Entries this month */}
+      {entries && entries.length > 0 ? (
+        <div className="bg-card rounded-xl border border-border divide-y divide-border">
+          {entries.map((entry) => (
+            <div key={entry.id} className="p-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{entry.name}</p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {formatDate(parseStayDate(entry.startDate))}
+                  {entry.endDate !== entry.startDate && ` – ${formatDate(parseStayDate(entry.endDate))}`}
+                  {entry.notes && ` · ${entry.notes}`}
+                </p>
+              </div>
+              <button
+                onClick={() => deleteMutation.mutate(entry.id)}
+                className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-accent transition-colors"
+                title="Delete time off"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        !isLoading && (
+          <div className="text-center py-12">
+            <CalendarOff className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No time off this month</p>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { ChevronLeft, ChevronRight, Loader2, AlertTriangle, Calendar, List, RefreshCw, Clock } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Loader2, Calendar, List, RefreshCw, Clock, AlertTriangle } from 'lucide-react';
 import { api } from '@/lib/api';
-import { cn, getChannelColor, getChannelName } from '@/lib/utils';
+import { ConflictsPanel } from '@/components/calendar/ConflictsPanel';
+import { GuestSearch } from '@/components/guests/GuestSearch';
+import { GuestTag } from '@/components/guests/GuestTag';
+import { cn, getChannelColor, getChannelName, parseStayDate } from '@/lib/utils';
 import {
   startOfMonth,
   endOfMonth,
@@ -13,7 +17,6 @@ import {
   addMonths,
   subMonths,
   isWithinInterval,
-  parseISO,
   addYears,
   formatDistanceToNow,
 } from 'date-fns';
@@ -29,6 +32,8 @@ interface SyncStatus {
     channel: string;
     success: boolean;
     eventsAdded: number;
+    eventsCancelled: number;
+    unchanged: boolean;
     error?: string;
   }[];
 }
@@ -59,6 +64,19 @@ export function CalendarPage() {
       queryClient.invalidateQueries({ queryKey: ['sync-status'] });
       queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
       queryClient.invalidateQueries({ queryKey: ['upcoming-reservations'] });
+      queryClient.invalidateQueries({ queryKey: ['conflicts'] });
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: (reservationId: string) =>
+      api.patch(`/calendar/reservations/${reservationId}`, { status: 'confirmed' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+      queryClient.invalidateQueries({ queryKey: ['upcoming-reservations'] });
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to confirm reservation');
     },
   });
 
@@ -92,14 +110,12 @@ export function CalendarPage() {
 
   const getEventsForDay = (day: Date) => {
     return events?.filter((event) => {
-      const checkIn = parseISO(event.checkIn as unknown as string);
-      const checkOut = parseISO(event.checkOut as unknown as string);
+      const checkIn = parseStayDate(event.checkIn);
+      const checkOut = parseStayDate(event.checkOut);
       return isWithinInterval(day, { start: checkIn, end: checkOut }) || isSameDay(day, checkIn);
     });
   };
 
-  const conflictingEvents = events?.filter((e) => e.hasConflict) ?? [];
-
   return (
     <div className="p-6 lg:p-8">
       {/* Header */}
@@ -110,6 +126,8 @@ export function CalendarPage() {
         </div>
 
         <div className="flex items-center gap-3">
+          <GuestSearch />
+
           <select
             value={selectedProperty}
             onChange={(e) => setSelectedProperty(e.target.value)}
@@ -154,24 +172,14 @@ export function CalendarPage() {
           )}
         </div>
         <span className="text-muted-foreground">
-          Syncs automatically every 30 minutes
+          {syncStatus?.nextRunAt
+            ? `Next sync ${formatDistanceToNow(new Date(syncStatus.nextRunAt), { addSuffix: true })}`
+            : 'Each channel syncs on its own schedule'}
         </span>
       </div>
 
-      {/* Conflicts Alert */}
-      {conflictingEvents.length > 0 && (
-        <div className="flex items-center gap-3 p-4 rounded-lg bg-destructive/10 border border-destructive/20 mb-6">
-          <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0" />
-          <div>
-            <p className="font-medium text-destructive">
-              {conflictingEvents.length} booking conflict{conflictingEvents.length > 1 ? 's' : ''} detected
-            </p>
-            <p className="text-sm text-muted-foreground">
-              Review overlapping reservations to avoid double bookings
-            </p>
-          </div>
-        </div>
-      )}
+      {/* Conflicts */}
+      <ConflictsPanel propertyId={selectedProperty !== 'all' ? selectedProperty : undefined} />
 
       {/* Calendar */}
       <div className="bg-card rounded-xl border border-border overflow-hidden">
@@ -245,14 +253,20 @@ export function CalendarPage() {
                           key={event.id}
                           className={cn(
                             'text-xs px-1.5 py-0.5 rounded truncate text-white',
-                            event.hasConflict && 'ring-2 ring-destructive'
+                            event.hasConflict && 'ring-2 ring-destructive',
+                            !event.hasConflict && event.hasTurnoverWarning && 'ring-2 ring-amber-400',
+                            !event.hasConflict && event.checkInAtRisk && 'ring-2 ring-destructive'
                           )}
                           style={{
                             backgroundColor: event.channel
                               ? getChannelColor(event.channel)
                               : '#6B7280',
                           }}
-                          title={`${event.guestName || 'Block'} - ${getChannelName(event.channel || 'other')}`}
+                          title={[
+                            `${event.guestName || 'Block'} - ${getChannelName(event.channel || 'other')}`,
+                            ...(event.ruleViolations ?? []),
+                            ...(event.checkInAtRisk ? ['Cleaning before check-in is overdue'] : []),
+                          ].join('\n')}
                         >
                           {event.guestName || event.type}
                         </div>
@@ -282,6 +296,14 @@ export function CalendarPage() {
             <span className="text-sm text-muted-foreground">{getChannelName(channel)}</span>
           </div>
         ))}
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full ring-2 ring-destructive" />
+          <span className="text-sm text-muted-foreground">Double booking</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 rounded-full ring-2 ring-amber-400" />
+          <span className="text-sm text-muted-foreground">Tight turnover</span>
+        </div>
       </div>
 
       {/* Upcoming Reservations List */}
@@ -309,19 +331,52 @@ export function CalendarPage() {
                         style={{ backgroundColor: getChannelColor(reservation.channel || 'other') }}
                       />
                       <div>
-                        <p className="font-medium">{reservation.guestName || 'Guest'}</p>
+                        <div className="flex items-center gap-2">
+                          {reservation.guestId ? (
+                            <Link to={`/guests/${reservation.guestId}`} className="font-medium hover:text-primary hover:underline">
+                              {reservation.guestName || 'Guest'}
+                            </Link>
+                          ) : (
+                            <p className="font-medium">{reservation.guestName || 'Guest'}</p>
+                          )}
+                          {reservation.guestTags?.map((tag) => (
+                            <GuestTag key={tag} tag={tag} />
+                          ))}
+                        </div>
                         <p className="text-sm text-muted-foreground">
-                          {format(parseISO(reservation.checkIn as unknown as string), 'MMM d, yyyy')} → {' '}
-                          {format(parseISO(reservation.checkOut as unknown as string), 'MMM d, yyyy')}
+                          {format(parseStayDate(reservation.checkIn), 'MMM d, yyyy')} → {' '}
+                          {format(parseStayDate(reservation.checkOut), 'MMM d, yyyy')}
                         </p>
+                        {reservation.ruleViolations?.map((violation) => (
+                          <p key={violation} className="flex items-center gap-1 text-xs text-amber-600">
+                            <AlertTriangle size={12} />
+                            {violation}
+                          </p>
+                        ))}
+                        {reservation.checkInAtRisk && (
+                          <p className="flex items-center gap-1 text-xs text-destructive">
+                            <AlertTriangle size={12} />
+                            Cleaning before check-in is overdue
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="text-right">
+                      {reservation.status === 'pending' && (
+                        <button
+                          onClick={() => confirmMutation.mutate(reservation.id)}
+                          disabled={confirmMutation.isPending}
+                          className="mr-2 px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-700 hover:bg-amber-200 transition-colors disabled:opacity-50"
+                          title="Accept this booking request"
+                        >
+                          Confirm request
+                        </button>
+                      )}
                       <span className="px-2 py-1 rounded text-xs font-medium bg-primary/10 text-primary">
                         {getChannelName(reservation.channel || 'other')}
                       </span>
                       <button
-                        onClick={() => setCurrentDate(parseISO(reservation.checkIn as unknown as string))}
+                        onClick={() => setCurrentDate(parseStayDate(reservation.checkIn))}
                         className="ml-2 px-2 py-1 rounded text-xs font-medium hover:bg-accent transition-colors"
                         title="Jump to this date"
                       >
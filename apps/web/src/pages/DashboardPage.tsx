@@ -11,9 +11,12 @@ import {
   Loader2,
 } from 'lucide-react';
 import { formatCurrency, formatRelativeDate } from '@/lib/utils';
+import { getUserRole, useAuthStore } from '@/stores/auth';
+import { OverdueEscalations } from '@/components/tasks/OverdueEscalations';
 import type { DashboardSummary } from '@unifiedstay/shared';
 
 export function DashboardPage() {
+  const owner = useAuthStore((state) => getUserRole(state.user) === 'owner');
   const { data: summary, isLoading } = useQuery({
     queryKey: ['dashboard-summary'],
     queryFn: () => api.get<DashboardSummary>('/dashboard/summary'),
@@ -84,6 +87,8 @@ export function DashboardPage() {
         ))}
       </div>
 
+      {owner && <OverdueEscalations />}
+
       {/* Revenue & Occupancy Row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-8">
         {/* Monthly Revenue */}
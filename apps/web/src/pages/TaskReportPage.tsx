@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, BarChart3, Loader2 } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { api } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface CompletionRow {
+  id: string | null;
+  name: string;
+  due: number;
+  onTime: number;
+  late: number;
+  onTimeRate: number | null;
+}
+
+interface TaskReport {
+  due: number;
+  onTime: number;
+  byAssignee: CompletionRow[];
+  byProperty: CompletionRow[];
+}
+
+function formatRate(rate: number | null) {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+function CompletionTable({ title, rows }: { title: string; rows: CompletionRow[] }) {
+  return (
+    <div className="bg-card rounded-xl border border-border overflow-hidden">
+      <h2 className="text-lg font-semibold p-4 border-b border-border">{title}</h2>
+      {rows.length > 0 ? (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="p-3 font-medium">Name</th>
+              <th className="p-3 font-medium text-right">Due</th>
+              <th className="p-3 font-medium text-right">On time</th>
+              <th className="p-3 font-medium text-right">Late or missed</th>
+              <th className="p-3 font-medium text-right">Rate</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border">
+            {rows.map((row) => (
+              <tr key={row.id ?? 'none'}>
+                <td className={cn('p-3 font-medium', row.id === null && 'text-muted-foreground')}>
+                  {row.name}
+                </td>
+                <td className="p-3 text-right">{row.due}</td>
+                <td className="p-3 text-right">{row.onTime}</td>
+                <td className="p-3 text-right">{row.late}</td>
+                <td
+                  className={cn(
+                    'p-3 text-right font-medium',
+                    row.onTimeRate !== null && row.onTimeRate < 0.8 && 'text-destructive'
+                  )}
+                >
+                  {formatRate(row.onTimeRate)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="p-4 text-sm text-muted-foreground">No tasks were due in this period</p>
+      )}
+    </div>
+  );
+}
+
+export function TaskReportPage() {
+  const [start, setStart] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [end, setEnd] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['task-report', start, end],
+    queryFn: () => api.get<TaskReport>(`/tasks/report?start=${start}&end=${end}`),
+    enabled: !!start && !!end && start <= end,
+  });
+
+  return (
+    <div className="p-6 lg:p-8">
+      <Link
+        to="/tasks"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-4"
+      >
+        <ArrowLeft size={16} />
+        Tasks
+      </Link>
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-display font-bold">Task Report</h1>
+          <p className="text-muted-foreground">
+            {report && report.due > 0
+              ? `${formatRate(report.onTime / report.due)} of ${report.due} tasks completed on time`
+              : 'On-time completion for tasks due in the period'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={start}
+            max={end}
+            onChange={(e) => setStart(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+          <span className="text-muted-foreground">–</span>
+          <input
+            type="date"
+            value={end}
+            min={start}
+            onChange={(e) => setEnd(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : report ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <CompletionTable title="By Assignee" rows={report.byAssignee} />
+          <CompletionTable title="By Property" rows={report.byProperty} />
+        </div>
+      ) : (
+        <div className="text-center py-12">
+          <BarChart3 className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">Pick a date range</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,27 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Check, Clock, Plus, Loader2, Filter, ClipboardList } from 'lucide-react';
+import {
+  Check,
+  Clock,
+  Plus,
+  Loader2,
+  Filter,
+  ClipboardList,
+  Repeat,
+  MapPin,
+  KeyRound,
+  LogIn,
+  History,
+  AlertTriangle,
+  BarChart3,
+} from 'lucide-react';
 import { api } from '@/lib/api';
-import { cn, formatRelativeDate } from '@/lib/utils';
+import { isManager, useAuthStore } from '@/stores/auth';
+import { cn, formatRelativeDate, formatTime } from '@/lib/utils';
 import { AddTaskModal } from '@/components/tasks/AddTaskModal';
+import { TaskChecklist, type ChecklistItem } from '@/components/tasks/TaskChecklist';
+import { TaskHistory } from '@/components/tasks/TaskHistory';
 import type { TaskStatus, TaskType } from '@unifiedstay/shared';
 
 interface Task {
@@ -11,10 +29,14 @@ interface Task {
   type: TaskType;
   status: TaskStatus;
   description?: string;
+  checklist: ChecklistItem[];
   dueAt: string;
-  property: { id: string; name: string };
+  nextCheckInAt: string | null;
+  overdueAt: string | null;
+  property: { id: string; name: string; timezone: string; address: string; accessNotes: string | null };
   reservation?: { guestName: string };
-  assignee?: { name: string };
+  assignee?: { id: string; name: string };
+  template?: { name: string };
 }
 
 const statusColors: Record<TaskStatus, string> = {
@@ -35,6 +57,8 @@ const typeLabels: Record<TaskType, string> = {
 export function TasksPage() {
   const [statusFilter, setStatusFilter] = useState<TaskStatus | 'all'>('all');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [historyTaskId, setHistoryTaskId] = useState<string | null>(null);
+  const manager = useAuthStore((state) => isManager(state.user));
   const queryClient = useQueryClient();
 
   const { data: tasks, isLoading } = useQuery({
@@ -43,12 +67,22 @@ export function TasksPage() {
       api.get<Task[]>(`/tasks${statusFilter !== 'all' ? `?status=${statusFilter}` : ''}`),
   });
 
+  const { data: assignees } = useQuery({
+    queryKey: ['organization-assignees'],
+    queryFn: () => api.get<{ id: string; name: string }[]>('/organizations/assignees'),
+    enabled: manager,
+  });
+
   const updateTaskMutation = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: TaskStatus }) =>
-      api.patch(`/tasks/${id}`, { status }),
+    mutationFn: ({ id, ...changes }: { id: string; status?: TaskStatus; assigneeId?: string | null }) =>
+      api.patch(`/tasks/${id}`, changes),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
     },
+    onError: (err) => {
+      // e.g. required checklist items still open
+      alert(err instanceof Error ? err.message : 'Failed to update task');
+    },
   });
 
   const handleStatusChange = (taskId: string, newStatus: TaskStatus) => {
@@ -69,16 +103,27 @@ export function TasksPage() {
           </p>
         </div>
 
-        <button 
-          onClick={() => setShowAddModal(true)}
-          className="inline-flex items-center gap-2 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors"
-        >
-          <Plus size={18} />
-          Add Task
-        </button>
+        {manager && (
+          <div className="flex items-center gap-2">
+            <Link
+              to="/tasks/report"
+              className="inline-flex items-center gap-2 px-4 py-2.5 rounded-lg border border-border font-medium hover:bg-accent transition-colors"
+            >
+              <BarChart3 size={18} />
+              Report
+            </Link>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="inline-flex items-center gap-2 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors"
+            >
+              <Plus size={18} />
+              Add Task
+            </button>
+          </div>
+        )}
       </div>
 
-      <AddTaskModal open={showAddModal} onClose={() => setShowAddModal(false)} />
+      {manager && <AddTaskModal open={showAddModal} onClose={() => setShowAddModal(false)} />}
 
       {/* Filters */}
       <div className="flex items-center gap-2 mb-6">
@@ -109,7 +154,11 @@ export function TasksPage() {
           <ClipboardList className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
           <h3 className="text-lg font-semibold mb-2">No tasks found</h3>
           <p className="text-muted-foreground">
-            {statusFilter !== 'all' ? 'Try changing the filter' : 'Tasks will appear here as reservations are made'}
+            {statusFilter !== 'all'
+              ? 'Try changing the filter'
+              : manager
+                ? 'Tasks will appear here as reservations are made'
+                : 'Tasks assigned to you will appear here'}
           </p>
         </div>
       ) : (
@@ -148,6 +197,12 @@ export function TasksPage() {
                       >
                         {typeLabels[task.type]}
                       </span>
+                      {task.overdueAt && task.status !== 'completed' && (
+                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium border bg-destructive/10 text-destructive border-destructive/20">
+                          <AlertTriangle size={12} />
+                          Overdue
+                        </span>
+                      )}
                       <span className="text-sm font-medium">{task.property.name}</span>
                     </div>
 
@@ -161,13 +216,69 @@ export function TasksPage() {
                       {task.reservation && ` for ${task.reservation.guestName}`}
                     </p>
 
+                    <div className="flex items-center gap-1 mt-1 text-sm text-muted-foreground">
+                      <MapPin size={14} />
+                      <span>{task.property.address}</span>
+                    </div>
+                    {task.property.accessNotes && task.status !== 'completed' && (
+                      <div className="flex items-start gap-1 mt-1 text-sm text-muted-foreground">
+                        <KeyRound size={14} className="mt-0.5 flex-shrink-0" />
+                        <span className="whitespace-pre-line">{task.property.accessNotes}</span>
+                      </div>
+                    )}
+
+                    {task.checklist.length > 0 && <TaskChecklist taskId={task.id} items={task.checklist} />}
+
                     <div className="flex items-center gap-4 mt-2 text-sm text-muted-foreground">
                       <div className="flex items-center gap-1">
                         <Clock size={14} />
-                        <span>{formatRelativeDate(task.dueAt)}</span>
+                        <span>
+                          {formatRelativeDate(task.dueAt)} at{' '}
+                          {formatTime(task.dueAt, task.property.timezone)}
+                        </span>
                       </div>
-                      {task.assignee && <span>Assigned to {task.assignee.name}</span>}
+                      {task.nextCheckInAt && task.status !== 'completed' && (
+                        <div className="flex items-center gap-1" title="The cleaning must be done before then">
+                          <LogIn size={14} />
+                          <span>
+                            Next check-in {formatRelativeDate(task.nextCheckInAt)} at{' '}
+                            {formatTime(task.nextCheckInAt, task.property.timezone)}
+                          </span>
+                        </div>
+                      )}
+                      {manager && assignees ? (
+                        <select
+                          value={task.assignee?.id ?? ''}
+                          onChange={(e) =>
+                            updateTaskMutation.mutate({ id: task.id, assigneeId: e.target.value || null })
+                          }
+                          className="px-2 py-0.5 rounded border border-input bg-background text-sm"
+                        >
+                          <option value="">Unassigned</option>
+                          {assignees.map((a) => (
+                            <option key={a.id} value={a.id}>
+                              {a.name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        task.assignee && <span>Assigned to {task.assignee.name}</span>
+                      )}
+                      {task.template && (
+                        <span className="flex items-center gap-1">
+                          <Repeat size={14} />
+                          {task.template.name}
+                        </span>
+                      )}
+                      <button
+                        onClick={() => setHistoryTaskId(historyTaskId === task.id ? null : task.id)}
+                        className="flex items-center gap-1 hover:text-foreground transition-colors"
+                      >
+                        <History size={14} />
+                        History
+                      </button>
                     </div>
+                    {historyTaskId === task.id && <TaskHistory taskId={task.id} />}
                   </div>
                 </div>
 
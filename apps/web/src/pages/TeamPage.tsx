@@ -0,0 +1,320 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Copy, Loader2, Mail, Trash2, UserCog, UserPlus } from 'lucide-react';
+import { api } from '@/lib/api';
+import { useAuthStore } from '@/stores/auth';
+import type { CreateInviteInput, UpdateMemberInput, UserRole } from '@unifiedstay/shared';
+
+interface Member {
+  id: string;
+  role: UserRole;
+  maxTasksPerDay: number;
+  user: { id: string; email: string; name: string };
+}
+
+interface Invite {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  expiresAt: string;
+  link: string;
+}
+
+const roleLabels: Record<UserRole, string> = {
+  owner: 'Owner',
+  co_host: 'Co-host',
+  bookkeeper: 'Bookkeeper',
+  cleaner: 'Cleaner',
+  maintenance: 'Maintenance',
+};
+
+const roleDescriptions: Record<UserRole, string> = {
+  owner: 'Full access, including managing the team',
+  co_host: 'Manages properties, calendars, guests, finances and tasks',
+  bookkeeper: 'Sees finances and property details; records expenses and payouts',
+  cleaner: 'Sees and completes only the tasks assigned to them',
+  maintenance: 'Sees and completes only the tasks assigned to them',
+};
+
+const roles = Object.keys(roleLabels) as UserRole[];
+
+export function TeamPage() {
+  const { user, accessToken, setAuth } = useAuthStore();
+  const [organizationName, setOrganizationName] = useState(user?.organization?.name ?? '');
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<UserRole>('cleaner');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setOrganizationName(user?.organization?.name ?? '');
+  }, [user?.organization?.name]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['organization-members'],
+    queryFn: () => api.get<{ members: Member[]; invites: Invite[] }>('/organizations/members'),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['organization-members'] });
+    queryClient.invalidateQueries({ queryKey: ['organization-assignees'] });
+  };
+
+  const onError = (err: Error) => {
+    alert(err.message || 'Something went wrong');
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: (newName: string) =>
+      api.patch<{ id: string; name: string }>('/organizations/current', { name: newName }),
+    onSuccess: (organization) => {
+      if (user && accessToken) {
+        setAuth({ ...user, organization }, accessToken);
+      }
+      queryClient.invalidateQueries({ queryKey: ['organizations'] });
+    },
+    onError,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: (input: CreateInviteInput) => api.post<Invite>('/organizations/invites', input),
+    onSuccess: () => {
+      setEmail('');
+      setName('');
+      invalidate();
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/organizations/invites/${id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: UpdateMemberInput }) =>
+      api.patch(`/organizations/members/${id}`, input),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => api.delete(`/organizations/members/${id}`),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    },
+    onError,
+  });
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    renameMutation.mutate(organizationName.trim());
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    inviteMutation.mutate({ email, name: name || undefined, role });
+  };
+
+  const copyLink = async (invite: Invite) => {
+    await navigator.clipboard.writeText(invite.link);
+    setCopiedId(invite.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  return (
+    <div className="p-6 lg:p-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-2xl font-display font-bold">Team</h1>
+        <p className="text-muted-foreground">Invite partners, co-hosts, bookkeepers and field staff</p>
+      </div>
+
+      {/* Organization name */}
+      <form onSubmit={handleRename} className="bg-card rounded-xl border border-border p-4 mb-6 flex items-center gap-3">
+        <input
+          type="text"
+          value={organizationName}
+          onChange={(e) => setOrganizationName(e.target.value)}
+          placeholder="Organization name"
+          className="flex-1 px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+          required
+        />
+        <button
+          type="submit"
+          disabled={renameMutation.isPending || organizationName.trim() === user?.organization?.name}
+          className="inline-flex items-center gap-2 px-4 py-2.5 rounded-lg border border-border font-medium hover:bg-accent transition-colors disabled:opacity-50"
+        >
+          {renameMutation.isPending && <Loader2 size={16} className="animate-spin" />}
+          Rename
+        </button>
+      </form>
+
+      {/* Invite form */}
+      <form
+        onSubmit={handleInvite}
+        className="bg-card rounded-xl border border-border p-4 mb-6 grid gap-3 sm:grid-cols-[1fr_1fr_auto_auto]"
+      >
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          className="px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+          required
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className="px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className="px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          {roles.map((r) => (
+            <option key={r} value={r}>
+              {roleLabels[r]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={inviteMutation.isPending}
+          className="inline-flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors disabled:opacity-50"
+        >
+          {inviteMutation.isPending ? <Loader2 size={18} className="animate-spin" /> : <UserPlus size={18} />}
+          Invite
+        </button>
+        <p className="text-xs text-muted-foreground sm:col-span-4">{roleDescriptions[role]}</p>
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Pending invites */}
+          {data && data.invites.length > 0 && (
+            <div>
+              <h2 className="text-sm font-semibold text-muted-foreground mb-2">Pending invites</h2>
+              <div className="bg-card rounded-xl border border-border divide-y divide-border">
+                {data.invites.map((invite) => (
+                  <div key={invite.id} className="p-4 flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Mail size={18} className="text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{invite.name || invite.email}</p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {roleLabels[invite.role]} · expires {new Date(invite.expiresAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => copyLink(invite)}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border text-sm hover:bg-accent transition-colors"
+                        title="Send this link to the person you invited"
+                      >
+                        <Copy size={14} />
+                        {copiedId === invite.id ? 'Copied' : 'Copy link'}
+                      </button>
+                      <button
+                        onClick={() => revokeMutation.mutate(invite.id)}
+                        className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-accent transition-colors"
+                        title="Revoke invite"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Members */}
+          {!data || data.members.length === 0 ? (
+            <div className="text-center py-16">
+              <UserCog className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No members yet</h3>
+              <p className="text-muted-foreground">Invite someone above and send them the link</p>
+            </div>
+          ) : (
+            <div className="bg-card rounded-xl border border-border divide-y divide-border">
+              {data.members.map((member) => (
+                <div key={member.id} className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {member.user.name}
+                      {member.user.id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">{member.user.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {member.role !== 'bookkeeper' && (
+                      <label className="flex items-center gap-1 text-xs text-muted-foreground" title="Most tasks assigned automatically in a day">
+                        <input
+                          type="number"
+                          min={1}
+                          max={20}
+                          defaultValue={member.maxTasksPerDay}
+                          onBlur={(e) => {
+                            const maxTasksPerDay = Number(e.target.value);
+                            if (maxTasksPerDay !== member.maxTasksPerDay && maxTasksPerDay >= 1) {
+                              updateMemberMutation.mutate({ id: member.id, input: { maxTasksPerDay } });
+                            }
+                          }}
+                          className="w-14 px-2 py-1 rounded border border-input bg-background text-sm"
+                        />
+                        / day
+                      </label>
+                    )}
+                    <select
+                      value={member.role}
+                      onChange={(e) =>
+                        updateMemberMutation.mutate({
+                          id: member.id,
+                          input: { role: e.target.value as UserRole },
+                        })
+                      }
+                      disabled={member.user.id === user?.id}
+                      className="px-2 py-1 rounded border border-input bg-background text-sm disabled:opacity-50"
+                    >
+                      {roles.map((r) => (
+                        <option key={r} value={r}>
+                          {roleLabels[r]}
+                        </option>
+                      ))}
+                    </select>
+                    {member.user.id !== user?.id && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Remove ${member.user.name}? Their tasks will be unassigned.`)) {
+                            removeMutation.mutate(member.id);
+                          }
+                        }}
+                        className="p-2 rounded-lg text-muted-foreground hover:text-destructive hover:bg-accent transition-colors"
+                        title="Remove from team"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
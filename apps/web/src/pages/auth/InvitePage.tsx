@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Eye, EyeOff, Loader2 } from 'lucide-react';
+import { getHomePath, useAuthStore, type User } from '@/stores/auth';
+import { api } from '@/lib/api';
+import type { UserRole } from '@unifiedstay/shared';
+
+interface Invite {
+  email: string;
+  name: string | null;
+  role: UserRole;
+  organizationName: string;
+  expiresAt: string;
+  hasAccount: boolean;
+}
+
+const roleLabels: Record<UserRole, string> = {
+  owner: 'owner',
+  co_host: 'co-host',
+  bookkeeper: 'bookkeeper',
+  cleaner: 'cleaner',
+  maintenance: 'maintenance staff member',
+};
+
+export function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { setAuth } = useAuthStore();
+  const navigate = useNavigate();
+
+  const { data: invite, isLoading: inviteLoading, error: inviteError } = useQuery({
+    queryKey: ['invite', token],
+    queryFn: () => api.get<Invite>(`/auth/invites/${token}`),
+    retry: false,
+  });
+
+  // Start from the name the owner entered, if any
+  useEffect(() => {
+    if (invite?.name) {
+      setName((current) => current || invite.name || '');
+    }
+  }, [invite]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await api.post<{ user: User; accessToken: string }>(
+        `/auth/invites/${token}/accept`,
+        // Existing accounts keep their name and just confirm their password
+        invite?.hasAccount ? { password } : { name, password }
+      );
+      setAuth(response.user, response.accessToken);
+      navigate(getHomePath(response.user.role));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not accept invite');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (inviteLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!invite) {
+    return (
+      <div className="animate-in">
+        <h2 className="text-2xl font-display font-bold mb-2">Invite unavailable</h2>
+        <p className="text-muted-foreground mb-8">
+          {inviteError instanceof Error ? inviteError.message : 'Invite not found'}. Ask for a new invite link.
+        </p>
+        <Link to="/login" className="text-primary hover:underline font-medium">
+          Go to sign in
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-in">
+      <h2 className="text-2xl font-display font-bold mb-2">Join {invite.organizationName}</h2>
+      <p className="text-muted-foreground mb-8">
+        You've been invited as a {roleLabels[invite.role]}.{' '}
+        {invite.hasAccount
+          ? 'Sign in with your password to join.'
+          : 'Set up your account to get started.'}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="email" className="block text-sm font-medium mb-2">
+            Email
+          </label>
+          <input
+            id="email"
+            type="email"
+            value={invite.email}
+            className="w-full px-4 py-2.5 rounded-lg border border-input bg-muted text-muted-foreground"
+            disabled
+          />
+        </div>
+
+        {!invite.hasAccount && (
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium mb-2">
+              Name
+            </label>
+            <input
+              id="name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+              placeholder="John Doe"
+              required
+            />
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium mb-2">
+            Password
+          </label>
+          <div className="relative">
+            <input
+              id="password"
+              type={showPassword ? 'text' : 'password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full px-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring pr-10"
+              placeholder="••••••••"
+              minLength={invite.hasAccount ? undefined : 8}
+              required
+            />
+            <button
+              type="button"
+              onClick={() => setShowPassword(!showPassword)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            >
+              {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
+            </button>
+          </div>
+          {!invite.hasAccount && (
+            <p className="text-xs text-muted-foreground mt-1">Must be at least 8 characters</p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="w-full py-2.5 rounded-lg bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Joining...
+            </>
+          ) : (
+            `Join ${invite.organizationName}`
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
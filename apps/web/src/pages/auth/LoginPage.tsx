@@ -1,7 +1,7 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Eye, EyeOff, Loader2 } from 'lucide-react';
-import { useAuthStore } from '@/stores/auth';
+import { useAuthStore, type User } from '@/stores/auth';
 import { api } from '@/lib/api';
 
 export function LoginPage() {
@@ -20,7 +20,7 @@ export function LoginPage() {
     setIsLoading(true);
 
     try {
-      const response = await api.post<{ user: { id: string; email: string; name: string }; accessToken: string }>(
+      const response = await api.post<{ user: User; accessToken: string }>(
         '/auth/login',
         { email, password }
       );
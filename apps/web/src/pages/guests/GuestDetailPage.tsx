@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Loader2, Mail, Phone, User, Ban, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { api } from '@/lib/api';
+import { cn, formatCurrency, getChannelColor, getChannelName, parseStayDate } from '@/lib/utils';
+import type { UpdateGuestInput } from '@unifiedstay/shared';
+import { GuestTag } from '@/components/guests/GuestTag';
+
+interface GuestStay {
+  id: string;
+  channel: string;
+  status: string;
+  checkIn: string;
+  checkOut: string;
+  totalAmount: string | null;
+  unit: { id: string; name: string; property: { id: string; name: string } };
+}
+
+interface GuestDetail {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  tags: string[];
+  reservations: GuestStay[];
+  stayCount: number;
+  nightCount: number;
+  totalRevenue: number;
+}
+
+const DO_NOT_REBOOK = 'do not rebook';
+
+export function GuestDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState('');
+  const [newTag, setNewTag] = useState('');
+
+  const { data: guest, isLoading } = useQuery({
+    queryKey: ['guest', id],
+    queryFn: () => api.get<GuestDetail>(`/guests/${id}`),
+  });
+
+  useEffect(() => {
+    setNotes(guest?.notes ?? '');
+  }, [guest?.notes]);
+
+  const updateMutation = useMutation({
+    mutationFn: (input: UpdateGuestInput) => api.patch(`/guests/${id}`, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['guest', id] });
+      queryClient.invalidateQueries({ queryKey: ['guests'] });
+      queryClient.invalidateQueries({ queryKey: ['upcoming-reservations'] });
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to update guest');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!guest) {
+    return (
+      <div className="p-6 lg:p-8 text-center">
+        <h2 className="text-xl font-semibold mb-2">Guest not found</h2>
+        <Link to="/guests" className="text-primary hover:underline">
+          Back to guests
+        </Link>
+      </div>
+    );
+  }
+
+  const doNotRebook = guest.tags.includes(DO_NOT_REBOOK);
+
+  const setTags = (tags: string[]) => updateMutation.mutate({ tags });
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = newTag.trim().toLowerCase();
+    if (tag && !guest.tags.includes(tag)) {
+      setTags([...guest.tags, tag]);
+    }
+    setNewTag('');
+  };
+
+  return (
+    <div className="p-6 lg:p-8">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          to="/guests"
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-4"
+        >
+          <ArrowLeft size={16} />
+          Back to Guests
+        </Link>
+
+        <div className="flex items-start justify-between">
+          <div className="flex items-start gap-4">
+            <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-primary/20 to-purple-500/20 flex items-center justify-center">
+              <User className="w-7 h-7 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-display font-bold">{guest.name}</h1>
+              <div className="flex items-center gap-4 text-muted-foreground mt-1">
+                {guest.email && (
+                  <span className="flex items-center gap-1">
+                    <Mail size={16} />
+                    {guest.email}
+                  </span>
+                )}
+                {guest.phone && (
+                  <span className="flex items-center gap-1">
+                    <Phone size={16} />
+                    {guest.phone}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <button
+            onClick={() =>
+              setTags(doNotRebook ? guest.tags.filter((t) => t !== DO_NOT_REBOOK) : [...guest.tags, DO_NOT_REBOOK])
+            }
+            disabled={updateMutation.isPending}
+            className={cn(
+              'inline-flex items-center gap-2 px-4 py-2 rounded-lg border transition-colors disabled:opacity-50',
+              doNotRebook
+                ? 'border-destructive/30 bg-destructive/10 text-destructive hover:bg-destructive/20'
+                : 'border-border hover:bg-accent'
+            )}
+          >
+            <Ban size={16} />
+            {doNotRebook ? 'Marked do not rebook' : 'Mark do not rebook'}
+          </button>
+        </div>
+      </div>
+
+      {/* Quick Info */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 mb-8">
+        <div className="bg-card rounded-lg border border-border p-4">
+          <p className="text-sm text-muted-foreground mb-1">Stays</p>
+          <p className="font-medium">{guest.stayCount}</p>
+        </div>
+        <div className="bg-card rounded-lg border border-border p-4">
+          <p className="text-sm text-muted-foreground mb-1">Nights</p>
+          <p className="font-medium">{guest.nightCount}</p>
+        </div>
+        <div className="bg-card rounded-lg border border-border p-4">
+          <p className="text-sm text-muted-foreground mb-1">Total Revenue</p>
+          <p className="font-medium">{formatCurrency(guest.totalRevenue)}</p>
+        </div>
+      </div>
+
+      {/* Notes & Tags */}
+      <div className="bg-card rounded-xl border border-border p-6 mb-8">
+        <h2 className="text-lg font-semibold mb-4">Notes & Tags</h2>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {guest.tags.map((tag) => (
+            <span key={tag} className="inline-flex items-center gap-1">
+              <GuestTag tag={tag} />
+              <button
+                onClick={() => setTags(guest.tags.filter((t) => t !== tag))}
+                className="p-0.5 rounded text-muted-foreground hover:text-destructive"
+                title="Remove tag"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <form onSubmit={handleAddTag}>
+            <input
+              type="text"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              placeholder="Add tag..."
+              className="px-2 py-1 rounded-lg border border-input bg-background text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+            />
+          </form>
+        </div>
+
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={4}
+          placeholder="Preferences, issues from past stays..."
+          className="w-full px-3 py-2 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <div className="flex justify-end mt-2">
+          <button
+            onClick={() => updateMutation.mutate({ notes: notes.trim() || null })}
+            disabled={updateMutation.isPending || notes === (guest.notes ?? '')}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            {updateMutation.isPending && <Loader2 size={14} className="animate-spin" />}
+            Save Notes
+          </button>
+        </div>
+      </div>
+
+      {/* Stay History */}
+      <div className="bg-card rounded-xl border border-border overflow-hidden">
+        <h2 className="text-lg font-semibold p-6 pb-4">Stay History</h2>
+        {guest.reservations.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">No stays yet</p>
+        ) : (
+          <div className="divide-y divide-border border-t border-border">
+            {guest.reservations.map((stay) => (
+              <div key={stay.id} className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: getChannelColor(stay.channel) }} />
+                  <div>
+                    <p className="font-medium">
+                      {stay.unit.property.name} · {stay.unit.name}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseStayDate(stay.checkIn), 'MMM d, yyyy')} →{' '}
+                      {format(parseStayDate(stay.checkOut), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  {stay.totalAmount && <span className="font-medium">{formatCurrency(parseFloat(stay.totalAmount))}</span>}
+                  <span
+                    className={cn(
+                      'px-2 py-0.5 rounded-full text-xs',
+                      stay.status === 'cancelled' ? 'bg-muted text-muted-foreground line-through' : 'bg-primary/10 text-primary'
+                    )}
+                  >
+                    {stay.status}
+                  </span>
+                  <span className="px-2 py-1 rounded text-xs font-medium bg-primary/10 text-primary">
+                    {getChannelName(stay.channel)}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Users, Loader2, Search, Mail, Phone, ChevronLeft, ChevronRight } from 'lucide-react';
+import { api } from '@/lib/api';
+import { GuestTag } from '@/components/guests/GuestTag';
+
+interface GuestSummary {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  tags: string[];
+  _count: { reservations: number };
+}
+
+const PAGE_SIZE = 25;
+
+export function GuestsPage() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['guests', searchQuery, page],
+    queryFn: () => {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (searchQuery.trim()) params.set('search', searchQuery.trim());
+      return api.getPaginated<GuestSummary>(`/guests?${params}`);
+    },
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  return (
+    <div className="p-6 lg:p-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-2xl font-display font-bold">Guests</h1>
+        <p className="text-muted-foreground">Everyone who has booked, matched across channels by email or phone</p>
+      </div>
+
+      {/* Search */}
+      <div className="relative mb-6">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+        <input
+          type="text"
+          placeholder="Search by name, email or phone..."
+          value={searchQuery}
+          onChange={(e) => {
+            setSearchQuery(e.target.value);
+            setPage(1);
+          }}
+          className="w-full pl-10 pr-4 py-2.5 rounded-lg border border-input bg-background focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !data || data.items.length === 0 ? (
+        <div className="text-center py-16">
+          <Users className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">{searchQuery ? 'No guests found' : 'No guests yet'}</h3>
+          <p className="text-muted-foreground">
+            {searchQuery
+              ? 'Try adjusting your search'
+              : 'Guests appear here when reservations are created or synced with an email or phone number'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-card rounded-xl border border-border overflow-hidden">
+            <div className="divide-y divide-border">
+              {data.items.map((guest) => (
+                <Link
+                  key={guest.id}
+                  to={`/guests/${guest.id}`}
+                  className="p-4 flex items-center justify-between gap-4 hover:bg-accent/50 transition-colors"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{guest.name}</p>
+                      {guest.tags.map((tag) => (
+                        <GuestTag key={tag} tag={tag} />
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
+                      {guest.email && (
+                        <span className="flex items-center gap-1 truncate">
+                          <Mail size={14} />
+                          {guest.email}
+                        </span>
+                      )}
+                      {guest.phone && (
+                        <span className="flex items-center gap-1">
+                          <Phone size={14} />
+                          {guest.phone}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <span className="text-sm text-muted-foreground flex-shrink-0">
+                    {guest._count.reservations} {guest._count.reservations === 1 ? 'booking' : 'bookings'}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between mt-3 text-sm text-muted-foreground">
+            <span>
+              Page {data.page} of {totalPages} · {data.total} guests
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={page <= 1}
+                className="p-1 rounded hover:bg-accent disabled:opacity-50"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page >= totalPages}
+                className="p-1 rounded hover:bg-accent disabled:opacity-50"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,40 @@
 import { useParams, Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { ArrowLeft, Building2, MapPin, Clock, Settings, Plus, Loader2, LinkIcon, RefreshCw } from 'lucide-react';
-import { api } from '@/lib/api';
+import { ArrowLeft, Building2, MapPin, Clock, Settings, Plus, Loader2, LinkIcon, RefreshCw, Copy, Check, Trash2, History } from 'lucide-react';
+import { api, getPublicApiUrl } from '@/lib/api';
 import { getChannelColor, getChannelName } from '@/lib/utils';
 import { useState } from 'react';
 import { AddChannelModal } from '@/components/properties/AddChannelModal';
+import { SyncHistory } from '@/components/properties/SyncHistory';
+import { BookingRules } from '@/components/properties/BookingRules';
+import { BookingLink } from '@/components/properties/BookingLink';
+import { AccessNotes } from '@/components/properties/AccessNotes';
+import { RatesAndTaxes } from '@/components/properties/RatesAndTaxes';
+import { TaskTemplates } from '@/components/tasks/TaskTemplates';
+import { PreferredCleaners } from '@/components/tasks/PreferredCleaners';
 
 interface ChannelMapping {
   id: string;
   channel: string;
+  unit: { id: string; name: string };
   externalId?: string;
   iCalUrl?: string;
   lastSyncAt?: string;
+  lastSyncError?: string;
+  syncIntervalMinutes: number;
+  consecutiveFailures: number;
+  nextSyncAt?: string;
 }
 
+const syncIntervalOptions = [
+  { value: 15, label: 'Every 15 min' },
+  { value: 30, label: 'Every 30 min' },
+  { value: 60, label: 'Hourly' },
+  { value: 180, label: 'Every 3 hours' },
+  { value: 720, label: 'Every 12 hours' },
+  { value: 1440, label: 'Daily' },
+];
+
 interface Property {
   id: string;
   name: string;
@@ -21,14 +42,25 @@ interface Property {
   timezone: string;
   defaultMinNights: number;
   cleaningBufferHours: number;
+  checkInTime: string;
+  checkOutTime: string;
+  accessNotes: string | null;
+  slug: string | null;
   channelMappings: ChannelMapping[];
-  units: { id: string; name: string }[];
+  units: { id: string; name: string; icalExportToken: string }[];
+}
+
+function getExportUrl(unit: { id: string; icalExportToken: string }) {
+  return getPublicApiUrl(`/calendar/ical/${unit.id}.ics?token=${unit.icalExportToken}`);
 }
 
 export function PropertyDetailPage() {
   const { id } = useParams<{ id: string }>();
   const [showChannelModal, setShowChannelModal] = useState(false);
   const [syncingChannelId, setSyncingChannelId] = useState<string | null>(null);
+  const [copiedUnitId, setCopiedUnitId] = useState<string | null>(null);
+  const [newUnitName, setNewUnitName] = useState('');
+  const [historyChannelId, setHistoryChannelId] = useState<string | null>(null);
   const queryClient = useQueryClient();
 
   const { data: property, isLoading } = useQuery({
@@ -39,11 +71,22 @@ export function PropertyDetailPage() {
 
   const syncMutation = useMutation({
     mutationFn: (channelMappingId: string) => 
-      api.post<{ success: boolean; eventsFound: number; eventsCreated: number }>(`/calendar/sync/${channelMappingId}`),
+      api.post<{
+        success: boolean;
+        eventsFound: number;
+        eventsCreated: number;
+        eventsCancelled: number;
+        unchanged?: boolean;
+      }>(`/calendar/sync/${channelMappingId}`),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['property', id] });
       queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
-      alert(`Sync complete! Found ${data.eventsFound} events, created ${data.eventsCreated} new reservations.`);
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      if (data.unchanged) {
+        alert('Sync complete! The calendar has not changed since the last sync.');
+        return;
+      }
+      alert(`Sync complete! Found ${data.eventsFound} events, created ${data.eventsCreated} new reservations, cancelled ${data.eventsCancelled}.`);
     },
     onError: (err) => {
       alert(`Sync failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -53,11 +96,73 @@ export function PropertyDetailPage() {
     },
   });
 
+  const regenerateTokenMutation = useMutation({
+    mutationFn: (unitId: string) => api.post(`/properties/${id}/units/${unitId}/ical-token`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['property', id] });
+    },
+  });
+
+  const addUnitMutation = useMutation({
+    mutationFn: (name: string) => api.post(`/properties/${id}/units`, { name }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['property', id] });
+      setNewUnitName('');
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to add unit');
+    },
+  });
+
+  const removeUnitMutation = useMutation({
+    mutationFn: (unitId: string) => api.delete(`/properties/${id}/units/${unitId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['property', id] });
+      queryClient.invalidateQueries({ queryKey: ['calendar-events'] });
+    },
+    onError: (err) => {
+      alert(err instanceof Error ? err.message : 'Failed to delete unit');
+    },
+  });
+
+  const handleAddUnit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newUnitName.trim()) {
+      addUnitMutation.mutate(newUnitName.trim());
+    }
+  };
+
+  const handleRemoveUnit = (unit: Property['units'][number]) => {
+    if (confirm(`Delete ${unit.name}? Its reservations, blocks and channel connections will be removed.`)) {
+      removeUnitMutation.mutate(unit.id);
+    }
+  };
+
+  const updateIntervalMutation = useMutation({
+    mutationFn: ({ channelId, syncIntervalMinutes }: { channelId: string; syncIntervalMinutes: number }) =>
+      api.patch(`/properties/${id}/channels/${channelId}`, { syncIntervalMinutes }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['property', id] });
+    },
+  });
+
   const handleSync = (channelId: string) => {
     setSyncingChannelId(channelId);
     syncMutation.mutate(channelId);
   };
 
+  const handleCopyExportUrl = async (unit: Property['units'][number]) => {
+    await navigator.clipboard.writeText(getExportUrl(unit));
+    setCopiedUnitId(unit.id);
+    setTimeout(() => setCopiedUnitId(null), 2000);
+  };
+
+  const handleRegenerateToken = (unitId: string) => {
+    if (confirm('Channels using the current export URL will stop receiving updates until you give them the new one. Continue?')) {
+      regenerateTokenMutation.mutate(unitId);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -108,7 +213,7 @@ export function PropertyDetailPage() {
       </div>
 
       {/* Quick Info */}
-      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-8">
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-8">
         <div className="bg-card rounded-lg border border-border p-4">
           <p className="text-sm text-muted-foreground mb-1">Timezone</p>
           <p className="font-medium">{property.timezone}</p>
@@ -121,6 +226,12 @@ export function PropertyDetailPage() {
           <p className="text-sm text-muted-foreground mb-1">Cleaning Buffer</p>
           <p className="font-medium">{property.cleaningBufferHours}h</p>
         </div>
+        <div className="bg-card rounded-lg border border-border p-4">
+          <p className="text-sm text-muted-foreground mb-1">Check-in / Check-out</p>
+          <p className="font-medium">
+            {property.checkInTime} / {property.checkOutTime}
+          </p>
+        </div>
         <div className="bg-card rounded-lg border border-border p-4">
           <p className="text-sm text-muted-foreground mb-1">Units</p>
           <p className="font-medium">{property.units?.length ?? 0}</p>
@@ -155,49 +266,171 @@ export function PropertyDetailPage() {
         ) : (
           <div className="space-y-3">
             {property.channelMappings.map((channel) => (
-              <div
-                key={channel.id}
-                className="flex items-center justify-between p-4 rounded-lg bg-muted/50"
-              >
-                <div className="flex items-center gap-3">
-                  <div
-                    className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: getChannelColor(channel.channel) }}
-                  />
-                  <div>
-                    <p className="font-medium">{getChannelName(channel.channel)}</p>
-                    <p className="text-sm text-muted-foreground">
-                      {channel.iCalUrl ? 'iCal connected' : 'Manual entry'}
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center gap-3">
-                  {channel.lastSyncAt && (
-                    <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                      <Clock size={14} />
-                      <span>Synced: {new Date(channel.lastSyncAt).toLocaleString()}</span>
+              <div key={channel.id} className="rounded-lg bg-muted/50">
+                <div className="flex items-center justify-between p-4">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: getChannelColor(channel.channel) }}
+                    />
+                    <div>
+                      <p className="font-medium">
+                        {getChannelName(channel.channel)}
+                        {property.units.length > 1 && (
+                          <span className="text-muted-foreground font-normal"> · {channel.unit.name}</span>
+                        )}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {channel.iCalUrl ? 'iCal connected' : 'Manual entry'}
+                        {channel.iCalUrl && channel.nextSyncAt && (
+                          <> · Next sync {new Date(channel.nextSyncAt).toLocaleString()}</>
+                        )}
+                      </p>
+                      {channel.consecutiveFailures > 0 && (
+                        <p className="text-sm text-destructive">
+                          {channel.consecutiveFailures} failed sync{channel.consecutiveFailures > 1 ? 's' : ''} in a row
+                          {channel.lastSyncError && `: ${channel.lastSyncError}`}
+                        </p>
+                      )}
                     </div>
-                  )}
-                  {channel.iCalUrl && (
-                    <button
-                      onClick={() => handleSync(channel.id)}
-                      disabled={syncingChannelId === channel.id}
-                      className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary/10 text-primary hover:bg-primary/20 transition-colors disabled:opacity-50"
-                    >
-                      <RefreshCw size={14} className={syncingChannelId === channel.id ? 'animate-spin' : ''} />
-                      {syncingChannelId === channel.id ? 'Syncing...' : 'Sync Now'}
-                    </button>
-                  )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {channel.lastSyncAt && (
+                      <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Clock size={14} />
+                        <span>Synced: {new Date(channel.lastSyncAt).toLocaleString()}</span>
+                      </div>
+                    )}
+                    {channel.iCalUrl && (
+                      <select
+                        value={channel.syncIntervalMinutes}
+                        onChange={(e) =>
+                          updateIntervalMutation.mutate({
+                            channelId: channel.id,
+                            syncIntervalMinutes: Number(e.target.value),
+                          })
+                        }
+                        className="px-2 py-1 rounded border border-input bg-background text-sm"
+                      >
+                        {syncIntervalOptions.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {channel.iCalUrl && (
+                      <button
+                        onClick={() => handleSync(channel.id)}
+                        disabled={syncingChannelId === channel.id}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary/10 text-primary hover:bg-primary/20 transition-colors disabled:opacity-50"
+                      >
+                        <RefreshCw size={14} className={syncingChannelId === channel.id ? 'animate-spin' : ''} />
+                        {syncingChannelId === channel.id ? 'Syncing...' : 'Sync Now'}
+                      </button>
+                    )}
+                    {channel.iCalUrl && (
+                      <button
+                        onClick={() => setHistoryChannelId(historyChannelId === channel.id ? null : channel.id)}
+                        className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm hover:bg-accent transition-colors"
+                      >
+                        <History size={14} />
+                        History
+                      </button>
+                    )}
+                  </div>
                 </div>
+              {historyChannelId === channel.id && <SyncHistory propertyId={property.id} channelId={channel.id} />}
               </div>
             ))}
           </div>
         )}
       </div>
 
+      {/* Units & Calendar Export */}
+      <div className="bg-card rounded-xl border border-border p-6 mb-8">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold">Units & Calendar Export</h2>
+          <p className="text-sm text-muted-foreground">
+            Each unit is listed separately on your channels. Import these iCal URLs into Airbnb, Vrbo and other
+            channels to block dates booked elsewhere. Add <code>&amp;exclude=airbnb</code> (or the channel's name)
+            to leave out that channel's own bookings.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {property.units.map((unit) => (
+            <div key={unit.id} className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50">
+              <div className="min-w-0">
+                <p className="font-medium">{unit.name}</p>
+                <p className="text-sm text-muted-foreground truncate">{getExportUrl(unit)}</p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => handleCopyExportUrl(unit)}
+                  className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary/10 text-primary hover:bg-primary/20 transition-colors"
+                >
+                  {copiedUnitId === unit.id ? <Check size={14} /> : <Copy size={14} />}
+                  {copiedUnitId === unit.id ? 'Copied' : 'Copy URL'}
+                </button>
+                <button
+                  onClick={() => handleRegenerateToken(unit.id)}
+                  disabled={regenerateTokenMutation.isPending}
+                  className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-accent transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw size={14} />
+                  Reset
+                </button>
+                {property.units.length > 1 && (
+                  <button
+                    onClick={() => handleRemoveUnit(unit)}
+                    disabled={removeUnitMutation.isPending}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                    title="Delete unit"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAddUnit} className="flex items-center gap-2 mt-4">
+          <input
+            type="text"
+            value={newUnitName}
+            onChange={(e) => setNewUnitName(e.target.value)}
+            className="flex-1 px-3 py-1.5 rounded-lg border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+            placeholder="New unit name, e.g. Upstairs"
+          />
+          <button
+            type="submit"
+            disabled={addUnitMutation.isPending || !newUnitName.trim()}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            <Plus size={16} />
+            Add Unit
+          </button>
+        </form>
+      </div>
+
+      <BookingLink propertyId={property.id} slug={property.slug} />
+
+      <BookingRules propertyId={property.id} units={property.units} />
+
+      <RatesAndTaxes propertyId={property.id} units={property.units} />
+
+      <AccessNotes propertyId={property.id} accessNotes={property.accessNotes} />
+
+      <PreferredCleaners propertyId={property.id} />
+
+      <TaskTemplates propertyId={property.id} />
+
       {/* Add Channel Modal */}
       <AddChannelModal
         propertyId={property.id}
+        units={property.units}
         open={showChannelModal}
         onClose={() => setShowChannelModal(false)}
       />
@@ -1,10 +1,14 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { UserRole } from '@unifiedstay/shared';
 
-interface User {
+export interface User {
   id: string;
   email: string;
   name: string;
+  // Role in the organization the user is signed in to
+  role: UserRole;
+  organization: { id: string; name: string };
 }
 
 interface AuthState {
@@ -45,3 +49,16 @@ export const useAuthStore = create<AuthState>()(
   )
 );
 
+// Users signed in before roles existed are owners
+export const getUserRole = (user: User | null): UserRole => user?.role ?? 'owner';
+
+// Owners and co-hosts run the properties; other roles see part of the app
+export const isManager = (user: User | null) => ['owner', 'co_host'].includes(getUserRole(user));
+
+// Where each role lands after signing in
+export function getHomePath(role: UserRole) {
+  if (role === 'bookkeeper') return '/finance';
+  if (role === 'cleaner' || role === 'maintenance') return '/tasks';
+  return '/';
+}
+
@@ -0,0 +1,93 @@
+-- Prepares a database created with an earlier version of the schema for
+-- `prisma db push`. Columns the schema now requires are added and filled in
+-- here first, since db push can't fill a new required column on existing rows.
+-- Safe to run more than once, and on an empty database (it does nothing).
+--
+-- Run it before db push: pnpm db:upgrade
+
+-- Properties belong to an organization rather than a user. Each existing user
+-- becomes the owner of an organization of their own, with the same id, that
+-- takes over their properties and guests
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'properties' AND column_name = 'user_id'
+  ) THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'UserRole') THEN
+      CREATE TYPE "UserRole" AS ENUM ('owner', 'co_host', 'bookkeeper', 'cleaner', 'maintenance');
+    END IF;
+
+    CREATE TABLE IF NOT EXISTS "organizations" (
+      "id" TEXT NOT NULL,
+      "name" TEXT NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+    );
+
+    CREATE TABLE IF NOT EXISTS "organization_members" (
+      "id" TEXT NOT NULL,
+      "organization_id" TEXT NOT NULL,
+      "user_id" TEXT NOT NULL,
+      "role" "UserRole" NOT NULL,
+      "max_tasks_per_day" INTEGER NOT NULL DEFAULT 3,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "organization_members_pkey" PRIMARY KEY ("id")
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS "organization_members_organization_id_user_id_key"
+      ON "organization_members"("organization_id", "user_id");
+
+    INSERT INTO "organizations" ("id", "name", "updated_at")
+    SELECT u."id", u."name" || '''s Properties', CURRENT_TIMESTAMP
+    FROM "users" u
+    ON CONFLICT ("id") DO NOTHING;
+
+    INSERT INTO "organization_members" ("id", "organization_id", "user_id", "role")
+    SELECT gen_random_uuid()::text, u."id", u."id", 'owner'
+    FROM "users" u
+    ON CONFLICT ("organization_id", "user_id") DO NOTHING;
+
+    ALTER TABLE "properties" ADD COLUMN IF NOT EXISTS "organization_id" TEXT;
+    UPDATE "properties" SET "organization_id" = "user_id" WHERE "organization_id" IS NULL;
+    ALTER TABLE "properties" DROP COLUMN "user_id";
+
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = current_schema() AND table_name = 'guests' AND column_name = 'user_id'
+    ) THEN
+      ALTER TABLE "guests" ADD COLUMN IF NOT EXISTS "organization_id" TEXT;
+      UPDATE "guests" SET "organization_id" = "user_id" WHERE "organization_id" IS NULL;
+      ALTER TABLE "guests" DROP COLUMN "user_id";
+    END IF;
+  END IF;
+END $$;
+
+-- Every unit needs a secret token for its iCal export feed
+DO $$
+BEGIN
+  IF to_regclass('units') IS NOT NULL THEN
+    ALTER TABLE "units" ADD COLUMN IF NOT EXISTS "ical_export_token" TEXT;
+    UPDATE "units" SET "ical_export_token" = gen_random_uuid()::text
+    WHERE "ical_export_token" IS NULL;
+  END IF;
+END $$;
+
+-- Channel mappings belong to a unit. Existing ones synced into the property's
+-- first unit, so they keep doing that
+DO $$
+BEGIN
+  IF to_regclass('channel_mappings') IS NOT NULL THEN
+    ALTER TABLE "channel_mappings" ADD COLUMN IF NOT EXISTS "unit_id" TEXT;
+    UPDATE "channel_mappings" m
+    SET "unit_id" = (
+      SELECT u."id" FROM "units" u
+      WHERE u."property_id" = m."property_id"
+      ORDER BY u."created_at", u."id"
+      LIMIT 1
+    )
+    WHERE m."unit_id" IS NULL;
+    -- A mapping for a property without units could never sync
+    DELETE FROM "channel_mappings" WHERE "unit_id" IS NULL;
+  END IF;
+END $$;
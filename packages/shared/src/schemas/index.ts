@@ -10,26 +10,123 @@ export const registerSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(8, 'Password must be at least 8 characters'),
   name: z.string().min(2, 'Name must be at least 2 characters'),
+  // Defaults to "<name>'s Properties"
+  organizationName: z.string().min(1).max(100).optional(),
+});
+
+// Organization schemas
+export const userRoles = ['owner', 'co_host', 'bookkeeper', 'cleaner', 'maintenance'] as const;
+
+export const updateOrganizationSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+});
+
+export const createInviteSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  name: z.string().min(2, 'Name must be at least 2 characters').optional(),
+  role: z.enum(userRoles),
+});
+
+// Someone who already has an account only needs their password
+export const acceptInviteSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters').optional(),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+export const updateMemberSchema = z.object({
+  role: z.enum(userRoles).optional(),
+  // Most tasks automatic assignment gives them on one day
+  maxTasksPerDay: z.number().int().min(1).max(20).optional(),
+});
+
+export const switchOrganizationSchema = z.object({
+  organizationId: z.string().uuid(),
 });
 
 // Property schemas
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+const timezone = z.string().refine(
+  (tz) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: tz });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Unknown timezone' }
+);
+
 export const createPropertySchema = z.object({
   name: z.string().min(1, 'Property name is required'),
   address: z.string().min(1, 'Address is required'),
-  timezone: z.string().default('America/New_York'),
+  timezone: timezone.default('America/New_York'),
   defaultMinNights: z.number().int().min(1).default(1),
   cleaningBufferHours: z.number().int().min(0).default(4),
+  checkInTime: timeOfDay.default('16:00'),
+  checkOutTime: timeOfDay.default('11:00'),
+  slug: z
+    .string()
+    .min(3, 'Booking link must be at least 3 characters')
+    .max(60)
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Booking link can only use lowercase letters, numbers and dashes')
+    .nullable()
+    .optional(),
+  accessNotes: z.string().max(2000).nullable().optional(),
 });
 
 export const updatePropertySchema = createPropertySchema.partial();
 
+// Unit schemas
+export const createUnitSchema = z.object({
+  name: z.string().min(1, 'Unit name is required'),
+});
+
+export const updateUnitSchema = createUnitSchema.partial();
+
 // Channel mapping schemas
 export const channelTypes = ['airbnb', 'vrbo', 'booking', 'direct', 'other'] as const;
 
+const regexPattern = z.string().refine(
+  (pattern) => {
+    try {
+      new RegExp(pattern, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid pattern' }
+);
+
+// Rules for telling owner blocks apart from guest bookings in an imported iCal feed
+export const classificationRulesSchema = z.object({
+  reservationPatterns: z.array(regexPattern).optional(),
+  blockPatterns: z.array(regexPattern).optional(),
+});
+
+const syncIntervalSchema = z
+  .number()
+  .int()
+  .min(15, 'Sync interval must be at least 15 minutes')
+  .max(1440, 'Sync interval must be at most 24 hours');
+
 export const createChannelMappingSchema = z.object({
+  // Optional for single-unit properties
+  unitId: z.string().uuid().optional(),
   channel: z.enum(channelTypes),
   externalId: z.string().optional(),
   iCalUrl: z.string().url().optional(),
+  classificationRules: classificationRulesSchema.optional(),
+  syncIntervalMinutes: syncIntervalSchema.optional(),
+});
+
+export const updateChannelMappingSchema = z.object({
+  externalId: z.string().optional(),
+  iCalUrl: z.string().url().nullable().optional(),
+  classificationRules: classificationRulesSchema.nullable().optional(),
+  syncIntervalMinutes: syncIntervalSchema.optional(),
 });
 
 // Reservation schemas
@@ -43,8 +140,117 @@ export const createReservationSchema = z.object({
   checkOut: z.coerce.date(),
   totalAmount: z.number().min(0).optional(),
   externalId: z.string().optional(),
+  guestEmail: z.string().email('Invalid email address').optional(),
+  guestPhone: z.string().max(50).optional(),
+  // Link to an existing guest instead of matching by email or phone
+  guestId: z.string().uuid().optional(),
+  guests: z.number().int().min(1).optional(),
+  // Price the stay with the unit's rates and store the itemised quote
+  useQuote: z.boolean().optional(),
+});
+
+export const updateReservationSchema = z
+  .object({
+    guestName: z.string().min(1).optional(),
+    guestEmail: z.string().email('Invalid email address').nullable().optional(),
+    guestPhone: z.string().nullable().optional(),
+    checkIn: z.coerce.date().optional(),
+    checkOut: z.coerce.date().optional(),
+    totalAmount: z.number().min(0).nullable().optional(),
+    notes: z.string().nullable().optional(),
+    status: z.enum(reservationStatusTypes).optional(),
+  })
+  .refine((input) => !input.checkIn || !input.checkOut || input.checkOut > input.checkIn, {
+    message: 'Check-out must be after check-in',
+  });
+
+// Booking rule schemas
+export const createBookingRuleSchema = z.object({
+  // Leave out to apply to every unit of the property
+  unitId: z.string().uuid().nullable().optional(),
+  name: z.string().nullable().optional(),
+  // Limit the rule to check-ins in this range, e.g. a holiday minimum stay
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  minNights: z.number().int().min(1).nullable().optional(),
+  maxNights: z.number().int().min(1).nullable().optional(),
+  minNoticeDays: z.number().int().min(0).nullable().optional(),
+  allowSameDayTurnover: z.boolean().nullable().optional(),
+  checkInDays: z.array(z.number().int().min(0).max(6)).optional(),
 });
 
+export const updateBookingRuleSchema = createBookingRuleSchema.partial();
+
+// Rate schemas
+const money = z.number().min(0);
+
+export const rateSeasonSchema = z
+  .object({
+    name: z.string().min(1, 'Season name is required'),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    nightlyRate: money,
+    weekendNightlyRate: money.nullable().optional(),
+  })
+  .refine((season) => season.endDate >= season.startDate, {
+    message: 'Season end date must be on or after its start date',
+  });
+
+export const upsertRatePlanSchema = z.object({
+  currency: z.string().length(3).default('USD'),
+  baseNightlyRate: money,
+  weekendNightlyRate: money.nullable().optional(),
+  cleaningFee: money.default(0),
+  extraGuestFee: money.default(0),
+  includedGuests: z.number().int().min(1).default(2),
+  maxGuests: z.number().int().min(1).nullable().optional(),
+  // Replaces the plan's seasons
+  seasons: z.array(rateSeasonSchema).default([]),
+});
+
+export const createTaxRateSchema = z.object({
+  name: z.string().min(1, 'Tax name is required'),
+  percent: z.number().min(0).max(100),
+  appliesToCleaningFee: z.boolean().default(true),
+});
+
+export const quoteRequestSchema = z
+  .object({
+    unitId: z.string().uuid(),
+    checkIn: z.coerce.date(),
+    checkOut: z.coerce.date(),
+    guests: z.number().int().min(1).default(1),
+  })
+  .refine((input) => input.checkOut > input.checkIn, {
+    message: 'Check-out must be after check-in',
+  });
+
+// Public booking schemas
+export const publicAvailabilityQuerySchema = z
+  .object({
+    unitId: z.string().uuid().optional(),
+    start: z.coerce.date().optional(),
+    end: z.coerce.date().optional(),
+  })
+  .refine((query) => !query.start || !query.end || query.end > query.start, {
+    message: 'End date must be after start date',
+  });
+
+export const publicBookingRequestSchema = z
+  .object({
+    unitId: z.string().uuid(),
+    checkIn: z.coerce.date(),
+    checkOut: z.coerce.date(),
+    guests: z.number().int().min(1).default(1),
+    guestName: z.string().min(1, 'Guest name is required').max(200),
+    guestEmail: z.string().email('Invalid email address'),
+    guestPhone: z.string().max(50).optional(),
+    notes: z.string().max(2000).optional(),
+  })
+  .refine((input) => input.checkOut > input.checkIn, {
+    message: 'Check-out must be after check-in',
+  });
+
 // Block schemas
 export const blockTypes = ['blocked', 'maintenance', 'hold'] as const;
 
@@ -60,20 +266,142 @@ export const createBlockSchema = z.object({
 export const taskTypes = ['cleaning', 'maintenance', 'inspection', 'restock', 'other'] as const;
 export const taskStatusTypes = ['pending', 'in_progress', 'completed', 'cancelled'] as const;
 
-export const createTaskSchema = z.object({
-  propertyId: z.string().uuid(),
-  type: z.enum(taskTypes),
-  description: z.string().optional(),
-  dueAt: z.coerce.date(),
-  assigneeId: z.string().uuid().optional(),
+export const checklistItemSchema = z.object({
+  label: z.string().trim().min(1, 'Checklist items need a label').max(200),
+  required: z.boolean().default(true),
+  photoRequired: z.boolean().default(false),
 });
 
+const checklist = z.array(checklistItemSchema).max(50);
+
+// Type, description, checklist and assignee default to the template's when one is given
+export const createTaskSchema = z
+  .object({
+    propertyId: z.string().uuid(),
+    templateId: z.string().uuid().optional(),
+    type: z.enum(taskTypes).optional(),
+    description: z.string().optional(),
+    checklist: checklist.optional(),
+    dueAt: z.coerce.date(),
+    assigneeId: z.string().uuid().optional(),
+  })
+  .refine((input) => input.type || input.templateId, {
+    message: 'Task type or template is required',
+    path: ['type'],
+  });
+
 export const updateTaskSchema = z.object({
   status: z.enum(taskStatusTypes).optional(),
   assigneeId: z.string().uuid().nullable().optional(),
   completionNotes: z.string().optional(),
 });
 
+export const updateChecklistItemSchema = z.object({
+  completed: z.boolean(),
+});
+
+export const taskPhotoTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'] as const;
+
+// Photos are sent base64-encoded in JSON, like PDF payout imports
+export const uploadTaskPhotoSchema = z.object({
+  contentType: z.enum(taskPhotoTypes, {
+    errorMap: () => ({ message: 'Photos must be JPEG, PNG, WebP or HEIC' }),
+  }),
+  dataBase64: z.string().min(1, 'Photo is required'),
+});
+
+export const createTaskTemplateSchema = z.object({
+  propertyId: z.string().uuid(),
+  name: z.string().min(1, 'Name is required'),
+  type: z.enum(taskTypes),
+  description: z.string().optional(),
+  checklist: checklist.default([]),
+  defaultAssigneeId: z.string().uuid().optional(),
+  forTurnovers: z.boolean().default(false),
+});
+
+export const updateTaskTemplateSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  type: z.enum(taskTypes).optional(),
+  description: z.string().nullable().optional(),
+  checklist: checklist.optional(),
+  defaultAssigneeId: z.string().uuid().nullable().optional(),
+  forTurnovers: z.boolean().optional(),
+  // Also update pending tasks from this template that are still to come
+  applyToFuture: z.boolean().default(false),
+});
+
+// rrule is an RRULE such as "FREQ=MONTHLY;INTERVAL=3", checked by the API
+export const createTaskScheduleSchema = z
+  .object({
+    templateId: z.string().uuid(),
+    rrule: z.string().min(1, 'Recurrence is required'),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date().optional(),
+    dueTime: timeOfDay.default('10:00'),
+  })
+  .refine((input) => !input.endDate || input.endDate >= input.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+export const updateTaskScheduleSchema = z
+  .object({
+    rrule: z.string().min(1, 'Recurrence is required').optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().nullable().optional(),
+    dueTime: timeOfDay.optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((input) => !input.startDate || !input.endDate || input.endDate >= input.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+// Cleaners in the order turnover cleanings are offered to them
+export const setPreferredCleanersSchema = z.object({
+  userIds: z
+    .array(z.string().uuid())
+    .max(20)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: 'Each cleaner can only be listed once',
+    }),
+});
+
+// Days off, inclusive. userId defaults to the signed-in member
+export const createTimeOffSchema = z
+  .object({
+    userId: z.string().uuid().optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine((input) => input.endDate >= input.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+export const timeOffQuerySchema = z
+  .object({
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+  })
+  .refine((query) => query.end >= query.start, {
+    message: 'End must be on or after start',
+    path: ['end'],
+  });
+
+// On-time completion of tasks due in a date range
+export const taskReportQuerySchema = z
+  .object({
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+  })
+  .refine((query) => query.end >= query.start, {
+    message: 'End must be on or after start',
+    path: ['end'],
+  });
+
 // Finance schemas
 export const expenseCategories = [
   'cleaning',
@@ -112,6 +440,62 @@ export const paginationSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20),
 });
 
+// Sync log schemas
+export const syncLogStatusTypes = ['success', 'failed', 'partial', 'unchanged'] as const;
+
+export const syncLogQuerySchema = paginationSchema.extend({
+  // Comma-separated list, e.g. "failed,partial"
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',').map((s) => s.trim()) : undefined))
+    .pipe(z.array(z.enum(syncLogStatusTypes)).optional()),
+});
+
+// Guest schemas
+export const guestQuerySchema = paginationSchema.extend({
+  // Matches name, email or phone
+  search: z.string().trim().optional(),
+  tag: z.string().optional(),
+});
+
+export const updateGuestSchema = z.object({
+  name: z.string().min(1, 'Guest name is required').max(200).optional(),
+  email: z.string().email('Invalid email address').nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  notes: z.string().max(5000).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+});
+
+// Conflict schemas
+export const conflictQuerySchema = z.object({
+  propertyId: z.string().uuid().optional(),
+  status: z.enum(['open', 'acknowledged', 'resolved']).optional(),
+  severity: z.enum(['overlap', 'tight_turnover']).optional(),
+});
+
+export const updateConflictSchema = z.object({
+  status: z.enum(['open', 'acknowledged']),
+});
+
+export const resolveConflictSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('cancel_reservation'),
+    reservationId: z.string().uuid(),
+    note: z.string().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('move_reservation'),
+    reservationId: z.string().uuid(),
+    targetUnitId: z.string().uuid(),
+    note: z.string().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('false_positive'),
+    note: z.string().max(500).optional(),
+  }),
+]);
+
 // Date range schema
 export const dateRangeSchema = z.object({
   start: z.coerce.date(),
@@ -121,13 +505,46 @@ export const dateRangeSchema = z.object({
 // Type exports
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
+export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
+export type CreateInviteInput = z.infer<typeof createInviteSchema>;
+export type AcceptInviteInput = z.infer<typeof acceptInviteSchema>;
+export type UpdateMemberInput = z.infer<typeof updateMemberSchema>;
 export type CreatePropertyInput = z.infer<typeof createPropertySchema>;
 export type UpdatePropertyInput = z.infer<typeof updatePropertySchema>;
+export type CreateUnitInput = z.infer<typeof createUnitSchema>;
+export type UpdateUnitInput = z.infer<typeof updateUnitSchema>;
+export type ClassificationRules = z.infer<typeof classificationRulesSchema>;
 export type CreateChannelMappingInput = z.infer<typeof createChannelMappingSchema>;
+export type UpdateChannelMappingInput = z.infer<typeof updateChannelMappingSchema>;
 export type CreateReservationInput = z.infer<typeof createReservationSchema>;
+export type UpdateReservationInput = z.infer<typeof updateReservationSchema>;
+export type CreateBookingRuleInput = z.infer<typeof createBookingRuleSchema>;
+export type UpdateBookingRuleInput = z.infer<typeof updateBookingRuleSchema>;
+export type UpsertRatePlanInput = z.infer<typeof upsertRatePlanSchema>;
+export type CreateTaxRateInput = z.infer<typeof createTaxRateSchema>;
+export type QuoteRequest = z.infer<typeof quoteRequestSchema>;
+export type PublicAvailabilityQuery = z.infer<typeof publicAvailabilityQuerySchema>;
+export type PublicBookingRequest = z.infer<typeof publicBookingRequestSchema>;
 export type CreateBlockInput = z.infer<typeof createBlockSchema>;
 export type CreateTaskInput = z.infer<typeof createTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type ChecklistItemInput = z.infer<typeof checklistItemSchema>;
+export type UpdateChecklistItemInput = z.infer<typeof updateChecklistItemSchema>;
+export type UploadTaskPhotoInput = z.infer<typeof uploadTaskPhotoSchema>;
+export type CreateTaskTemplateInput = z.infer<typeof createTaskTemplateSchema>;
+export type UpdateTaskTemplateInput = z.infer<typeof updateTaskTemplateSchema>;
+export type CreateTaskScheduleInput = z.infer<typeof createTaskScheduleSchema>;
+export type UpdateTaskScheduleInput = z.infer<typeof updateTaskScheduleSchema>;
+export type SetPreferredCleanersInput = z.infer<typeof setPreferredCleanersSchema>;
+export type CreateTimeOffInput = z.infer<typeof createTimeOffSchema>;
+export type TimeOffQuery = z.infer<typeof timeOffQuerySchema>;
+export type TaskReportQuery = z.infer<typeof taskReportQuerySchema>;
 export type CreateExpenseInput = z.infer<typeof createExpenseSchema>;
 export type CreateRevenueInput = z.infer<typeof createRevenueSchema>;
+export type SyncLogQuery = z.infer<typeof syncLogQuerySchema>;
+export type ConflictQuery = z.infer<typeof conflictQuerySchema>;
+export type UpdateConflictInput = z.infer<typeof updateConflictSchema>;
+export type ResolveConflictInput = z.infer<typeof resolveConflictSchema>;
+export type GuestQuery = z.infer<typeof guestQuerySchema>;
+export type UpdateGuestInput = z.infer<typeof updateGuestSchema>;
 
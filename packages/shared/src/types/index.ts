@@ -17,9 +17,22 @@ export type ReservationStatus = 'confirmed' | 'pending' | 'cancelled' | 'complet
 // Availability block types
 export type BlockType = 'booked' | 'blocked' | 'maintenance' | 'hold';
 
+// Sync log status
+export type SyncLogStatus = 'success' | 'failed' | 'partial' | 'unchanged';
+
+// A member's role in an organization
+export type UserRole = 'owner' | 'co_host' | 'bookkeeper' | 'cleaner' | 'maintenance';
+
 // Task types and status
 export type TaskType = 'cleaning' | 'maintenance' | 'inspection' | 'restock' | 'other';
 export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
+export type TaskEventType =
+  | 'created'
+  | 'rescheduled'
+  | 'deadline_changed'
+  | 'reassigned'
+  | 'cancelled'
+  | 'overdue';
 
 // Expense categories
 export type ExpenseCategory =
@@ -69,18 +82,97 @@ export interface CalendarEvent {
   type: BlockType;
   channel?: ChannelType;
   guestName?: string;
+  guestId?: string;
+  // Tags on the guest's profile, e.g. "do not rebook"
+  guestTags?: string[];
+  // Set for reservations; pending ones are waiting for the owner to confirm
+  status?: ReservationStatus;
   checkIn: Date;
   checkOut: Date;
   externalId?: string;
   hasConflict?: boolean;
+  hasTurnoverWarning?: boolean;
+  // Booking rules the reservation breaks
+  ruleViolations?: string[];
+  // The cleaning before the stay is overdue
+  checkInAtRisk?: boolean;
+}
+
+// Direct booking quotes
+export type QuoteLineType = 'nightly' | 'cleaning_fee' | 'extra_guest_fee' | 'tax';
+
+export interface QuoteLineItem {
+  type: QuoteLineType;
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+}
+
+export interface Quote {
+  unitId: string;
+  checkIn: Date;
+  checkOut: Date;
+  nights: number;
+  guests: number;
+  currency: string;
+  available: boolean;
+  // Why the dates can't be booked, when they can't
+  unavailableReason?: string;
+  ruleViolations: string[];
+  lines: QuoteLineItem[];
+  subtotal: number;
+  taxTotal: number;
+  total: number;
+}
+
+// Public booking pages
+export interface PublicProperty {
+  name: string;
+  timezone: string;
+  checkInTime: string;
+  checkOutTime: string;
+  units: { id: string; name: string }[];
+}
+
+export interface PublicUnitAvailability {
+  unitId: string;
+  unitName: string;
+  // Nights that are free to book, as YYYY-MM-DD in the property's timezone
+  availableDates: string[];
 }
 
 // Conflict info
+export type ConflictSeverity = 'overlap' | 'tight_turnover';
+
 export interface ConflictInfo {
   eventA: CalendarEvent;
   eventB: CalendarEvent;
+  severity: ConflictSeverity;
+  // For tight turnovers, the gap between check-out and the next check-in
   overlapStart: Date;
   overlapEnd: Date;
+  gapHours?: number;
+}
+
+// Conflict workflow
+export type ConflictStatus = 'open' | 'acknowledged' | 'resolved';
+export type ConflictResolution = 'cancelled_reservation' | 'moved_reservation' | 'false_positive';
+
+// Stored conflict with its current workflow state
+export interface ConflictRecord extends ConflictInfo {
+  id: string;
+  unitId: string;
+  unitName: string;
+  propertyId: string;
+  propertyName: string;
+  status: ConflictStatus;
+  resolution?: ConflictResolution;
+  resolutionNote?: string;
+  detectedAt: Date;
+  resolvedAt?: Date;
+  // Other units of the property a reservation could be moved to
+  alternativeUnits: { id: string; name: string }[];
 }
 
 // Dashboard summary